@@ -1,5 +1,6 @@
 import { Suspense, lazy } from "react";
 import { BrowserRouter, Navigate, Route, Routes } from "react-router-dom";
+import { useOutboxReplay } from "@/hooks/useOutboxReplay";
 import { useSessionBootstrap } from "@/hooks/useSessionBootstrap";
 import { AppLayout } from "@/components/common/AppLayout";
 import { ProtectedRoute } from "@/components/common/ProtectedRoute";
@@ -15,10 +16,13 @@ const TeacherTestsPage = lazy(() => import("@/pages/teacher/TestsPage"));
 const TeacherBuilderPage = lazy(() => import("@/pages/teacher/BuilderPage"));
 const TeacherResultsPage = lazy(() => import("@/pages/teacher/ResultsPage"));
 const TeacherAttemptDetailsPage = lazy(() => import("@/pages/teacher/AttemptDetailsPage"));
+const TeacherGradingPage = lazy(() => import("@/pages/teacher/GradingPage"));
 const TeacherAssignmentsPage = lazy(() => import("@/pages/teacher/AssignmentsPage"));
+const TeacherQuestionBankPage = lazy(() => import("@/pages/teacher/QuestionBankPage"));
 
 export const App = () => {
   useSessionBootstrap();
+  useOutboxReplay();
 
   return (
     <BrowserRouter>
@@ -84,6 +88,14 @@ export const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/teacher/bank"
+              element={
+                <ProtectedRoute allowRoles={["teacher"]}>
+                  <TeacherQuestionBankPage />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/teacher/tests/create"
               element={
@@ -116,6 +128,14 @@ export const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/teacher/results/:testId/grading"
+              element={
+                <ProtectedRoute allowRoles={["teacher"]}>
+                  <TeacherGradingPage />
+                </ProtectedRoute>
+              }
+            />
 
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
@@ -47,6 +47,9 @@ export const AppLayout = ({ children }: AppLayoutProps) => {
   const [logout] = useLogoutMutation();
 
   const online = useAppSelector((state) => state.ui.online);
+  const queuedCount = useAppSelector(
+    (state) => state.outbox.entries.filter((entry) => entry.studentId === (state.user.profile?.id ?? null)).length
+  );
   const theme = useAppSelector((state) => state.ui.theme);
   const profile = useAppSelector((state) => state.user.profile);
   const isAuthenticated = useAppSelector((state) => Boolean(state.auth.token));
@@ -73,7 +76,11 @@ export const AppLayout = ({ children }: AppLayoutProps) => {
 
   return (
     <div className="app-root">
-      {!online && <div className="offline-banner">Offline mode detected.</div>}
+      {!online && (
+        <div className="offline-banner">
+          Offline mode detected.{queuedCount > 0 ? ` ${queuedCount} change(s) queued.` : ""}
+        </div>
+      )}
 
       {showHeader && (
         <header className="app-header">
@@ -118,6 +125,9 @@ export const AppLayout = ({ children }: AppLayoutProps) => {
               >
                 Assignments
               </Link>
+              <Link to="/teacher/bank" className={location.pathname.startsWith("/teacher/bank") ? "active" : ""}>
+                Bank
+              </Link>
               <Link to="/teacher" className={location.pathname === "/teacher" ? "active" : ""}>
                 Dashboard
               </Link>
@@ -0,0 +1,84 @@
+import { createElement, useMemo, type ReactNode } from "react";
+import { parseInline, parseMarkdown, type BlockNode, type InlineNode } from "@/lib/markdown";
+import { texToMathml, type MathNode } from "@/lib/texToMathml";
+
+const renderMath = (mathNode: MathNode | string, key: number | string): ReactNode => {
+  if (typeof mathNode === "string") {
+    return mathNode;
+  }
+
+  return createElement(
+    mathNode.tag,
+    { key, ...mathNode.attrs },
+    ...mathNode.children.map((child, index) => renderMath(child, index))
+  );
+};
+
+const renderInline = (nodes: InlineNode[]): ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.kind) {
+      case "text":
+        return node.text;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "code":
+        return <code key={index}>{node.text}</code>;
+      case "link":
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow">
+            {renderInline(node.children)}
+          </a>
+        );
+      case "math":
+        return renderMath(texToMathml(node.tex, false), index);
+      case "break":
+        return <br key={index} />;
+    }
+  });
+
+const renderBlock = (block: BlockNode, index: number): ReactNode => {
+  switch (block.kind) {
+    case "paragraph":
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case "heading":
+      return createElement(`h${block.level + 3}`, { key: index }, renderInline(block.children));
+    case "list":
+      return createElement(
+        block.ordered ? "ol" : "ul",
+        { key: index },
+        block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)
+      );
+    case "quote":
+      return <blockquote key={index}>{renderInline(block.children)}</blockquote>;
+    case "code":
+      return (
+        <pre key={index}>
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "math":
+      return <div key={index}>{renderMath(texToMathml(block.tex, true), 0)}</div>;
+  }
+};
+
+interface RichTextProps {
+  text: string;
+  // Inline mode skips block syntax so option labels and table cells keep their layout.
+  inline?: boolean;
+  className?: string;
+}
+
+export const RichText = ({ text, inline = false, className = "" }: RichTextProps) => {
+  const content = useMemo(
+    () => (inline ? renderInline(parseInline(text)) : parseMarkdown(text).map(renderBlock)),
+    [text, inline]
+  );
+
+  if (inline) {
+    return <span className={`rich-text ${className}`.trim()}>{content}</span>;
+  }
+
+  return <div className={`rich-text ${className}`.trim()}>{content}</div>;
+};
@@ -0,0 +1,65 @@
+import { useEffect, useState, type MouseEvent } from "react";
+import { createPortal } from "react-dom";
+
+interface ZoomableImageProps {
+  src: string;
+  alt: string;
+  className?: string;
+}
+
+export const ZoomableImage = ({ src, alt, className = "" }: ZoomableImageProps) => {
+  const [zoomed, setZoomed] = useState(false);
+
+  useEffect(() => {
+    if (!zoomed) {
+      return;
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setZoomed(false);
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [zoomed]);
+
+  // The image may sit inside an option label; zooming must not also pick that option.
+  const open = (event: MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setZoomed(true);
+  };
+
+  const close = (event: MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setZoomed(false);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        className={`zoomable-image ${className}`.trim()}
+        onClick={open}
+        aria-label={`Enlarge: ${alt}`}
+      >
+        <img src={src} alt={alt} loading="lazy" />
+      </button>
+
+      {zoomed
+        ? createPortal(
+            <div className="image-zoom" role="dialog" aria-modal="true" aria-label={alt} onClick={close}>
+              <img src={src} alt={alt} />
+              <button type="button" className="btn btn-secondary" onClick={close}>
+                Close
+              </button>
+            </div>,
+            document.body
+          )
+        : null}
+    </>
+  );
+};
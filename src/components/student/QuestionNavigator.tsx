@@ -0,0 +1,43 @@
+import type { QuestionProgress } from "@/lib/attemptProgress";
+
+const PROGRESS_LABELS: Record<QuestionProgress, string> = {
+  unanswered: "Unanswered",
+  answered: "Answered",
+  flagged: "Flagged",
+};
+
+interface QuestionNavigatorProps {
+  progress: QuestionProgress[];
+  currentIndex: number;
+  disabled?: boolean;
+  onJump: (index: number) => void;
+}
+
+export const QuestionNavigator = ({ progress, currentIndex, disabled = false, onJump }: QuestionNavigatorProps) => (
+  <div className="question-nav">
+    <div className="question-nav-grid">
+      {progress.map((state, index) => (
+        <button
+          key={index}
+          type="button"
+          className={`question-nav-cell ${state} ${index === currentIndex ? "current" : ""}`}
+          aria-label={`Question ${index + 1}: ${PROGRESS_LABELS[state]}`}
+          aria-current={index === currentIndex ? "step" : undefined}
+          disabled={disabled}
+          onClick={() => onJump(index)}
+        >
+          {index + 1}
+        </button>
+      ))}
+    </div>
+
+    <div className="question-nav-legend muted">
+      {(Object.keys(PROGRESS_LABELS) as QuestionProgress[]).map((state) => (
+        <span key={state}>
+          <i className={`question-nav-dot ${state}`} /> {PROGRESS_LABELS[state]} (
+          {progress.filter((item) => item === state).length})
+        </span>
+      ))}
+    </div>
+  </div>
+);
@@ -1,22 +1,187 @@
-import type { AttemptAnswerInput, StudentQuestion } from "@/types/domain";
+import { useRef, useState } from "react";
+import { RichText } from "@/components/common/RichText";
+import { ZoomableImage } from "@/components/common/ZoomableImage";
+import { parseNumericInput } from "@/lib/numeric";
+import type { AttemptAnswerInput, MatchPair, QuestionOption, StudentQuestion } from "@/types/domain";
 
-interface QuestionRendererProps {
+interface AnswerInputProps {
   question: StudentQuestion;
   value: AttemptAnswerInput | undefined;
   disabled?: boolean;
   onChange: (next: AttemptAnswerInput) => void;
 }
 
+interface QuestionRendererProps extends AnswerInputProps {
+  // Asks the server for the next hint step; without it the hint control is hidden.
+  onRevealHint?: () => void;
+  revealingHint?: boolean;
+}
+
 const checked = (array: number[] | undefined, value: number): boolean => {
   return Array.isArray(array) ? array.includes(value) : false;
 };
 
-export const QuestionRenderer = ({ question, value, disabled = false, onChange }: QuestionRendererProps) => {
+// Choice options can be text, an image, or both.
+const ChoiceContent = ({ option, index }: { option: QuestionOption; index: number }) => (
+  <span className="choice-text">
+    {option.text ? <RichText text={option.text} inline /> : null}
+    {option.imageUrl ? (
+      <ZoomableImage src={option.imageUrl} alt={option.text || `Option ${index + 1}`} className="option-image" />
+    ) : null}
+  </span>
+);
+
+// Keeps the saved order but drops unknown ids and appends options the answer does not mention yet.
+const resolveOrder = (question: StudentQuestion, orderedOptionIds: number[] | undefined): number[] => {
+  const known = new Set(question.options.map((option) => option.id));
+  const order = (orderedOptionIds ?? []).filter((id) => known.has(id));
+  const missing = question.options.map((option) => option.id).filter((id) => !order.includes(id));
+  return [...order, ...missing];
+};
+
+const moveItem = (items: number[], from: number, to: number): number[] => {
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item!);
+  return next;
+};
+
+const OrderingQuestion = ({ question, value, disabled = false, onChange }: AnswerInputProps) => {
+  const order = resolveOrder(question, value?.orderedOptionIds);
+  const textById = new Map(question.options.map((option) => [option.id, option.text]));
+  const itemRefs = useRef(new Map<number, HTMLLIElement>());
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+
+  const commit = (next: number[]): void => {
+    onChange({ questionId: question.id, orderedOptionIds: next });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLElement>): void => {
+    if (draggingId === null) {
+      return;
+    }
+
+    const from = order.indexOf(draggingId);
+    // Move the dragged item past every neighbour whose midpoint the pointer has crossed.
+    const to = order.findIndex((id) => {
+      const rect = itemRefs.current.get(id)?.getBoundingClientRect();
+      return rect ? event.clientY < rect.top + rect.height / 2 : false;
+    });
+    const target = to === -1 ? order.length - 1 : to > from ? to - 1 : to;
+
+    if (from !== -1 && target !== from) {
+      commit(moveItem(order, from, target));
+    }
+  };
+
+  return (
+    <ol className="ordering-list">
+      {order.map((optionId, index) => (
+        <li
+          key={optionId}
+          ref={(node) => {
+            if (node) {
+              itemRefs.current.set(optionId, node);
+            } else {
+              itemRefs.current.delete(optionId);
+            }
+          }}
+          className={`choice-item ordering-item ${draggingId === optionId ? "dragging" : ""}`}
+        >
+          <span
+            className="drag-handle"
+            aria-hidden="true"
+            onPointerDown={(event) => {
+              if (disabled) {
+                return;
+              }
+              event.currentTarget.setPointerCapture(event.pointerId);
+              setDraggingId(optionId);
+            }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDraggingId(null)}
+            onPointerCancel={() => setDraggingId(null)}
+          >
+            ⋮⋮
+          </span>
+          <RichText text={textById.get(optionId) ?? ""} inline className="choice-text" />
+          <span className="ordering-moves">
+            <button
+              type="button"
+              className="btn btn-ghost"
+              aria-label="Move up"
+              disabled={disabled || index === 0}
+              onClick={() => commit(moveItem(order, index, index - 1))}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              className="btn btn-ghost"
+              aria-label="Move down"
+              disabled={disabled || index === order.length - 1}
+              onClick={() => commit(moveItem(order, index, index + 1))}
+            >
+              ↓
+            </button>
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+const MatchingQuestion = ({ question, value, disabled = false, onChange }: AnswerInputProps) => {
+  const rightOptions = question.matchOptions ?? [];
+  const pairs = value?.matchedPairs ?? [];
+  const rightByLeft = new Map(pairs.map((pair) => [pair.leftId, pair.rightId]));
+
+  const pick = (leftId: number, raw: string): void => {
+    const rightId = raw === "" ? null : Number(raw);
+    // Each right-hand item is used once, so picking it again moves it away from the other row.
+    const next: MatchPair[] = pairs.filter((pair) => pair.leftId !== leftId && pair.rightId !== rightId);
+    if (rightId !== null) {
+      next.push({ leftId, rightId });
+    }
+
+    onChange({ questionId: question.id, matchedPairs: next });
+  };
+
+  return (
+    <div className="question-body">
+      {question.options.map((left) => (
+        <label key={left.id} className="choice-item match-row">
+          <RichText text={left.text} inline className="choice-text" />
+          <select
+            className="answer-input"
+            value={rightByLeft.get(left.id) ?? ""}
+            onChange={(event) => pick(left.id, event.target.value)}
+            disabled={disabled}
+          >
+            <option value="">Choose a match</option>
+            {rightOptions.map((right) => (
+              <option key={right.id} value={right.id}>
+                {right.text}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+const AnswerInput = ({ question, value, disabled = false, onChange }: AnswerInputProps) => {
   const selected = value?.selectedOptionIds ?? [];
 
   const noOptionsForChoice =
-    (question.type === "single" || question.type === "multiple") &&
-    (!Array.isArray(question.options) || question.options.length === 0);
+    (question.type === "single" ||
+      question.type === "multiple" ||
+      question.type === "ordering" ||
+      question.type === "matching") &&
+    (!Array.isArray(question.options) ||
+      question.options.length === 0 ||
+      (question.type === "matching" && (question.matchOptions ?? []).length === 0));
 
   if (noOptionsForChoice) {
     return (
@@ -31,7 +196,7 @@ export const QuestionRenderer = ({ question, value, disabled = false, onChange }
   if (question.type === "single") {
     return (
       <div className="question-body">
-        {question.options.map((option) => (
+        {question.options.map((option, index) => (
           <label key={option.id} className="choice-item">
             <input
               type="radio"
@@ -45,7 +210,7 @@ export const QuestionRenderer = ({ question, value, disabled = false, onChange }
               }
               disabled={disabled}
             />
-            <span className="choice-text">{option.text}</span>
+            <ChoiceContent option={option} index={index} />
           </label>
         ))}
       </div>
@@ -55,7 +220,7 @@ export const QuestionRenderer = ({ question, value, disabled = false, onChange }
   if (question.type === "multiple") {
     return (
       <div className="question-body">
-        {question.options.map((option) => (
+        {question.options.map((option, index) => (
           <label key={option.id} className="choice-item">
             <input
               type="checkbox"
@@ -72,13 +237,21 @@ export const QuestionRenderer = ({ question, value, disabled = false, onChange }
               }}
               disabled={disabled}
             />
-            <span className="choice-text">{option.text}</span>
+            <ChoiceContent option={option} index={index} />
           </label>
         ))}
       </div>
     );
   }
 
+  if (question.type === "ordering") {
+    return <OrderingQuestion question={question} value={value} disabled={disabled} onChange={onChange} />;
+  }
+
+  if (question.type === "matching") {
+    return <MatchingQuestion question={question} value={value} disabled={disabled} onChange={onChange} />;
+  }
+
   if (question.type === "short") {
     return (
       <textarea
@@ -97,29 +270,111 @@ export const QuestionRenderer = ({ question, value, disabled = false, onChange }
     );
   }
 
+  const numericText = value?.numericText ?? (typeof value?.numericAnswer === "number" ? String(value.numericAnswer) : "");
+  const numericInvalid = numericText.trim() !== "" && parseNumericInput(numericText) === null;
+
   return (
-    <input
-      className="answer-input"
-      type="number"
-      value={typeof value?.numericAnswer === "number" ? String(value.numericAnswer) : ""}
-      onChange={(event) => {
-        const raw = event.target.value;
-        if (raw.trim() === "") {
-          onChange({
-            questionId: question.id,
-            numericAnswer: undefined,
-          });
-          return;
-        }
+    <div className="question-body">
+      <div className={question.expectsUnit ? "numeric-row" : undefined}>
+        <input
+          className="answer-input"
+          type="text"
+          inputMode="decimal"
+          autoComplete="off"
+          value={numericText}
+          onChange={(event) => {
+            const raw = event.target.value;
+            onChange({
+              questionId: question.id,
+              numericText: raw,
+              numericAnswer: parseNumericInput(raw) ?? undefined,
+            });
+          }}
+          placeholder="Enter numeric answer"
+          disabled={disabled}
+        />
+
+        {question.expectsUnit ? (
+          <input
+            className="answer-input"
+            type="text"
+            autoComplete="off"
+            autoCapitalize="off"
+            value={value?.numericUnit ?? ""}
+            onChange={(event) =>
+              onChange({
+                questionId: question.id,
+                numericUnit: event.target.value,
+              })
+            }
+            placeholder="Unit"
+            disabled={disabled}
+          />
+        ) : null}
+      </div>
 
-        const numeric = Number(raw);
-        onChange({
-          questionId: question.id,
-          numericAnswer: Number.isFinite(numeric) ? numeric : undefined,
-        });
-      }}
-      placeholder="Enter numeric answer"
-      disabled={disabled}
-    />
+      {numericInvalid ? (
+        <p className="error-inline">
+          Use digits with a point or comma, e.g. 12,5 or 1.2e-3. Write 1234 or 1.234 rather than 1,234.
+        </p>
+      ) : null}
+    </div>
   );
 };
+
+const HintPanel = ({
+  question,
+  disabled,
+  revealing,
+  onReveal,
+}: {
+  question: StudentQuestion;
+  disabled: boolean;
+  revealing: boolean;
+  onReveal?: () => void;
+}) => {
+  const revealed = question.revealedHints ?? [];
+  const remaining = (question.hintCount ?? 0) - revealed.length;
+  const penalty = question.hintPenaltyPercent ?? 0;
+
+  return (
+    <div className="hint-panel">
+      {revealed.map((hint, index) => (
+        <div key={index} className="hint-text">
+          <strong>Hint {index + 1}:</strong>
+          <RichText text={hint} />
+        </div>
+      ))}
+
+      {remaining > 0 && onReveal ? (
+        <div className="actions-row left">
+          <button type="button" className="btn btn-ghost" onClick={onReveal} disabled={disabled || revealing}>
+            {revealing ? "Loading hint..." : revealed.length === 0 ? "Show Hint" : "Show Next Hint"}
+          </button>
+          <span className="muted">
+            {remaining} left{penalty > 0 ? `, each costs ${penalty}% of this question's points` : ""}
+          </span>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export const QuestionRenderer = ({
+  question,
+  value,
+  disabled = false,
+  onChange,
+  onRevealHint,
+  revealingHint = false,
+}: QuestionRendererProps) => (
+  <>
+    {question.imageUrl ? (
+      <ZoomableImage src={question.imageUrl} alt="Question illustration" className="question-image" />
+    ) : null}
+    <AnswerInput question={question} value={value} disabled={disabled} onChange={onChange} />
+    {(question.hintCount ?? 0) > 0 ? (
+      <HintPanel question={question} disabled={disabled} revealing={revealingHint} onReveal={onRevealHint} />
+    ) : null}
+  </>
+);
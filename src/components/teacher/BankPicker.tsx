@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { RichText } from "@/components/common/RichText";
+import { useGetBankQuestionsQuery } from "@/store/api/api";
+import type { BankQuestion } from "@/types/domain";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface BankPickerProps {
+  // Bank ids already used by this test, so the same item is not added twice by accident.
+  usedBankIds: number[];
+  onPick: (item: BankQuestion) => void;
+  onClose: () => void;
+}
+
+export const BankPicker = ({ usedBankIds, onPick, onClose }: BankPickerProps) => {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data, isFetching, isError } = useGetBankQuestionsQuery({ search, tag: "" });
+  const items = data ?? [];
+
+  return (
+    <div className="bank-picker">
+      <div className="panel-header compact">
+        <h4>Add from Question Bank</h4>
+        <button type="button" className="btn btn-ghost" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <input
+        type="search"
+        value={searchInput}
+        onChange={(event) => setSearchInput(event.target.value)}
+        placeholder="Search prompts, options and tags"
+      />
+
+      {isError ? <p className="error-inline">Failed to load the question bank.</p> : null}
+      {!isFetching && items.length === 0 ? <p className="muted">No bank questions match.</p> : null}
+
+      <div className="bank-picker-list">
+        {items.map((item) => (
+          <div key={item.id} className="bank-picker-item">
+            <div>
+              <RichText text={item.prompt} />
+              <p className="muted">
+                {item.type.toUpperCase()} | {item.points} pt
+                {item.tags.length > 0 ? ` | ${item.tags.join(", ")}` : ""}
+              </p>
+            </div>
+            <button type="button" className="btn btn-secondary" onClick={() => onPick(item)}>
+              {usedBankIds.includes(item.id) ? "Add Again" : "Add"}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { useCreateBankQuestionMutation, useUpdateBankQuestionMutation } from "@/store/api/api";
+import { useAppDispatch } from "@/store/hooks";
+import { pushToast } from "@/store/slices/uiSlice";
+import type { TeacherQuestionInput } from "@/types/domain";
+
+interface BankSaveControlProps {
+  question: TeacherQuestionInput;
+  bankQuestionId: number | null;
+  onLinked: (bankQuestionId: number) => void;
+}
+
+export const BankSaveControl = ({ question, bankQuestionId, onLinked }: BankSaveControlProps) => {
+  const dispatch = useAppDispatch();
+  const [createBankQuestion, createState] = useCreateBankQuestionMutation();
+  const [updateBankQuestion, updateState] = useUpdateBankQuestionMutation();
+  const [propagate, setPropagate] = useState(false);
+  const busy = createState.isLoading || updateState.isLoading;
+
+  const save = async (): Promise<void> => {
+    if (!question.prompt.trim()) {
+      dispatch(pushToast({ type: "error", message: "Write a prompt before saving to the bank." }));
+      return;
+    }
+
+    try {
+      if (bankQuestionId === null) {
+        const created = await createBankQuestion({ question, tags: [] }).unwrap();
+        onLinked(created.id);
+        dispatch(pushToast({ type: "success", message: "Saved to the question bank." }));
+        return;
+      }
+
+      const result = await updateBankQuestion({ id: bankQuestionId, question, propagate }).unwrap();
+      const parts = ["Bank item updated."];
+      if (propagate) {
+        parts.push(`${result.updatedQuestions} linked question${result.updatedQuestions === 1 ? "" : "s"} updated.`);
+      }
+      if (result.skippedTestIds.length > 0) {
+        parts.push(`${result.skippedTestIds.length} test(s) with attempts kept their copy.`);
+      }
+      dispatch(pushToast({ type: "success", message: parts.join(" ") }));
+    } catch (error) {
+      const detail = (error as { data?: { detail?: string } })?.data?.detail;
+      dispatch(pushToast({ type: "error", message: detail ?? "Failed to save to the question bank." }));
+    }
+  };
+
+  return (
+    <div className="actions-row left">
+      {bankQuestionId !== null ? (
+        <label className="checkbox-row">
+          <input type="checkbox" checked={propagate} onChange={(event) => setPropagate(event.target.checked)} />
+          <span>Also update other tests</span>
+        </label>
+      ) : null}
+      <button type="button" className="btn btn-ghost" disabled={busy} onClick={() => void save()}>
+        {busy ? "Saving..." : bankQuestionId === null ? "Save to Bank" : "Update Bank Item"}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import { useExtendAttemptMutation } from "@/store/api/api";
+import { useAppDispatch } from "@/store/hooks";
+import { pushToast } from "@/store/slices/uiSlice";
+
+const EXTENSION_STEPS = [5, 10, 15];
+
+interface ExtendAttemptControlProps {
+  attemptId: number;
+  testId: number;
+}
+
+export const ExtendAttemptControl = ({ attemptId, testId }: ExtendAttemptControlProps) => {
+  const dispatch = useAppDispatch();
+  const [extendAttempt, extendState] = useExtendAttemptMutation();
+
+  const extend = async (minutes: number): Promise<void> => {
+    try {
+      await extendAttempt({ attemptId, testId, minutes }).unwrap();
+      dispatch(pushToast({ type: "success", message: `Added ${minutes} min to attempt #${attemptId}.` }));
+    } catch (error) {
+      const detail = (error as { data?: { detail?: string } })?.data?.detail;
+      dispatch(pushToast({ type: "error", message: detail ?? "Failed to extend the attempt." }));
+    }
+  };
+
+  return (
+    <div className="actions-row left">
+      {EXTENSION_STEPS.map((minutes) => (
+        <button
+          key={minutes}
+          className="btn btn-ghost"
+          type="button"
+          disabled={extendState.isLoading}
+          onClick={() => void extend(minutes)}
+        >
+          +{minutes} min
+        </button>
+      ))}
+    </div>
+  );
+};
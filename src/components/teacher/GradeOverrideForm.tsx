@@ -0,0 +1,74 @@
+import { useState, type FormEvent } from "react";
+
+interface GradeOverrideFormProps {
+  maxPoints: number;
+  initialPoints: number;
+  initialFeedback?: string | null;
+  submitting: boolean;
+  submitLabel?: string;
+  onSubmit: (points: number, feedback: string) => Promise<void>;
+}
+
+export const GradeOverrideForm = ({
+  maxPoints,
+  initialPoints,
+  initialFeedback,
+  submitting,
+  submitLabel = "Save Grade",
+  onSubmit,
+}: GradeOverrideFormProps) => {
+  const [points, setPoints] = useState(String(initialPoints));
+  const [feedback, setFeedback] = useState(initialFeedback ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const value = Number(points);
+    if (points.trim().length === 0 || !Number.isFinite(value) || value < 0 || value > maxPoints) {
+      setError(`Points must be between 0 and ${maxPoints}.`);
+      return;
+    }
+
+    setError(null);
+    try {
+      await onSubmit(value, feedback.trim());
+    } catch (submitError) {
+      const detail = (submitError as { data?: { detail?: string } })?.data?.detail;
+      setError(detail ?? "Failed to save the grade.");
+    }
+  };
+
+  return (
+    <form className="grade-form" onSubmit={handleSubmit}>
+      <div className="field-grid">
+        <label>
+          Points (max {maxPoints})
+          <input
+            type="number"
+            min={0}
+            max={maxPoints}
+            step="any"
+            value={points}
+            onChange={(event) => setPoints(event.target.value)}
+          />
+        </label>
+        <label>
+          Feedback
+          <textarea
+            rows={2}
+            value={feedback}
+            placeholder="Optional comment shown to the student"
+            onChange={(event) => setFeedback(event.target.value)}
+          />
+        </label>
+      </div>
+      {error ? <p className="error-inline">{error}</p> : null}
+      <div className="actions-row">
+        <button className="btn btn-primary" type="submit" disabled={submitting}>
+          {submitting ? "Saving..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
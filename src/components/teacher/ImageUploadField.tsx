@@ -0,0 +1,81 @@
+import { useRef, useState } from "react";
+import { compressImage, isAcceptedImage } from "@/lib/imageCompression";
+import { useUploadImageMutation } from "@/store/api/api";
+
+interface ImageUploadFieldProps {
+  value: string;
+  label: string;
+  // Compact mode fits inside an option row: a thumbnail and icon-sized buttons.
+  compact?: boolean;
+  onChange: (url: string) => void;
+}
+
+export const ImageUploadField = ({ value, label, compact = false, onChange }: ImageUploadFieldProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploadImage, uploadState] = useUploadImageMutation();
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = async (file: File): Promise<void> => {
+    setError(null);
+    if (!isAcceptedImage(file)) {
+      setError("Use a PNG, JPEG, WebP or GIF image.");
+      return;
+    }
+
+    try {
+      const compressed = await compressImage(file);
+      const uploaded = await uploadImage({
+        file: compressed.blob,
+        fileName: compressed.fileName,
+        width: compressed.width,
+        height: compressed.height,
+      }).unwrap();
+      onChange(uploaded.url);
+    } catch (uploadError) {
+      const detail = (uploadError as { data?: { detail?: string } })?.data?.detail;
+      setError(detail ?? "Failed to upload the image.");
+    }
+  };
+
+  return (
+    <div className={`image-upload ${compact ? "compact" : ""}`}>
+      {!compact ? <span>{label}</span> : null}
+
+      <div className="image-upload-row">
+        {value ? <img className="image-upload-thumb" src={value} alt={label} /> : null}
+
+        <button
+          type="button"
+          className="btn btn-ghost"
+          disabled={uploadState.isLoading}
+          aria-label={compact ? `${value ? "Replace" : "Add"} ${label.toLowerCase()}` : undefined}
+          onClick={() => inputRef.current?.click()}
+        >
+          {uploadState.isLoading ? "Uploading..." : value ? "Replace" : compact ? "Image" : "Upload Image"}
+        </button>
+
+        {value ? (
+          <button type="button" className="btn btn-ghost" onClick={() => onChange("")}>
+            Remove
+          </button>
+        ) : null}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/png,image/jpeg,image/webp,image/gif"
+        hidden
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) {
+            void upload(file);
+          }
+        }}
+      />
+
+      {error ? <p className="error-inline">{error}</p> : null}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import { useMemo, useRef, useState } from "react";
+import { RichText } from "@/components/common/RichText";
+import { detectQuestionTextFormat, parseQuestionText, type QuestionTextFormat } from "@/lib/questionImport";
+import { importQuestionFile, type InteropImport } from "@/lib/questionInterop";
+import type { TeacherQuestionInput } from "@/types/domain";
+
+interface QuestionImportDialogProps {
+  onImport: (questions: TeacherQuestionInput[]) => void;
+  onClose: () => void;
+}
+
+const PLACEHOLDERS: Record<QuestionTextFormat, string> = {
+  aiken: "What is 2 + 2?\nA. 3\nB. 4\nC. 5\nANSWER: B",
+  gift: "::Capital:: The capital of France is {=Paris ~Lyon ~Nice}\n\nPi to two decimals {#3.14:0.005}",
+};
+
+const describeAnswer = (question: TeacherQuestionInput): string => {
+  if (question.type === "numeric") {
+    return `${question.correctNumber ?? ""} ± ${question.tolerance ?? 0}`;
+  }
+
+  if (question.type === "short") {
+    return [question.correctText ?? "", ...(question.shortAnswerRules?.acceptedAnswers ?? [])].join(" | ");
+  }
+
+  return question.options
+    .filter((option) => option.isCorrect)
+    .map((option) => option.text)
+    .join(", ");
+};
+
+export const QuestionImportDialog = ({ onImport, onClose }: QuestionImportDialogProps) => {
+  const [text, setText] = useState("");
+  const [format, setFormat] = useState<QuestionTextFormat | "auto">("auto");
+  // A loaded Moodle XML or QTI file replaces the pasted text until it is cleared.
+  const [fileImport, setFileImport] = useState<{ name: string; result: InteropImport } | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const resolvedFormat = format === "auto" ? detectQuestionTextFormat(text) : format;
+  const textResult = useMemo(() => parseQuestionText(text, resolvedFormat), [text, resolvedFormat]);
+  const questions = fileImport ? fileImport.result.questions : textResult.questions;
+  const problems = fileImport
+    ? fileImport.result.notes
+    : textResult.issues.map((issue) => `Line ${issue.line}: ${issue.message}`);
+
+  const loadFile = async (file: File): Promise<void> => {
+    setFileError(null);
+    try {
+      setFileImport({ name: file.name, result: await importQuestionFile(file) });
+    } catch (error) {
+      setFileImport(null);
+      setFileError(error instanceof Error ? error.message : "Failed to read the file.");
+    }
+  };
+
+  return (
+    <div className="question-import">
+      <div className="panel-header compact">
+        <h4>Import Questions</h4>
+        <button type="button" className="btn btn-ghost" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <div className="actions-row left">
+        <button type="button" className="btn btn-ghost" onClick={() => fileRef.current?.click()}>
+          Moodle XML / QTI File
+        </button>
+        {fileImport ? (
+          <>
+            <span className="muted">{fileImport.name}</span>
+            <button type="button" className="btn btn-ghost" onClick={() => setFileImport(null)}>
+              Clear File
+            </button>
+          </>
+        ) : null}
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".xml,.zip,application/xml,text/xml,application/zip"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              void loadFile(file);
+            }
+          }}
+        />
+      </div>
+      {fileError ? <p className="error-inline">{fileError}</p> : null}
+
+      {fileImport ? null : (
+        <>
+          <label>
+            <span>Format</span>
+            <select value={format} onChange={(event) => setFormat(event.target.value as QuestionTextFormat | "auto")}>
+              <option value="auto">Detect ({resolvedFormat === "aiken" ? "Aiken" : "GIFT"})</option>
+              <option value="aiken">Aiken</option>
+              <option value="gift">GIFT</option>
+            </select>
+          </label>
+
+          <textarea
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            rows={10}
+            spellCheck={false}
+            placeholder={PLACEHOLDERS[resolvedFormat]}
+          />
+        </>
+      )}
+
+      {problems.length > 0 ? (
+        <ul className="question-import-issues">
+          {problems.map((problem, index) => (
+            <li key={index} className="error-inline">
+              {problem}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {questions.length > 0 ? (
+        <ol className="question-import-preview">
+          {questions.map((question, index) => (
+            <li key={index}>
+              <RichText text={question.prompt} />
+              <p className="muted">
+                {question.type.toUpperCase()} | {describeAnswer(question)}
+              </p>
+            </li>
+          ))}
+        </ol>
+      ) : null}
+
+      <div className="actions-row left">
+        <button
+          type="button"
+          className="btn btn-secondary"
+          disabled={questions.length === 0}
+          onClick={() => {
+            onImport(questions);
+            onClose();
+          }}
+        >
+          Append {questions.length} Question{questions.length === 1 ? "" : "s"}
+        </button>
+        {problems.length > 0 && questions.length > 0 ? (
+          <span className="muted">{fileImport ? "Review the notes above." : "Blocks with errors are skipped."}</span>
+        ) : null}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import { useRef, useState } from "react";
+import { downloadBlob } from "@/lib/download";
+import {
+  buildQuestionTemplate,
+  MAX_SHEET_OPTIONS,
+  parseQuestionSheet,
+  type SheetParseResult,
+} from "@/lib/questionSpreadsheet";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import type { TeacherQuestionInput } from "@/types/domain";
+
+interface SpreadsheetUploadDialogProps {
+  onImport: (questions: TeacherQuestionInput[]) => void;
+  onClose: () => void;
+}
+
+export const SpreadsheetUploadDialog = ({ onImport, onClose }: SpreadsheetUploadDialogProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [upload, setUpload] = useState<{ name: string; result: SheetParseResult } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const valid = (upload?.result.rows ?? [])
+    .map((row) => row.question)
+    .filter((question): question is TeacherQuestionInput => question !== null);
+  const invalidCount = (upload?.result.rows.length ?? 0) - valid.length;
+
+  const readFile = async (file: File): Promise<void> => {
+    setError(null);
+    try {
+      setUpload({ name: file.name, result: parseQuestionSheet(await readSpreadsheet(file)) });
+    } catch (readError) {
+      setUpload(null);
+      setError(readError instanceof Error ? readError.message : "Failed to read the spreadsheet.");
+    }
+  };
+
+  return (
+    <div className="question-import">
+      <div className="panel-header compact">
+        <h4>Upload Spreadsheet</h4>
+        <button type="button" className="btn btn-ghost" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <p className="muted">
+        One question per row: single, multiple, short or numeric, with up to {MAX_SHEET_OPTIONS} options. Name correct
+        options by number ("2" or "1|3"); list accepted short answers as "Paris|Paris, France".
+      </p>
+
+      <div className="actions-row left">
+        <button
+          type="button"
+          className="btn btn-ghost"
+          onClick={() =>
+            downloadBlob(new Blob([buildQuestionTemplate()], { type: "text/csv" }), "question-template.csv")
+          }
+        >
+          Download Template
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={() => inputRef.current?.click()}>
+          Choose CSV / XLSX
+        </button>
+        {upload ? <span className="muted">{upload.name}</span> : null}
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              void readFile(file);
+            }
+          }}
+        />
+      </div>
+
+      {error ? <p className="error-inline">{error}</p> : null}
+      {upload?.result.errors.map((sheetError) => (
+        <p key={sheetError} className="error-inline">
+          {sheetError}
+        </p>
+      ))}
+
+      {upload && upload.result.rows.length > 0 ? (
+        <div className="table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>Row</th>
+                <th>Prompt</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {upload.result.rows.map((row) => (
+                <tr key={row.row}>
+                  <td>{row.row}</td>
+                  <td>{row.prompt || <span className="muted">(empty)</span>}</td>
+                  <td>
+                    {row.errors.length === 0 ? (
+                      <span className="badge success">{row.question?.type}</span>
+                    ) : (
+                      <ul className="question-import-issues">
+                        {row.errors.map((rowError) => (
+                          <li key={rowError} className="error-inline">
+                            {rowError}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      <div className="actions-row left">
+        <button
+          type="button"
+          className="btn btn-secondary"
+          disabled={valid.length === 0}
+          onClick={() => {
+            onImport(valid);
+            onClose();
+          }}
+        >
+          Add {valid.length} Valid Question{valid.length === 1 ? "" : "s"}
+        </button>
+        {invalidCount > 0 ? (
+          <span className="muted">
+            {invalidCount} row{invalidCount === 1 ? "" : "s"} with errors will be skipped; fix them in the sheet and
+            upload again.
+          </span>
+        ) : null}
+      </div>
+    </div>
+  );
+};
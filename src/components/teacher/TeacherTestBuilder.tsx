@@ -1,10 +1,33 @@
 import { useMemo, useState } from "react";
-import type { QuestionType, TeacherQuestion, TeacherQuestionInput, TeacherTest, TestStatus } from "@/types/domain";
+import { RichText } from "@/components/common/RichText";
+import { ZoomableImage } from "@/components/common/ZoomableImage";
+import { BankPicker } from "@/components/teacher/BankPicker";
+import { BankSaveControl } from "@/components/teacher/BankSaveControl";
+import { ImageUploadField } from "@/components/teacher/ImageUploadField";
+import { QuestionImportDialog } from "@/components/teacher/QuestionImportDialog";
+import { SpreadsheetUploadDialog } from "@/components/teacher/SpreadsheetUploadDialog";
+import type {
+  BankQuestion,
+  NumericUnit,
+  QuestionDifficulty,
+  QuestionPool,
+  QuestionType,
+  ScoringPolicy,
+  TeacherQuestion,
+  TeacherQuestionInput,
+  TeacherTest,
+  TestMode,
+  TestSaveQuestionResult,
+  TestStatus,
+  WhitespacePolicy,
+} from "@/types/domain";
 
 interface OptionDraft {
   localId: string;
   text: string;
   isCorrect: boolean;
+  matchText: string;
+  imageUrl: string;
 }
 
 export interface QuestionDraft {
@@ -17,6 +40,23 @@ export interface QuestionDraft {
   correctText: string;
   correctNumber: string;
   tolerance: string;
+  partialCredit: boolean;
+  scoringPolicy: ScoringPolicy;
+  acceptedAnswers: string;
+  answerPatterns: string;
+  caseSensitive: boolean;
+  whitespacePolicy: WhitespacePolicy;
+  typoTolerance: string;
+  relativeTolerance: string;
+  significantFigures: string;
+  unit: string;
+  acceptedUnits: string;
+  poolId: string;
+  difficulty: QuestionDifficulty;
+  hints: string;
+  hintPenaltyPercent: string;
+  imageUrl: string;
+  bankQuestionId: number | null;
   explanation: string;
 }
 
@@ -32,6 +72,16 @@ interface TeacherTestBuilderProps {
   onSubmit: (payload: BuilderSubmitPayload) => Promise<void> | void;
 }
 
+// A rejected bulk save lists its failed questions by draft key; the drafts themselves stay as they are.
+const readFailedQuestions = (error: unknown): Record<string, string> => {
+  const results = (error as { data?: { results?: TestSaveQuestionResult[] } })?.data?.results ?? [];
+  return Object.fromEntries(
+    results
+      .filter((result) => result.status === "failed")
+      .map((result) => [result.clientId, result.error ?? "This question could not be saved."])
+  );
+};
+
 const formatSubmitError = (error: unknown): string => {
   const typed = error as {
     data?: { detail?: string; error?: string } | string;
@@ -62,8 +112,116 @@ const formatSubmitError = (error: unknown): string => {
   return "Failed to save test.";
 };
 
+const SCORING_POLICIES: Record<"single" | "multiple", Array<{ value: ScoringPolicy; label: string }>> = {
+  single: [
+    { value: "all_or_nothing", label: "All or nothing" },
+    { value: "negative_marking", label: "Negative marking (wrong answer costs points)" },
+  ],
+  multiple: [
+    { value: "all_or_nothing", label: "All or nothing" },
+    { value: "proportional", label: "Proportional (correct picks minus wrong picks)" },
+    { value: "right_minus_wrong", label: "Right minus wrong (floor at zero)" },
+  ],
+};
+
+// Keeps the policy only when it applies to the question type, e.g. after switching type.
+const normalizeScoringPolicy = (type: QuestionType, policy: ScoringPolicy): ScoringPolicy => {
+  if (type !== "single" && type !== "multiple") {
+    return "all_or_nothing";
+  }
+
+  return SCORING_POLICIES[type].some((item) => item.value === policy) ? policy : "all_or_nothing";
+};
+
+const DIFFICULTIES: Array<{ value: QuestionDifficulty; label: string }> = [
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+];
+
+// Returns the first problem with a pool's draw settings, or null when every pool can be drawn as configured.
+const findPoolProblem = (pools: QuestionPool[], questions: QuestionDraft[]): string | null => {
+  for (const pool of pools) {
+    const label = pool.title.trim() || "Untitled pool";
+    const members = questions.filter((question) => question.poolId === pool.id);
+    const quotaTotal = DIFFICULTIES.reduce((sum, item) => sum + pool.quotas[item.value], 0);
+
+    if (!Number.isInteger(pool.drawCount) || pool.drawCount < 1) {
+      return `Pool "${label}": draw at least 1 question.`;
+    }
+
+    if (pool.drawCount > members.length) {
+      return `Pool "${label}": draws ${pool.drawCount} but only has ${members.length} questions.`;
+    }
+
+    if (quotaTotal > pool.drawCount) {
+      return `Pool "${label}": difficulty quotas add up to more than the draw count.`;
+    }
+
+    for (const item of DIFFICULTIES) {
+      const available = members.filter((question) => question.difficulty === item.value).length;
+      if (pool.quotas[item.value] > available) {
+        const wanted = pool.quotas[item.value];
+        return `Pool "${label}": needs ${wanted} ${item.label.toLowerCase()} questions but has ${available}.`;
+      }
+    }
+  }
+
+  return null;
+};
+
+const splitLines = (value: string): string[] =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+const findInvalidPattern = (patterns: string[]): string | null => {
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      return pattern;
+    }
+  }
+
+  return null;
+};
+
+// One unit per line as `label = factor`, where the factor may be a fraction: "km/h = 1/3.6".
+const parseAcceptedUnits = (value: string): { units: NumericUnit[]; invalid: string | null } => {
+  const units: NumericUnit[] = [];
+
+  for (const line of splitLines(value)) {
+    const separator = line.lastIndexOf("=");
+    const label = separator === -1 ? "" : line.slice(0, separator).trim();
+    const [numerator = "", denominator = "1"] = line.slice(separator + 1).split("/");
+    const factor = Number(numerator.trim()) / Number(denominator.trim());
+
+    if (!label || !Number.isFinite(factor) || factor <= 0) {
+      return { units, invalid: line };
+    }
+    units.push({ label, factor });
+  }
+
+  return { units, invalid: null };
+};
+
+const formatAcceptedUnits = (units: NumericUnit[]): string =>
+  units.map((unit) => `${unit.label} = ${unit.factor}`).join("\n");
+
+const positiveOrNull = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() !== "" && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
 const randomId = (): string => Math.random().toString(36).slice(2, 10);
 
+const findMatchText = (question: TeacherQuestion, leftId: number): string => {
+  const rightId = question.correctPairs.find((pair) => pair.leftId === leftId)?.rightId;
+  return question.matchOptions.find((option) => option.id === rightId)?.text ?? "";
+};
+
 const toQuestionDraft = (question: TeacherQuestion): QuestionDraft => ({
   localId: randomId(),
   id: question.id,
@@ -74,30 +232,106 @@ const toQuestionDraft = (question: TeacherQuestion): QuestionDraft => ({
     localId: randomId(),
     text: option.text,
     isCorrect: question.correctOptionIds.includes(option.id),
+    matchText: findMatchText(question, option.id),
+    imageUrl: option.imageUrl ?? "",
   })),
   correctText: question.correctText ?? "",
   correctNumber: question.correctNumber === null ? "" : String(question.correctNumber),
   tolerance: question.tolerance === null ? "" : String(question.tolerance),
+  partialCredit: question.partialCredit,
+  scoringPolicy: question.scoringPolicy,
+  acceptedAnswers: question.shortAnswerRules.acceptedAnswers.join("\n"),
+  answerPatterns: question.shortAnswerRules.patterns.join("\n"),
+  caseSensitive: question.shortAnswerRules.caseSensitive,
+  whitespacePolicy: question.shortAnswerRules.whitespace,
+  typoTolerance: question.shortAnswerRules.typoTolerance > 0 ? String(question.shortAnswerRules.typoTolerance) : "",
+  relativeTolerance: question.numericRules.relativeTolerancePercent?.toString() ?? "",
+  significantFigures: question.numericRules.significantFigures?.toString() ?? "",
+  unit: question.numericRules.unit ?? "",
+  acceptedUnits: formatAcceptedUnits(question.numericRules.acceptedUnits),
+  poolId: question.poolId ?? "",
+  difficulty: question.difficulty,
+  hints: question.hints.join("\n"),
+  hintPenaltyPercent: question.hints.length > 0 ? String(question.hintPenaltyPercent) : "",
+  imageUrl: question.imageUrl ?? "",
+  bankQuestionId: question.bankQuestionId,
   explanation: question.explanation,
 });
 
+// A bank item becomes a new, linked question; pools belong to the test, so it starts outside any pool.
+const fromBankQuestion = (item: BankQuestion): QuestionDraft => ({
+  ...toQuestionDraft(item),
+  id: undefined,
+  poolId: "",
+  bankQuestionId: item.id,
+});
+
 const createEmptyQuestion = (): QuestionDraft => ({
   localId: randomId(),
   prompt: "",
   type: "single",
   points: 1,
   options: [
-    { localId: randomId(), text: "", isCorrect: false },
-    { localId: randomId(), text: "", isCorrect: false },
+    { localId: randomId(), text: "", isCorrect: false, matchText: "", imageUrl: "" },
+    { localId: randomId(), text: "", isCorrect: false, matchText: "", imageUrl: "" },
   ],
   correctText: "",
   correctNumber: "",
   tolerance: "",
+  partialCredit: false,
+  scoringPolicy: "all_or_nothing",
+  acceptedAnswers: "",
+  answerPatterns: "",
+  caseSensitive: false,
+  whitespacePolicy: "ignore",
+  typoTolerance: "",
+  relativeTolerance: "",
+  significantFigures: "",
+  unit: "",
+  acceptedUnits: "",
+  poolId: "",
+  difficulty: "medium",
+  hints: "",
+  hintPenaltyPercent: "",
+  imageUrl: "",
+  bankQuestionId: null,
   explanation: "",
 });
 
+// Imported questions arrive as plain inputs; anything the format cannot express keeps the empty-question default.
+const fromQuestionInput = (input: TeacherQuestionInput): QuestionDraft => {
+  const empty = createEmptyQuestion();
+  return {
+    ...empty,
+    prompt: input.prompt,
+    type: input.type,
+    points: input.points,
+    options: input.options.map((option) => ({
+      localId: randomId(),
+      text: option.text,
+      isCorrect: option.isCorrect,
+      matchText: option.matchText ?? "",
+      imageUrl: option.imageUrl ?? "",
+    })),
+    correctText: input.correctText ?? "",
+    correctNumber: input.correctNumber === null || input.correctNumber === undefined ? "" : String(input.correctNumber),
+    tolerance: input.tolerance ? String(input.tolerance) : "",
+    scoringPolicy: input.scoringPolicy ?? empty.scoringPolicy,
+    acceptedAnswers: input.shortAnswerRules?.acceptedAnswers.join("\n") ?? "",
+    caseSensitive: input.shortAnswerRules?.caseSensitive ?? empty.caseSensitive,
+    relativeTolerance: input.numericRules?.relativeTolerancePercent?.toString() ?? "",
+    unit: input.numericRules?.unit ?? "",
+    acceptedUnits: formatAcceptedUnits(input.numericRules?.acceptedUnits ?? []),
+    difficulty: input.difficulty ?? empty.difficulty,
+    explanation: input.explanation ?? "",
+  };
+};
+
+const usesOptions = (type: QuestionType): boolean =>
+  type === "single" || type === "multiple" || type === "ordering" || type === "matching";
+
 const ensureChoiceDefaults = (draft: QuestionDraft): QuestionDraft => {
-  if ((draft.type !== "single" && draft.type !== "multiple") || draft.options.length >= 2) {
+  if (!usesOptions(draft.type) || draft.options.length >= 2) {
     return draft;
   }
 
@@ -106,6 +340,8 @@ const ensureChoiceDefaults = (draft: QuestionDraft): QuestionDraft => {
     localId: randomId(),
     text: "",
     isCorrect: false,
+    matchText: "",
+    imageUrl: "",
   }));
 
   return {
@@ -115,21 +351,47 @@ const ensureChoiceDefaults = (draft: QuestionDraft): QuestionDraft => {
 };
 
 export const toQuestionInput = (draft: QuestionDraft): TeacherQuestionInput => {
-  const options = draft.options.map((option) => ({
-    text: option.text,
-    isCorrect: option.isCorrect,
-  }));
+  const options = draft.options.map((option) =>
+    draft.type === "matching"
+      ? { text: option.text, isCorrect: true, matchText: option.matchText }
+      : draft.type === "ordering"
+        ? { text: option.text, isCorrect: true }
+        : { text: option.text, isCorrect: option.isCorrect, imageUrl: option.imageUrl || null }
+  );
 
   const base: TeacherQuestionInput = {
     prompt: draft.prompt,
     type: draft.type,
     points: draft.points,
     options,
+    poolId: draft.poolId || null,
+    difficulty: draft.difficulty,
+    hints: splitLines(draft.hints),
+    hintPenaltyPercent: positiveOrNull(draft.hintPenaltyPercent) ?? 0,
+    imageUrl: draft.imageUrl || null,
+    bankQuestionId: draft.bankQuestionId,
     explanation: draft.explanation,
   };
 
   if (draft.type === "short") {
     base.correctText = draft.correctText;
+
+    const typoTolerance = Number(draft.typoTolerance);
+    base.shortAnswerRules = {
+      acceptedAnswers: splitLines(draft.acceptedAnswers),
+      caseSensitive: draft.caseSensitive,
+      whitespace: draft.whitespacePolicy,
+      patterns: splitLines(draft.answerPatterns),
+      typoTolerance: Number.isFinite(typoTolerance) ? Math.max(0, Math.floor(typoTolerance)) : 0,
+    };
+  }
+
+  if (draft.type === "single" || draft.type === "multiple") {
+    base.scoringPolicy = normalizeScoringPolicy(draft.type, draft.scoringPolicy);
+  }
+
+  if (draft.type === "ordering") {
+    base.partialCredit = draft.partialCredit;
   }
 
   if (draft.type === "numeric") {
@@ -138,18 +400,85 @@ export const toQuestionInput = (draft: QuestionDraft): TeacherQuestionInput => {
 
     const tolerance = Number(draft.tolerance);
     base.tolerance = Number.isFinite(tolerance) ? tolerance : 0;
+
+    const significantFigures = positiveOrNull(draft.significantFigures);
+    base.numericRules = {
+      relativeTolerancePercent: positiveOrNull(draft.relativeTolerance),
+      significantFigures: significantFigures === null ? null : Math.floor(significantFigures),
+      unit: draft.unit.trim() || null,
+      acceptedUnits: draft.unit.trim() ? parseAcceptedUnits(draft.acceptedUnits).units : [],
+    };
   }
 
   return base;
 };
 
+// Renders the draft through the same pipeline students see, so formatting and math mistakes show up while editing.
+const QuestionPreview = ({ question }: { question: QuestionDraft }) => {
+  const options = usesOptions(question.type)
+    ? question.options.filter((option) => option.text.trim() || option.imageUrl)
+    : [];
+  const hints = splitLines(question.hints);
+
+  return (
+    <div className="question-preview">
+      <span className="muted">Preview</span>
+      {question.prompt.trim() ? (
+        <RichText text={question.prompt} className="question-prompt" />
+      ) : (
+        <p className="muted">Prompt is empty.</p>
+      )}
+      {question.imageUrl ? (
+        <ZoomableImage src={question.imageUrl} alt="Question illustration" className="question-image" />
+      ) : null}
+
+      {options.length > 0 ? (
+        <ul>
+          {options.map((option) => (
+            <li key={option.localId}>
+              <RichText text={option.text} inline />
+              {option.imageUrl && (question.type === "single" || question.type === "multiple") ? (
+                <ZoomableImage src={option.imageUrl} alt={option.text || "Option image"} className="option-image" />
+              ) : null}
+              {question.type === "matching" ? (
+                <>
+                  {" → "}
+                  <RichText text={option.matchText} inline />
+                </>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {hints.map((hint, index) => (
+        <div key={index} className="hint-text">
+          <strong>Hint {index + 1}:</strong>
+          <RichText text={hint} />
+        </div>
+      ))}
+
+      {question.explanation.trim() ? <RichText text={question.explanation} className="muted" /> : null}
+    </div>
+  );
+};
+
 export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: TeacherTestBuilderProps) => {
   const [title, setTitle] = useState(initialTest?.title ?? "");
   const [description, setDescription] = useState(initialTest?.description ?? "");
   const [status, setStatus] = useState<TestStatus>(initialTest?.status ?? "draft");
+  const [mode, setMode] = useState<TestMode>(initialTest?.mode ?? "exam");
   const [timeLimitSec, setTimeLimitSec] = useState(initialTest?.timeLimitSec ?? 900);
   const [passingPercent, setPassingPercent] = useState(initialTest?.passingPercent ?? 60);
+  const [shuffleQuestions, setShuffleQuestions] = useState(initialTest?.shuffleQuestions ?? false);
+  const [shuffleOptions, setShuffleOptions] = useState(initialTest?.shuffleOptions ?? false);
+  const [pools, setPools] = useState<QuestionPool[]>(initialTest?.pools ?? []);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [failedQuestions, setFailedQuestions] = useState<Record<string, string>>({});
+  const [livePreview, setLivePreview] = useState(false);
+  const [bankPickerOpen, setBankPickerOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [spreadsheetOpen, setSpreadsheetOpen] = useState(false);
   const [questions, setQuestions] = useState<QuestionDraft[]>(
     initialTest ? initialTest.questions.map(toQuestionDraft).map(ensureChoiceDefaults) : [createEmptyQuestion()]
   );
@@ -162,12 +491,23 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
 
   const patchQuestion = (localId: string, updater: (current: QuestionDraft) => QuestionDraft): void => {
     setQuestions((current) => current.map((question) => (question.localId === localId ? updater(question) : question)));
+    setFailedQuestions((current) => {
+      if (!(localId in current)) {
+        return current;
+      }
+      const { [localId]: _fixed, ...rest } = current;
+      return rest;
+    });
   };
 
   const addQuestion = (): void => {
     setQuestions((current) => [...current, createEmptyQuestion()]);
   };
 
+  const appendImported = (imported: TeacherQuestionInput[]): void => {
+    setQuestions((current) => [...current, ...imported.map(fromQuestionInput).map(ensureChoiceDefaults)]);
+  };
+
   const removeQuestion = (localId: string): void => {
     setQuestions((current) => {
       const target = current.find((item) => item.localId === localId);
@@ -178,10 +518,28 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
     });
   };
 
+  const patchPool = (poolId: string, updater: (current: QuestionPool) => QuestionPool): void => {
+    setPools((current) => current.map((pool) => (pool.id === poolId ? updater(pool) : pool)));
+  };
+
+  const addPool = (): void => {
+    setPools((current) => [
+      ...current,
+      { id: `pool-${randomId()}`, title: "", drawCount: 1, quotas: { easy: 0, medium: 0, hard: 0 } },
+    ]);
+  };
+
+  const removePool = (poolId: string): void => {
+    setPools((current) => current.filter((pool) => pool.id !== poolId));
+    setQuestions((current) =>
+      current.map((question) => (question.poolId === poolId ? { ...question, poolId: "" } : question))
+    );
+  };
+
   const addOption = (questionId: string): void => {
     patchQuestion(questionId, (question) => ({
       ...question,
-      options: [...question.options, { localId: randomId(), text: "", isCorrect: false }],
+      options: [...question.options, { localId: randomId(), text: "", isCorrect: false, matchText: "", imageUrl: "" }],
     }));
   };
 
@@ -192,6 +550,21 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
     }));
   };
 
+  const moveOption = (questionId: string, optionId: string, offset: number): void => {
+    patchQuestion(questionId, (question) => {
+      const from = question.options.findIndex((option) => option.localId === optionId);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= question.options.length) {
+        return question;
+      }
+
+      const options = question.options.slice();
+      const [moved] = options.splice(from, 1);
+      options.splice(to, 0, moved!);
+      return { ...question, options };
+    });
+  };
+
   const setSingleCorrect = (questionId: string, optionId: string): void => {
     patchQuestion(questionId, (question) => ({
       ...question,
@@ -205,6 +578,37 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
     event.preventDefault();
     setSubmitError(null);
+    setFailedQuestions({});
+
+    const poolProblem = findPoolProblem(pools, questions);
+    if (poolProblem !== null) {
+      setSubmitError(poolProblem);
+      return;
+    }
+
+    // Malformed rules would break scoring later, so they are rejected even in drafts.
+    for (const [index, question] of questions.entries()) {
+      if (question.type === "short") {
+        const invalidPattern = findInvalidPattern(splitLines(question.answerPatterns));
+        if (invalidPattern !== null) {
+          setSubmitError(`Question ${index + 1}: pattern "${invalidPattern}" is not a valid regular expression.`);
+          return;
+        }
+      }
+
+      if (question.type === "numeric") {
+        const { invalid } = parseAcceptedUnits(question.acceptedUnits);
+        if (invalid !== null) {
+          setSubmitError(`Question ${index + 1}: accepted unit "${invalid}" must look like "km/h = 1/3.6".`);
+          return;
+        }
+
+        if (question.acceptedUnits.trim() && !question.unit.trim()) {
+          setSubmitError(`Question ${index + 1}: set the base unit before adding accepted units.`);
+          return;
+        }
+      }
+    }
 
     if (status === "published") {
       if (questions.length === 0) {
@@ -222,7 +626,7 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
         }
 
         if (question.type === "single" || question.type === "multiple") {
-          const nonEmpty = question.options.filter((option) => option.text.trim().length > 0);
+          const nonEmpty = question.options.filter((option) => option.text.trim().length > 0 || option.imageUrl);
           const nonEmptyCorrect = nonEmpty.filter((option) => option.isCorrect);
 
           if (nonEmpty.length < 2) {
@@ -236,6 +640,31 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
           }
         }
 
+        if (question.type === "matching") {
+          const complete = question.options.filter(
+            (option) => option.text.trim().length > 0 && option.matchText.trim().length > 0
+          );
+          if (complete.length < 2) {
+            setSubmitError(`Question ${questionNo}: add at least 2 complete pairs.`);
+            return;
+          }
+        }
+
+        if (question.type === "ordering") {
+          const nonEmpty = question.options.filter((option) => option.text.trim().length > 0);
+          if (nonEmpty.length < 2) {
+            setSubmitError(`Question ${questionNo}: add at least 2 non-empty items to order.`);
+            return;
+          }
+        }
+
+        const hintPenalty = Number(question.hintPenaltyPercent);
+        const hintPenaltyValid = Number.isFinite(hintPenalty) && hintPenalty >= 0 && hintPenalty <= 100;
+        if (question.hintPenaltyPercent.trim() && !hintPenaltyValid) {
+          setSubmitError(`Question ${questionNo}: hint penalty must be between 0 and 100 percent.`);
+          return;
+        }
+
         if (question.type === "short" && !question.correctText.trim()) {
           setSubmitError(`Question ${questionNo}: correct text is required.`);
           return;
@@ -257,14 +686,25 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
           title,
           description,
           status,
+          mode,
           timeLimitSec,
           passingPercent,
+          shuffleQuestions,
+          shuffleOptions,
+          pools: pools.map((pool) => ({ ...pool, title: pool.title.trim() || "Untitled pool" })),
         },
         questions,
         deletedQuestionIds,
       });
     } catch (error) {
-      setSubmitError(formatSubmitError(error));
+      const failed = readFailedQuestions(error);
+      const count = Object.keys(failed).length;
+      setFailedQuestions(failed);
+      setSubmitError(
+        count > 0
+          ? `${count} question${count === 1 ? "" : "s"} could not be saved, so nothing was stored.`
+          : formatSubmitError(error)
+      );
     }
   };
 
@@ -287,6 +727,14 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
             </select>
           </label>
 
+          <label>
+            <span>Mode</span>
+            <select value={mode} onChange={(event) => setMode(event.target.value as TestMode)}>
+              <option value="exam">Exam (graded)</option>
+              <option value="practice">Practice (instant feedback, not graded)</option>
+            </select>
+          </label>
+
           <label>
             <span>Time Limit (seconds)</span>
             <input
@@ -318,27 +766,169 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
             placeholder="What this test covers"
           />
         </label>
+
+        <label className="checkbox-row">
+          <input
+            type="checkbox"
+            checked={shuffleQuestions}
+            onChange={(event) => setShuffleQuestions(event.target.checked)}
+          />
+          <span>Shuffle question order for each attempt</span>
+        </label>
+        <label className="checkbox-row">
+          <input
+            type="checkbox"
+            checked={shuffleOptions}
+            onChange={(event) => setShuffleOptions(event.target.checked)}
+          />
+          <span>Shuffle answer options of single and multiple choice questions</span>
+        </label>
       </section>
 
       <section className="panel">
         <div className="panel-header">
-          <h2>Questions</h2>
-          <button type="button" className="btn btn-secondary" onClick={addQuestion}>
-            Add Question
+          <div>
+            <h2>Question Pools</h2>
+            <p className="muted">
+              Each attempt draws the given number of questions from every pool. Questions outside a pool are always
+              asked.
+            </p>
+          </div>
+          <button type="button" className="btn btn-secondary" onClick={addPool}>
+            Add Pool
           </button>
         </div>
 
-        <p className="muted">Total points: {totalPoints}</p>
+        {pools.map((pool) => (
+          <article className="question-card" key={pool.id}>
+            <div className="question-head">
+              <h3>{pool.title.trim() || "Untitled pool"}</h3>
+              <button type="button" className="btn btn-ghost" onClick={() => removePool(pool.id)}>
+                Remove
+              </button>
+            </div>
+
+            <div className="field-grid">
+              <label>
+                <span>Title</span>
+                <input
+                  value={pool.title}
+                  onChange={(event) => patchPool(pool.id, (item) => ({ ...item, title: event.target.value }))}
+                />
+              </label>
+
+              <label>
+                <span>Draw Count ({questions.filter((question) => question.poolId === pool.id).length} in pool)</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={pool.drawCount}
+                  onChange={(event) =>
+                    patchPool(pool.id, (item) => ({ ...item, drawCount: Number(event.target.value) }))
+                  }
+                />
+              </label>
+
+              {DIFFICULTIES.map((difficulty) => (
+                <label key={difficulty.value}>
+                  <span>Min. {difficulty.label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={pool.quotas[difficulty.value]}
+                    onChange={(event) =>
+                      patchPool(pool.id, (item) => ({
+                        ...item,
+                        quotas: { ...item.quotas, [difficulty.value]: Math.max(0, Number(event.target.value) || 0) },
+                      }))
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+          </article>
+        ))}
+      </section>
+
+      <section className="panel">
+        <div className="panel-header">
+          <h2>Questions</h2>
+          <div className="actions-row">
+            <label className="checkbox-row">
+              <input
+                type="checkbox"
+                checked={livePreview}
+                onChange={(event) => setLivePreview(event.target.checked)}
+              />
+              <span>Live Preview</span>
+            </label>
+            <button type="button" className="btn btn-ghost" onClick={() => setImportOpen((open) => !open)}>
+              Import
+            </button>
+            <button type="button" className="btn btn-ghost" onClick={() => setSpreadsheetOpen((open) => !open)}>
+              Spreadsheet
+            </button>
+            <button type="button" className="btn btn-ghost" onClick={() => setBankPickerOpen((open) => !open)}>
+              Add from Bank
+            </button>
+            <button type="button" className="btn btn-secondary" onClick={addQuestion}>
+              Add Question
+            </button>
+          </div>
+        </div>
+
+        {importOpen ? (
+          <QuestionImportDialog onImport={appendImported} onClose={() => setImportOpen(false)} />
+        ) : null}
+
+        {spreadsheetOpen ? (
+          <SpreadsheetUploadDialog onImport={appendImported} onClose={() => setSpreadsheetOpen(false)} />
+        ) : null}
+
+        {bankPickerOpen ? (
+          <BankPicker
+            usedBankIds={questions
+              .map((question) => question.bankQuestionId)
+              .filter((id): id is number => id !== null)}
+            onPick={(item) => setQuestions((current) => [...current, fromBankQuestion(item)])}
+            onClose={() => setBankPickerOpen(false)}
+          />
+        ) : null}
+
+        <p className="muted">
+          Total points: {totalPoints}. Text fields accept Markdown (**bold**, *italic*, `code`, lists, links) and
+          LaTeX math between $…$ or $$…$$.
+        </p>
 
         <div className="question-list">
           {questions.map((question, index) => (
-            <article className="question-card" key={question.localId}>
+            <article
+              className={failedQuestions[question.localId] ? "question-card failed" : "question-card"}
+              key={question.localId}
+            >
               <div className="question-head">
-                <h3>Question {index + 1}</h3>
-                <button type="button" className="btn btn-ghost" onClick={() => removeQuestion(question.localId)}>
-                  Remove
-                </button>
+                <h3>
+                  Question {index + 1}
+                  {question.bankQuestionId !== null ? (
+                    <span className="badge">bank #{question.bankQuestionId}</span>
+                  ) : null}
+                </h3>
+                <div className="actions-row">
+                  <BankSaveControl
+                    question={toQuestionInput(question)}
+                    bankQuestionId={question.bankQuestionId}
+                    onLinked={(bankQuestionId) =>
+                      patchQuestion(question.localId, (item) => ({ ...item, bankQuestionId }))
+                    }
+                  />
+                  <button type="button" className="btn btn-ghost" onClick={() => removeQuestion(question.localId)}>
+                    Remove
+                  </button>
+                </div>
               </div>
+              {failedQuestions[question.localId] ? (
+                <p className="error-inline">Not saved: {failedQuestions[question.localId]}</p>
+              ) : null}
 
               <label>
                 <span>Prompt</span>
@@ -352,22 +942,34 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
                 />
               </label>
 
+              <ImageUploadField
+                value={question.imageUrl}
+                label="Question Image"
+                onChange={(url) => patchQuestion(question.localId, (item) => ({ ...item, imageUrl: url }))}
+              />
+
               <div className="field-grid">
                 <label>
                   <span>Type</span>
                   <select
                     value={question.type}
                     onChange={(event) =>
-                      patchQuestion(question.localId, (item) => ({
-                        ...item,
-                        type: event.target.value as QuestionType,
-                      }))
+                      patchQuestion(question.localId, (item) => {
+                        const type = event.target.value as QuestionType;
+                        return ensureChoiceDefaults({
+                          ...item,
+                          type,
+                          scoringPolicy: normalizeScoringPolicy(type, item.scoringPolicy),
+                        });
+                      })
                     }
                   >
                     <option value="single">Single Choice</option>
                     <option value="multiple">Multiple Choice</option>
                     <option value="short">Short Answer</option>
                     <option value="numeric">Numeric</option>
+                    <option value="ordering">Ordering</option>
+                    <option value="matching">Matching</option>
                   </select>
                 </label>
 
@@ -385,6 +987,67 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
                     }
                   />
                 </label>
+
+                {(question.type === "single" || question.type === "multiple") && (
+                  <label>
+                    <span>Scoring</span>
+                    <select
+                      value={question.scoringPolicy}
+                      onChange={(event) =>
+                        patchQuestion(question.localId, (item) => ({
+                          ...item,
+                          scoringPolicy: event.target.value as ScoringPolicy,
+                        }))
+                      }
+                    >
+                      {SCORING_POLICIES[question.type].map((policy) => (
+                        <option key={policy.value} value={policy.value}>
+                          {policy.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+
+                {pools.length > 0 && (
+                  <>
+                    <label>
+                      <span>Pool</span>
+                      <select
+                        value={question.poolId}
+                        onChange={(event) =>
+                          patchQuestion(question.localId, (item) => ({ ...item, poolId: event.target.value }))
+                        }
+                      >
+                        <option value="">Always asked</option>
+                        {pools.map((pool) => (
+                          <option key={pool.id} value={pool.id}>
+                            {pool.title.trim() || "Untitled pool"}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+
+                    <label>
+                      <span>Difficulty</span>
+                      <select
+                        value={question.difficulty}
+                        onChange={(event) =>
+                          patchQuestion(question.localId, (item) => ({
+                            ...item,
+                            difficulty: event.target.value as QuestionDifficulty,
+                          }))
+                        }
+                      >
+                        {DIFFICULTIES.map((difficulty) => (
+                          <option key={difficulty.value} value={difficulty.value}>
+                            {difficulty.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </>
+                )}
               </div>
 
               {(question.type === "single" || question.type === "multiple") && (
@@ -397,7 +1060,7 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
                   </div>
 
                   {question.options.map((option) => (
-                    <div className="option-row" key={option.localId}>
+                    <div className="option-row choice-row" key={option.localId}>
                       {question.type === "single" ? (
                         <input
                           type="radio"
@@ -434,7 +1097,148 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
                             ),
                           }))
                         }
-                        placeholder="Option text"
+                        placeholder={option.imageUrl ? "Caption (optional)" : "Option text"}
+                        required={!option.imageUrl}
+                      />
+
+                      <ImageUploadField
+                        compact
+                        value={option.imageUrl}
+                        label="Option Image"
+                        onChange={(url) =>
+                          patchQuestion(question.localId, (item) => ({
+                            ...item,
+                            options: item.options.map((candidate) =>
+                              candidate.localId === option.localId ? { ...candidate, imageUrl: url } : candidate
+                            ),
+                          }))
+                        }
+                      />
+
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => removeOption(question.localId, option.localId)}
+                      >
+                        x
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {question.type === "ordering" && (
+                <div className="options-block">
+                  <div className="panel-header compact">
+                    <h4>Items (correct order)</h4>
+                    <button type="button" className="btn btn-secondary" onClick={() => addOption(question.localId)}>
+                      Add Item
+                    </button>
+                  </div>
+                  <p className="muted">Students see these items shuffled and must restore this order.</p>
+
+                  {question.options.map((option, optionIndex) => (
+                    <div className="option-row ordering-row" key={option.localId}>
+                      <span className="muted">{optionIndex + 1}.</span>
+
+                      <input
+                        value={option.text}
+                        onChange={(event) =>
+                          patchQuestion(question.localId, (item) => ({
+                            ...item,
+                            options: item.options.map((candidate) =>
+                              candidate.localId === option.localId
+                                ? { ...candidate, text: event.target.value }
+                                : candidate
+                            ),
+                          }))
+                        }
+                        placeholder="Item text"
+                        required
+                      />
+
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        aria-label="Move up"
+                        disabled={optionIndex === 0}
+                        onClick={() => moveOption(question.localId, option.localId, -1)}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        aria-label="Move down"
+                        disabled={optionIndex === question.options.length - 1}
+                        onClick={() => moveOption(question.localId, option.localId, 1)}
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => removeOption(question.localId, option.localId)}
+                      >
+                        x
+                      </button>
+                    </div>
+                  ))}
+
+                  <label className="checkbox-row">
+                    <input
+                      type="checkbox"
+                      checked={question.partialCredit}
+                      onChange={(event) =>
+                        patchQuestion(question.localId, (item) => ({ ...item, partialCredit: event.target.checked }))
+                      }
+                    />
+                    <span>Partial credit for each item in its correct position</span>
+                  </label>
+                </div>
+              )}
+
+              {question.type === "matching" && (
+                <div className="options-block">
+                  <div className="panel-header compact">
+                    <h4>Pairs</h4>
+                    <button type="button" className="btn btn-secondary" onClick={() => addOption(question.localId)}>
+                      Add Pair
+                    </button>
+                  </div>
+                  <p className="muted">Students see the right-hand items shuffled and pick one for each left item.</p>
+
+                  {question.options.map((option) => (
+                    <div className="option-row matching-row" key={option.localId}>
+                      <input
+                        value={option.text}
+                        onChange={(event) =>
+                          patchQuestion(question.localId, (item) => ({
+                            ...item,
+                            options: item.options.map((candidate) =>
+                              candidate.localId === option.localId
+                                ? { ...candidate, text: event.target.value }
+                                : candidate
+                            ),
+                          }))
+                        }
+                        placeholder="Left item"
+                        required
+                      />
+
+                      <input
+                        value={option.matchText}
+                        onChange={(event) =>
+                          patchQuestion(question.localId, (item) => ({
+                            ...item,
+                            options: item.options.map((candidate) =>
+                              candidate.localId === option.localId
+                                ? { ...candidate, matchText: event.target.value }
+                                : candidate
+                            ),
+                          }))
+                        }
+                        placeholder="Matching right item"
                         required
                       />
 
@@ -451,17 +1255,87 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
               )}
 
               {question.type === "short" && (
-                <label>
-                  <span>Correct Text</span>
-                  <input
-                    value={question.correctText}
-                    onChange={(event) =>
-                      patchQuestion(question.localId, (item) => ({ ...item, correctText: event.target.value }))
-                    }
-                    placeholder="Expected short answer"
-                    required
-                  />
-                </label>
+                <div className="options-block">
+                  <label>
+                    <span>Correct Text</span>
+                    <input
+                      value={question.correctText}
+                      onChange={(event) =>
+                        patchQuestion(question.localId, (item) => ({ ...item, correctText: event.target.value }))
+                      }
+                      placeholder="Expected short answer"
+                      required
+                    />
+                  </label>
+
+                  <div className="field-grid">
+                    <label>
+                      <span>Also Accept (one per line)</span>
+                      <textarea
+                        value={question.acceptedAnswers}
+                        onChange={(event) =>
+                          patchQuestion(question.localId, (item) => ({ ...item, acceptedAnswers: event.target.value }))
+                        }
+                        rows={2}
+                        placeholder={"NY\nNew York City"}
+                      />
+                    </label>
+
+                    <label>
+                      <span>Patterns (regex, one per line)</span>
+                      <textarea
+                        value={question.answerPatterns}
+                        onChange={(event) =>
+                          patchQuestion(question.localId, (item) => ({ ...item, answerPatterns: event.target.value }))
+                        }
+                        rows={2}
+                        placeholder="n\.?\s*y\.?"
+                      />
+                    </label>
+
+                    <label>
+                      <span>Whitespace</span>
+                      <select
+                        value={question.whitespacePolicy}
+                        onChange={(event) =>
+                          patchQuestion(question.localId, (item) => ({
+                            ...item,
+                            whitespacePolicy: event.target.value as WhitespacePolicy,
+                          }))
+                        }
+                      >
+                        <option value="ignore">Ignore all spaces</option>
+                        <option value="collapse">Trim and collapse spaces</option>
+                        <option value="exact">Exact spacing</option>
+                      </select>
+                    </label>
+
+                    <label>
+                      <span>Typo Tolerance (edits)</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={5}
+                        value={question.typoTolerance}
+                        onChange={(event) =>
+                          patchQuestion(question.localId, (item) => ({ ...item, typoTolerance: event.target.value }))
+                        }
+                        placeholder="0"
+                      />
+                    </label>
+                  </div>
+
+                  <label className="checkbox-row">
+                    <input
+                      type="checkbox"
+                      checked={question.caseSensitive}
+                      onChange={(event) =>
+                        patchQuestion(question.localId, (item) => ({ ...item, caseSensitive: event.target.checked }))
+                      }
+                    />
+                    <span>Case sensitive</span>
+                  </label>
+                </div>
               )}
 
               {question.type === "numeric" && (
@@ -492,9 +1366,88 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
                       placeholder="0"
                     />
                   </label>
+
+                  <label>
+                    <span>Relative Tolerance (%)</span>
+                    <input
+                      type="number"
+                      step="any"
+                      min={0}
+                      value={question.relativeTolerance}
+                      onChange={(event) =>
+                        patchQuestion(question.localId, (item) => ({ ...item, relativeTolerance: event.target.value }))
+                      }
+                      placeholder="Off"
+                    />
+                  </label>
+
+                  <label>
+                    <span>Significant Figures</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={question.significantFigures}
+                      onChange={(event) =>
+                        patchQuestion(question.localId, (item) => ({ ...item, significantFigures: event.target.value }))
+                      }
+                      placeholder="Any"
+                    />
+                  </label>
+
+                  <label>
+                    <span>Unit</span>
+                    <input
+                      value={question.unit}
+                      onChange={(event) =>
+                        patchQuestion(question.localId, (item) => ({ ...item, unit: event.target.value }))
+                      }
+                      placeholder="No unit"
+                    />
+                  </label>
+
+                  <label>
+                    <span>Also Accept Units (label = factor)</span>
+                    <textarea
+                      value={question.acceptedUnits}
+                      onChange={(event) =>
+                        patchQuestion(question.localId, (item) => ({ ...item, acceptedUnits: event.target.value }))
+                      }
+                      rows={2}
+                      placeholder="km/h = 1/3.6"
+                    />
+                  </label>
                 </div>
               )}
 
+              <div className="field-grid">
+                <label>
+                  <span>Hints (one step per line)</span>
+                  <textarea
+                    value={question.hints}
+                    onChange={(event) =>
+                      patchQuestion(question.localId, (item) => ({ ...item, hints: event.target.value }))
+                    }
+                    rows={2}
+                    placeholder="Revealed one at a time when the student asks"
+                  />
+                </label>
+
+                <label>
+                  <span>Penalty per Hint (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={question.hintPenaltyPercent}
+                    disabled={!question.hints.trim()}
+                    onChange={(event) =>
+                      patchQuestion(question.localId, (item) => ({ ...item, hintPenaltyPercent: event.target.value }))
+                    }
+                    placeholder="0"
+                  />
+                </label>
+              </div>
+
               <label>
                 <span>Explanation</span>
                 <textarea
@@ -506,6 +1459,8 @@ export const TeacherTestBuilder = ({ initialTest, submitting, onSubmit }: Teache
                   placeholder="Shown to student after submission"
                 />
               </label>
+
+              {livePreview ? <QuestionPreview question={question} /> : null}
             </article>
           ))}
         </div>
@@ -0,0 +1,91 @@
+import { useEffect, useRef } from "react";
+import { useSaveAttemptAnswerMutation } from "@/store/api/api";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { markAnswerSaved, setAnswerSyncStatus } from "@/store/slices/attemptSlice";
+import { createAnswerOutboxEntry, enqueueOutboxEntry } from "@/store/slices/outboxSlice";
+import type { AnswerSyncStatus, AttemptAnswerInput } from "@/types/domain";
+
+const AUTOSAVE_DEBOUNCE_MS = 800;
+
+const isNetworkError = (error: unknown): boolean => (error as { status?: unknown })?.status === "FETCH_ERROR";
+
+/**
+ * Pushes every unsynced answer of the current attempt to the server once the student pauses typing.
+ * While offline, or when the request cannot reach the server, the draft goes to the outbox instead.
+ * A draft that failed to save is retried when it changes again, not in a loop.
+ */
+export const useAttemptAutosave = (): AnswerSyncStatus => {
+  const dispatch = useAppDispatch();
+  const current = useAppSelector((state) => state.attempt.current);
+  const answersByQuestionId = useAppSelector((state) => state.attempt.answersByQuestionId);
+  const syncByQuestionId = useAppSelector((state) => state.attempt.syncByQuestionId);
+  const online = useAppSelector((state) => state.ui.online);
+  const profileId = useAppSelector((state) => state.user.profile?.id ?? null);
+  const [saveAnswer] = useSaveAttemptAnswerMutation();
+
+  const attemptedRef = useRef(new Map<number, AttemptAnswerInput>());
+  const attemptId = current?.attempt.id ?? null;
+  const testId = current?.test.id ?? null;
+
+  useEffect(() => {
+    attemptedRef.current.clear();
+  }, [attemptId]);
+
+  useEffect(() => {
+    if (attemptId === null || testId === null || current?.attempt.status !== "in_progress") {
+      return;
+    }
+
+    const pending = Object.entries(syncByQuestionId)
+      .filter(([, status]) => status === "unsynced")
+      .map(([questionId]) => answersByQuestionId[Number(questionId)])
+      .filter((answer): answer is AttemptAnswerInput => Boolean(answer))
+      .filter((answer) => attemptedRef.current.get(answer.questionId) !== answer);
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      pending.forEach(async (answer) => {
+        attemptedRef.current.set(answer.questionId, answer);
+
+        if (!online) {
+          dispatch(enqueueOutboxEntry(createAnswerOutboxEntry(attemptId, testId, profileId, answer)));
+          return;
+        }
+
+        dispatch(setAnswerSyncStatus({ questionId: answer.questionId, status: "saving" }));
+
+        try {
+          await saveAnswer({ attemptId, answer }).unwrap();
+          dispatch(markAnswerSaved({ attemptId, answer }));
+        } catch (error) {
+          dispatch(setAnswerSyncStatus({ questionId: answer.questionId, status: "unsynced" }));
+          if (isNetworkError(error)) {
+            dispatch(enqueueOutboxEntry(createAnswerOutboxEntry(attemptId, testId, profileId, answer)));
+          }
+        }
+      });
+    }, AUTOSAVE_DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [
+    answersByQuestionId,
+    attemptId,
+    current?.attempt.status,
+    dispatch,
+    online,
+    profileId,
+    saveAnswer,
+    syncByQuestionId,
+    testId,
+  ]);
+
+  const statuses = Object.values(syncByQuestionId);
+  if (statuses.includes("saving")) {
+    return "saving";
+  }
+
+  return statuses.includes("unsynced") ? "unsynced" : "saved";
+};
@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSaveAttemptAnswerMutation, useSubmitStudentAttemptMutation } from "@/store/api/api";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { removePersistedAttempt } from "@/store/persistence";
+import { clearAttempt, markAnswerSaved, setAttemptError } from "@/store/slices/attemptSlice";
+import {
+  dropOutboxAttempt,
+  removeOutboxEntry,
+  setDeliveredSubmit,
+  setOutboxReplaying,
+  type OutboxEntry,
+} from "@/store/slices/outboxSlice";
+import { pushToast } from "@/store/slices/uiSlice";
+
+type AttemptConflict = "ATTEMPT_ALREADY_SUBMITTED" | "ATTEMPT_EXPIRED";
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+const getErrorStatus = (error: unknown): unknown => (error as { status?: unknown })?.status;
+
+const getAttemptConflict = (error: unknown): AttemptConflict | null => {
+  const data = (error as { data?: { code?: string } | string })?.data;
+  const code = typeof data === "object" && data !== null ? data.code : undefined;
+
+  if (code === "ATTEMPT_ALREADY_SUBMITTED" || code === "ATTEMPT_EXPIRED") {
+    return code;
+  }
+
+  return null;
+};
+
+/**
+ * Replays queued answer saves and submits, oldest first, whenever the app comes back online, a
+ * student logs in again or new entries are queued. A network failure stops the run, keeps the
+ * remaining entries and retries them on a backoff timer, since the browser may still report
+ * itself online.
+ */
+export const useOutboxReplay = (): void => {
+  const dispatch = useAppDispatch();
+  const online = useAppSelector((state) => state.ui.online);
+  const token = useAppSelector((state) => state.auth.token);
+  const profileId = useAppSelector((state) => state.user.profile?.id ?? null);
+  const queued = useAppSelector((state) => state.outbox.entries);
+  // Another student's entries on a shared device wait for that student to log in again.
+  const entries = useMemo(() => queued.filter((entry) => entry.studentId === profileId), [queued, profileId]);
+  const currentAttemptId = useAppSelector((state) => state.attempt.current?.attempt.id ?? null);
+
+  const [saveAnswer] = useSaveAttemptAnswerMutation();
+  const [submitAttempt] = useSubmitStudentAttemptMutation();
+
+  const entriesRef = useRef(entries);
+  const currentAttemptRef = useRef(currentAttemptId);
+  const runningRef = useRef(false);
+  const failuresRef = useRef(0);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped by the retry timer and after a run that left entries queued meanwhile.
+  const [retryTick, setRetryTick] = useState(0);
+  entriesRef.current = entries;
+  currentAttemptRef.current = currentAttemptId;
+
+  useEffect(() => {
+    if (!online || !token || profileId === null || runningRef.current || entriesRef.current.length === 0) {
+      return;
+    }
+
+    const closeAttempt = (entry: OutboxEntry): void => {
+      removePersistedAttempt(entry.attemptId);
+      if (currentAttemptRef.current === entry.attemptId) {
+        dispatch(clearAttempt());
+      }
+    };
+
+    const settleConflict = (entry: OutboxEntry, conflict: AttemptConflict): void => {
+      dispatch(dropOutboxAttempt(entry.attemptId));
+      closeAttempt(entry);
+
+      if (conflict === "ATTEMPT_ALREADY_SUBMITTED") {
+        dispatch(setDeliveredSubmit({ attemptId: entry.attemptId, testId: entry.testId }));
+        dispatch(
+          pushToast({ type: "warning", message: "Attempt was already submitted. Queued changes were discarded." })
+        );
+        return;
+      }
+
+      const message = "Attempt timed out before queued answers reached the server.";
+      if (currentAttemptRef.current === entry.attemptId) {
+        dispatch(setAttemptError(message));
+      }
+      dispatch(pushToast({ type: "warning", message }));
+    };
+
+    const replay = async (): Promise<void> => {
+      runningRef.current = true;
+      dispatch(setOutboxReplaying(true));
+      const settledAttemptIds = new Set<number>();
+      let networkFailure = false;
+      let authFailure = false;
+
+      for (const entry of entriesRef.current.slice()) {
+        if (settledAttemptIds.has(entry.attemptId)) {
+          continue;
+        }
+
+        try {
+          if (entry.kind === "saveAnswer") {
+            await saveAnswer({
+              attemptId: entry.attemptId,
+              answer: entry.answer,
+              idempotencyKey: entry.idempotencyKey,
+            }).unwrap();
+            dispatch(markAnswerSaved({ attemptId: entry.attemptId, answer: entry.answer }));
+          } else {
+            await submitAttempt({
+              attemptId: entry.attemptId,
+              answers: entry.answers,
+              idempotencyKey: entry.idempotencyKey,
+            }).unwrap();
+            closeAttempt(entry);
+            settledAttemptIds.add(entry.attemptId);
+            // Saves queued behind the submit can only hit the closed attempt now.
+            dispatch(dropOutboxAttempt(entry.attemptId));
+            dispatch(setDeliveredSubmit({ attemptId: entry.attemptId, testId: entry.testId }));
+            dispatch(pushToast({ type: "success", message: "Queued submission was delivered." }));
+            continue;
+          }
+
+          dispatch(removeOutboxEntry(entry.id));
+        } catch (error) {
+          const status = getErrorStatus(error);
+          if (status === "FETCH_ERROR") {
+            networkFailure = true;
+            break;
+          }
+          if (status === 401) {
+            authFailure = true;
+            break;
+          }
+
+          const conflict = getAttemptConflict(error);
+          if (conflict) {
+            settledAttemptIds.add(entry.attemptId);
+            settleConflict(entry, conflict);
+            continue;
+          }
+
+          // Anything else will not succeed on retry; the error middleware already reported it.
+          dispatch(removeOutboxEntry(entry.id));
+        }
+      }
+
+      dispatch(setOutboxReplaying(false));
+      runningRef.current = false;
+
+      if (networkFailure) {
+        const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** failuresRef.current);
+        failuresRef.current += 1;
+        retryTimerRef.current = setTimeout(() => {
+          retryTimerRef.current = null;
+          setRetryTick((tick) => tick + 1);
+        }, delay);
+        return;
+      }
+
+      failuresRef.current = 0;
+      // Entries queued while this run was in flight did not start a run of their own. After a 401 the
+      // queue waits for the next login instead.
+      if (!authFailure && entriesRef.current.length > 0) {
+        setRetryTick((tick) => tick + 1);
+      }
+    };
+
+    if (retryTimerRef.current !== null) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    void replay();
+  }, [dispatch, entries.length, online, profileId, retryTick, saveAnswer, submitAttempt, token]);
+
+  useEffect(
+    () => () => {
+      if (retryTimerRef.current !== null) {
+        clearTimeout(retryTimerRef.current);
+      }
+    },
+    []
+  );
+};
@@ -27,7 +27,7 @@ export const useSessionBootstrap = (): void => {
 
     const handleOffline = (): void => {
       dispatch(setOnline(false));
-      dispatch(pushToast({ type: "warning", message: "You are offline. Actions will fail until connection is back." }));
+      dispatch(pushToast({ type: "warning", message: "You are offline. Answers are queued and sent when connection is back." }));
     };
 
     window.addEventListener("online", handleOnline);
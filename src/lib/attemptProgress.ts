@@ -0,0 +1,39 @@
+import type { AnswerSyncStatus, AttemptAnswerInput, StudentQuestion } from "@/types/domain";
+
+export type QuestionProgress = "unanswered" | "answered" | "flagged";
+
+// Ordering questions always hold a full sequence, so only a touched (or server-saved) one counts as answered.
+export const isQuestionAnswered = (
+  question: StudentQuestion,
+  answer: AttemptAnswerInput | undefined,
+  sync: AnswerSyncStatus | undefined
+): boolean => {
+  if (!answer) {
+    return false;
+  }
+
+  switch (question.type) {
+    case "single":
+    case "multiple":
+      return (answer.selectedOptionIds?.length ?? 0) > 0;
+    case "short":
+      return (answer.textAnswer ?? "").trim().length > 0;
+    case "numeric":
+      return (answer.numericText ?? "").trim().length > 0 || typeof answer.numericAnswer === "number";
+    case "matching":
+      return (answer.matchedPairs?.length ?? 0) >= question.options.length;
+    case "ordering":
+      return sync !== undefined;
+    default:
+      return false;
+  }
+};
+
+// A flag wins over the answer state: the student asked to come back to it either way.
+export const resolveQuestionProgress = (answered: boolean, flagged: boolean): QuestionProgress => {
+  if (flagged) {
+    return "flagged";
+  }
+
+  return answered ? "answered" : "unanswered";
+};
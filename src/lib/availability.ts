@@ -0,0 +1,35 @@
+import type { TestAvailability } from "@/types/domain";
+
+const toMs = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : null;
+};
+
+// Missing bounds leave that side of the window open.
+export const resolveAvailability = (
+  availableFrom: string | null,
+  availableUntil: string | null,
+  nowMs: number
+): TestAvailability => {
+  const fromMs = toMs(availableFrom);
+  if (fromMs !== null && nowMs < fromMs) {
+    return "upcoming";
+  }
+
+  const untilMs = toMs(availableUntil);
+  if (untilMs !== null && nowMs >= untilMs) {
+    return "closed";
+  }
+
+  return "open";
+};
+
+export const isValidWindow = (availableFrom: string | null, availableUntil: string | null): boolean => {
+  const fromMs = toMs(availableFrom);
+  const untilMs = toMs(availableUntil);
+  return fromMs === null || untilMs === null || fromMs < untilMs;
+};
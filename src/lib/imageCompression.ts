@@ -0,0 +1,52 @@
+export interface CompressedImage {
+  blob: Blob;
+  fileName: string;
+  width: number;
+  height: number;
+}
+
+const ACCEPTED_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+const MAX_SIDE_PX = 1600;
+const JPEG_QUALITY = 0.82;
+
+const baseName = (fileName: string): string => fileName.replace(/\.[^.]+$/, "") || "image";
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("ENCODE_FAILED"))), type, JPEG_QUALITY);
+  });
+
+export const isAcceptedImage = (file: File): boolean => ACCEPTED_TYPES.includes(file.type);
+
+// Every upload is re-encoded: it bounds the size, applies EXIF rotation and strips metadata such as GPS tags.
+// PNG stays PNG because diagrams and screenshots lose their sharp edges as JPEG; everything else becomes JPEG.
+export const compressImage = async (file: File): Promise<CompressedImage> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+
+  try {
+    const scale = Math.min(1, MAX_SIDE_PX / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("ENCODE_FAILED");
+    }
+
+    const png = file.type === "image/png";
+    if (!png) {
+      // JPEG has no alpha channel; transparent GIF/WebP areas would otherwise turn black.
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await canvasToBlob(canvas, png ? "image/png" : "image/jpeg");
+    return { blob, fileName: `${baseName(file.name)}.${png ? "png" : "jpg"}`, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,227 @@
+// Question text is stored as Markdown source with $…$ / $$…$$ math and parsed into a plain node tree here.
+// Raw HTML is never interpreted: anything that is not recognised syntax stays literal text.
+
+export type InlineNode =
+  | { kind: "text"; text: string }
+  | { kind: "strong"; children: InlineNode[] }
+  | { kind: "em"; children: InlineNode[] }
+  | { kind: "code"; text: string }
+  | { kind: "link"; href: string; children: InlineNode[] }
+  | { kind: "math"; tex: string }
+  | { kind: "break" };
+
+export type BlockNode =
+  | { kind: "paragraph"; children: InlineNode[] }
+  | { kind: "heading"; level: 1 | 2 | 3; children: InlineNode[] }
+  | { kind: "list"; ordered: boolean; items: InlineNode[][] }
+  | { kind: "quote"; children: InlineNode[] }
+  | { kind: "code"; text: string }
+  | { kind: "math"; tex: string };
+
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+const ESCAPABLE = "\\`*_[]()#+-.!$>";
+
+const pushText = (nodes: InlineNode[], text: string): void => {
+  const last = nodes[nodes.length - 1];
+  if (last?.kind === "text") {
+    last.text += text;
+  } else if (text) {
+    nodes.push({ kind: "text", text });
+  }
+};
+
+// "$5 and $10" must stay text, so inline math needs a non-space right after the opening and before the closing $.
+const findInlineMathEnd = (source: string, from: number): number => {
+  if (/\s/.test(source[from] ?? " ")) {
+    return -1;
+  }
+
+  for (let index = from; index < source.length; index += 1) {
+    if (source[index] === "\\") {
+      index += 1;
+    } else if (source[index] === "$") {
+      return /\s/.test(source[index - 1]!) ? -1 : index;
+    }
+  }
+
+  return -1;
+};
+
+export const parseInline = (source: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index]!;
+    const rest = source.slice(index);
+
+    if (rest.startsWith("\\(")) {
+      const end = source.indexOf("\\)", index + 2);
+      if (end > index) {
+        nodes.push({ kind: "math", tex: source.slice(index + 2, end) });
+        index = end + 2;
+        continue;
+      }
+    }
+
+    if (char === "\\" && ESCAPABLE.includes(source[index + 1] ?? "")) {
+      pushText(nodes, source[index + 1]!);
+      index += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      nodes.push({ kind: "break" });
+      index += 1;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = source.indexOf("`", index + 1);
+      if (end > index + 1) {
+        nodes.push({ kind: "code", text: source.slice(index + 1, end) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (char === "$" && source[index + 1] !== "$") {
+      const end = findInlineMathEnd(source, index + 1);
+      if (end > index + 1) {
+        nodes.push({ kind: "math", tex: source.slice(index + 1, end) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("**") || rest.startsWith("__")) {
+      const marker = rest.slice(0, 2);
+      const end = source.indexOf(marker, index + 2);
+      if (end > index + 2) {
+        nodes.push({ kind: "strong", children: parseInline(source.slice(index + 2, end)) });
+        index = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === "*" || char === "_") && !/\s/.test(source[index + 1] ?? " ")) {
+      const end = source.indexOf(char, index + 1);
+      if (end > index + 1) {
+        nodes.push({ kind: "em", children: parseInline(source.slice(index + 1, end)) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const link = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(rest);
+      if (link) {
+        const children = parseInline(link[1]!);
+        if (SAFE_LINK.test(link[2]!)) {
+          nodes.push({ kind: "link", href: link[2]!, children });
+        } else {
+          nodes.push(...children);
+        }
+        index += link[0].length;
+        continue;
+      }
+    }
+
+    pushText(nodes, char);
+    index += 1;
+  }
+
+  return nodes;
+};
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: "paragraph", children: parseInline(paragraph.join("\n")) });
+      paragraph = [];
+    }
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index]!;
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("```")) {
+      flushParagraph();
+      const body: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index]!.trim().startsWith("```")) {
+        body.push(lines[index]!);
+        index += 1;
+      }
+      blocks.push({ kind: "code", text: body.join("\n") });
+      index += 1;
+      continue;
+    }
+
+    if (trimmed.startsWith("$$")) {
+      flushParagraph();
+      const body: string[] = [trimmed.slice(2)];
+      while (!body[body.length - 1]!.trimEnd().endsWith("$$") && index + 1 < lines.length) {
+        index += 1;
+        body.push(lines[index]!);
+      }
+      blocks.push({ kind: "math", tex: body.join("\n").trimEnd().replace(/\$\$$/, "") });
+      index += 1;
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(trimmed);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ kind: "heading", level: heading[1]!.length as 1 | 2 | 3, children: parseInline(heading[2]!) });
+      index += 1;
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]!);
+      const items: InlineNode[][] = [];
+      while (index < lines.length) {
+        const match = LIST_ITEM.exec(lines[index]!);
+        if (!match || /\d/.test(match[1]!) !== ordered) {
+          break;
+        }
+        items.push(parseInline(match[2]!));
+        index += 1;
+      }
+      blocks.push({ kind: "list", ordered, items });
+      continue;
+    }
+
+    if (trimmed.startsWith(">")) {
+      flushParagraph();
+      const body: string[] = [];
+      while (index < lines.length && lines[index]!.trim().startsWith(">")) {
+        body.push(lines[index]!.trim().replace(/^>\s?/, ""));
+        index += 1;
+      }
+      blocks.push({ kind: "quote", children: parseInline(body.join("\n")) });
+      continue;
+    }
+
+    if (trimmed === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    index += 1;
+  }
+
+  flushParagraph();
+  return blocks;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { countSignificantFigures, normalizeUnit, parseNumericInput } from "@/lib/numeric";
+
+describe("parseNumericInput", () => {
+  test("reads dotted, comma and scientific forms", () => {
+    expect(parseNumericInput("1.5")).toBe(1.5);
+    expect(parseNumericInput("1,5")).toBe(1.5);
+    expect(parseNumericInput(" -0,125 ")).toBe(-0.125);
+    expect(parseNumericInput(".5")).toBe(0.5);
+    expect(parseNumericInput("1.2e-3")).toBe(0.0012);
+    expect(parseNumericInput("+3E2")).toBe(300);
+  });
+
+  test("drops thousands separators when both a comma and a dot are present", () => {
+    expect(parseNumericInput("1,234.5")).toBe(1234.5);
+    expect(parseNumericInput("1 234,5")).toBe(1234.5);
+  });
+
+  test("refuses a lone comma followed by three digits", () => {
+    expect(parseNumericInput("1,234")).toBeNull();
+    expect(parseNumericInput("-12,500")).toBeNull();
+    expect(parseNumericInput("1,2345")).toBe(1.2345);
+  });
+
+  test("rejects text that is not a number", () => {
+    expect(parseNumericInput("")).toBeNull();
+    expect(parseNumericInput("abc")).toBeNull();
+    expect(parseNumericInput("1.2.3")).toBeNull();
+    expect(parseNumericInput("5 m")).toBeNull();
+    expect(parseNumericInput("1e999")).toBeNull();
+  });
+});
+
+describe("countSignificantFigures", () => {
+  test("ignores leading zeros and keeps trailing zeros only after a decimal point", () => {
+    expect(countSignificantFigures("0.00120")).toBe(3);
+    expect(countSignificantFigures("1200")).toBe(2);
+    expect(countSignificantFigures("1200.")).toBe(4);
+    expect(countSignificantFigures("1.20e3")).toBe(3);
+    expect(countSignificantFigures("0")).toBe(1);
+    expect(countSignificantFigures("x")).toBeNull();
+  });
+});
+
+test("normalizeUnit removes whitespace", () => {
+  expect(normalizeUnit(" k m / s ")).toBe("km/s");
+});
@@ -0,0 +1,50 @@
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+// "1,234" reads as 1234 in some locales and 1.234 in others. With nothing else to tell them apart it is
+// refused; "0,125", "1,5" and "1,234.5" are unambiguous.
+const AMBIGUOUS_COMMA = /^[+-]?[1-9]\d{0,2},\d{3}(e[+-]?\d+)?$/i;
+
+// Accepts "1.5", "1,5", "1 234,5", "1,234.5" and scientific notation such as "1.2e-3".
+// Returns the canonical dotted form, or null when the text is not a number or is ambiguous.
+export const normalizeNumericText = (raw: string): string | null => {
+  let text = raw.trim().replace(/\s+/g, "");
+  if (AMBIGUOUS_COMMA.test(text)) {
+    return null;
+  }
+  if (text.includes(",") && text.includes(".")) {
+    text = text.replace(/,/g, "");
+  } else {
+    text = text.replace(/,/g, ".");
+  }
+
+  return NUMBER_PATTERN.test(text) ? text : null;
+};
+
+export const parseNumericInput = (raw: string): number | null => {
+  const text = normalizeNumericText(raw);
+  if (text === null) {
+    return null;
+  }
+
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+// Significant figures as written: leading zeros never count, trailing zeros count only after a decimal point.
+export const countSignificantFigures = (raw: string): number | null => {
+  const text = normalizeNumericText(raw);
+  if (text === null) {
+    return null;
+  }
+
+  const mantissa = text.replace(/^[+-]/, "").split(/e/i)[0]!;
+  const hasPoint = mantissa.includes(".");
+  const digits = mantissa.replace(".", "").replace(/^0+/, "");
+  if (digits.length === 0) {
+    return 1;
+  }
+
+  return hasPoint ? digits.length : digits.replace(/0+$/, "").length;
+};
+
+export const normalizeUnit = (unit: string): string => unit.trim().replace(/\s+/g, "");
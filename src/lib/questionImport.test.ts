@@ -0,0 +1,189 @@
+import { describe, expect, test } from "bun:test";
+import { detectQuestionTextFormat, parseAiken, parseGift } from "@/lib/questionImport";
+
+describe("parseAiken", () => {
+  test("reads single and multiple choice questions", () => {
+    const result = parseAiken(
+      [
+        "Unit of energy?",
+        "A. Joule",
+        "B) Newton",
+        "ANSWER: A",
+        "",
+        "Which are vectors?",
+        "A. Force",
+        "B. Mass",
+        "C. Velocity",
+        "ANSWER: A, C",
+      ].join("\n")
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.questions).toEqual([
+      {
+        prompt: "Unit of energy?",
+        type: "single",
+        points: 1,
+        options: [
+          { text: "Joule", isCorrect: true },
+          { text: "Newton", isCorrect: false },
+        ],
+      },
+      {
+        prompt: "Which are vectors?",
+        type: "multiple",
+        points: 1,
+        options: [
+          { text: "Force", isCorrect: true },
+          { text: "Mass", isCorrect: false },
+          { text: "Velocity", isCorrect: true },
+        ],
+      },
+    ]);
+  });
+
+  test("reports broken blocks with their line and keeps the rest", () => {
+    const result = parseAiken(
+      [
+        "First?",
+        "A. One",
+        "B. Two",
+        "ANSWER: C",
+        "",
+        "ANSWER: A",
+        "",
+        "Second?",
+        "A. Yes",
+        "B. No",
+        "ANSWER: B",
+        "",
+        "Third?",
+        "A. Only",
+      ].join("\n")
+    );
+
+    expect(result.questions.map((question) => question.prompt)).toEqual(["Second?"]);
+    expect(result.issues).toEqual([
+      { line: 4, message: "ANSWER names option C, which the question does not have." },
+      { line: 6, message: "ANSWER line without a question above it." },
+      { line: 13, message: "Missing ANSWER line after the options." },
+    ]);
+  });
+});
+
+describe("parseGift", () => {
+  test("reads choice, true/false, short answer and numeric questions", () => {
+    const result = parseGift(
+      [
+        "// a comment",
+        "$CATEGORY: physics",
+        "::Q1:: Unit of energy? {=Joule ~Newton#no ~Watt}",
+        "",
+        "Light is a wave. {T}",
+        "",
+        "Symbol for the speed of light? {=c =c0 ####Usually c.}",
+        "",
+        "Pi to two places? {#3.14:0.01}",
+        "",
+        "Between one and five? {#1..5}",
+      ].join("\n")
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.questions).toEqual([
+      {
+        prompt: "Unit of energy?",
+        type: "single",
+        points: 1,
+        options: [
+          { text: "Joule", isCorrect: true },
+          { text: "Newton", isCorrect: false },
+          { text: "Watt", isCorrect: false },
+        ],
+        explanation: "",
+      },
+      {
+        prompt: "Light is a wave.",
+        type: "single",
+        points: 1,
+        options: [
+          { text: "True", isCorrect: true },
+          { text: "False", isCorrect: false },
+        ],
+        explanation: "",
+      },
+      {
+        prompt: "Symbol for the speed of light?",
+        type: "short",
+        points: 1,
+        options: [],
+        correctText: "c",
+        shortAnswerRules: {
+          acceptedAnswers: ["c0"],
+          caseSensitive: false,
+          whitespace: "ignore",
+          patterns: [],
+          typoTolerance: 0,
+        },
+        explanation: "Usually c.",
+      },
+      {
+        prompt: "Pi to two places?",
+        type: "numeric",
+        points: 1,
+        options: [],
+        correctNumber: 3.14,
+        tolerance: 0.01,
+        explanation: "",
+      },
+      {
+        prompt: "Between one and five?",
+        type: "numeric",
+        points: 1,
+        options: [],
+        correctNumber: 3,
+        tolerance: 2,
+        explanation: "",
+      },
+    ]);
+  });
+
+  test("turns partial weights into multiple choice and keeps missing-word blanks", () => {
+    const { questions } = parseGift("Vectors: {~%50%Force ~%50%Velocity ~%-100%Mass} are directed.");
+
+    expect(questions[0]).toMatchObject({
+      prompt: "Vectors: _____ are directed.",
+      type: "multiple",
+      options: [
+        { text: "Force", isCorrect: true },
+        { text: "Velocity", isCorrect: true },
+        { text: "Mass", isCorrect: false },
+      ],
+    });
+  });
+
+  test("keeps escaped syntax and LaTeX in the text", () => {
+    const { questions } = parseGift("What is $\\frac\\{1\\}\\{2\\}$ as a decimal\\: 0\\~1? {=0.5 ~0.2}");
+
+    expect(questions[0]?.prompt).toBe("What is $\\frac{1}{2}$ as a decimal: 0~1?");
+  });
+
+  test("reports unsupported or malformed blocks with their line", () => {
+    const result = parseGift(
+      ["No answers here", "", "Essay? {}", "", "Match {=a -> 1 =b -> 2}", "", "Bad {#abc}"].join("\n")
+    );
+
+    expect(result.questions).toEqual([]);
+    expect(result.issues).toEqual([
+      { line: 1, message: "Missing answer block in { }." },
+      { line: 3, message: "Essay questions are not supported." },
+      { line: 5, message: "Matching questions are not supported." },
+      { line: 7, message: "Numeric answer must look like {#3.14:0.01} or {#1..5}." },
+    ]);
+  });
+});
+
+test("detectQuestionTextFormat tells Aiken from GIFT", () => {
+  expect(detectQuestionTextFormat("Q?\nA. Yes\nB. No\nANSWER: A")).toBe("aiken");
+  expect(detectQuestionTextFormat("Q? {=Yes ~No}")).toBe("gift");
+});
@@ -0,0 +1,366 @@
+import { parseNumericInput } from "@/lib/numeric";
+import type { TeacherQuestionInput } from "@/types/domain";
+
+// Plain-text question formats teachers paste from other tools. Parsing never throws: malformed
+// blocks are reported with the line they start on and the rest of the text still imports.
+
+export type QuestionTextFormat = "aiken" | "gift";
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  questions: TeacherQuestionInput[];
+  issues: ImportIssue[];
+}
+
+const AIKEN_OPTION = /^([A-Z])[.)]\s+(.+)$/;
+const AIKEN_ANSWER = /^ANSWER\s*:\s*(.*)$/i;
+
+export const detectQuestionTextFormat = (text: string): QuestionTextFormat =>
+  /^\s*ANSWER\s*:/im.test(text) && !text.includes("{") ? "aiken" : "gift";
+
+const choiceQuestion = (
+  prompt: string,
+  options: Array<{ text: string; isCorrect: boolean }>
+): TeacherQuestionInput => ({
+  prompt,
+  type: options.filter((option) => option.isCorrect).length > 1 ? "multiple" : "single",
+  points: 1,
+  options,
+});
+
+// Aiken: a question line, lettered options ("A." or "A)") and a closing "ANSWER: B" line.
+// "ANSWER: A, C" is accepted as well and becomes a multiple choice question.
+export const parseAiken = (text: string): ImportResult => {
+  const questions: TeacherQuestionInput[] = [];
+  const issues: ImportIssue[] = [];
+  let current: { line: number; prompt: string[]; options: Array<{ letter: string; text: string }> } | null = null;
+
+  for (const [index, raw] of text.split(/\r?\n/).entries()) {
+    const line = raw.trim();
+    const lineNo = index + 1;
+    if (!line) {
+      continue;
+    }
+
+    const answer = AIKEN_ANSWER.exec(line);
+    if (answer) {
+      if (current === null) {
+        issues.push({ line: lineNo, message: "ANSWER line without a question above it." });
+        continue;
+      }
+
+      const block = current;
+      current = null;
+      const letters = answer[1]!.toUpperCase().split(/[\s,]+/).filter(Boolean);
+      const unknown = letters.find((letter) => !block.options.some((option) => option.letter === letter));
+
+      if (block.options.length < 2) {
+        issues.push({ line: block.line, message: "A question needs at least 2 lettered options." });
+      } else if (letters.length === 0) {
+        issues.push({ line: lineNo, message: "ANSWER names no option." });
+      } else if (unknown !== undefined) {
+        issues.push({ line: lineNo, message: `ANSWER names option ${unknown}, which the question does not have.` });
+      } else {
+        questions.push(
+          choiceQuestion(
+            block.prompt.join("\n"),
+            block.options.map((option) => ({ text: option.text, isCorrect: letters.includes(option.letter) }))
+          )
+        );
+      }
+      continue;
+    }
+
+    const option = AIKEN_OPTION.exec(line);
+    if (option && current !== null) {
+      if (current.options.some((item) => item.letter === option[1])) {
+        issues.push({ line: lineNo, message: `Option ${option[1]} appears twice.` });
+      } else {
+        current.options.push({ letter: option[1]!, text: option[2]! });
+      }
+      continue;
+    }
+
+    if (current !== null && current.options.length > 0) {
+      issues.push({ line: current.line, message: "Missing ANSWER line after the options." });
+      current = null;
+    }
+
+    if (current === null) {
+      current = { line: lineNo, prompt: [], options: [] };
+    }
+    current.prompt.push(line);
+  }
+
+  if (current !== null) {
+    issues.push({ line: current.line, message: "Missing ANSWER line after the options." });
+  }
+
+  return { questions, issues };
+};
+
+interface GiftBlock {
+  text: string;
+  // Source line of every line in `text`, so offsets inside the block map back to the pasted text.
+  lines: number[];
+}
+
+const isEscaped = (text: string, index: number): boolean => {
+  let slashes = 0;
+  for (let cursor = index - 1; cursor >= 0 && text[cursor] === "\\"; cursor -= 1) {
+    slashes += 1;
+  }
+  return slashes % 2 === 1;
+};
+
+const findUnescaped = (text: string, target: string, from = 0): number => {
+  for (let index = text.indexOf(target, from); index !== -1; index = text.indexOf(target, index + 1)) {
+    if (!isEscaped(text, index)) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+// GIFT escapes only its own syntax characters, so LaTeX such as \frac passes through untouched.
+const unescapeGift = (text: string): string => text.replace(/\\([~=#{}:])/g, "$1").trim();
+
+// Questions are separated by blank lines; "//" comment lines and $CATEGORY directives are dropped.
+const splitGiftBlocks = (text: string): GiftBlock[] => {
+  const blocks: GiftBlock[] = [];
+  let current: GiftBlock | null = null;
+  let depth = 0;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trimEnd();
+    const trimmed = line.trim();
+    if (trimmed.startsWith("//") || trimmed.startsWith("$CATEGORY:")) {
+      return;
+    }
+
+    if (!trimmed && depth === 0) {
+      current = null;
+      return;
+    }
+
+    if (current === null) {
+      current = { text: line, lines: [index + 1] };
+      blocks.push(current);
+    } else {
+      current.text += `\n${line}`;
+      current.lines.push(index + 1);
+    }
+
+    for (let cursor = 0; cursor < line.length; cursor += 1) {
+      if ((line[cursor] === "{" || line[cursor] === "}") && !isEscaped(line, cursor)) {
+        depth = Math.max(0, depth + (line[cursor] === "{" ? 1 : -1));
+      }
+    }
+  });
+
+  return blocks;
+};
+
+const lineAt = (block: GiftBlock, offset: number): number =>
+  block.lines[block.text.slice(0, offset).split("\n").length - 1] ?? block.lines[0]!;
+
+interface GiftAnswer {
+  correct: boolean;
+  weight: number | null;
+  text: string;
+}
+
+// Splits "=right ~wrong#feedback ~%50%half" into answers; per-answer feedback is not imported.
+const splitGiftAnswers = (body: string): GiftAnswer[] => {
+  const answers: GiftAnswer[] = [];
+
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index]!;
+    if ((char !== "=" && char !== "~") || isEscaped(body, index)) {
+      continue;
+    }
+
+    let end = index + 1;
+    while (end < body.length && !((body[end] === "=" || body[end] === "~") && !isEscaped(body, end))) {
+      end += 1;
+    }
+
+    let content = body.slice(index + 1, end);
+    const feedback = findUnescaped(content, "#");
+    if (feedback !== -1) {
+      content = content.slice(0, feedback);
+    }
+
+    const weight = /^\s*%(-?\d+(?:\.\d+)?)%/.exec(content);
+    answers.push({
+      correct: char === "=",
+      weight: weight ? Number(weight[1]) : null,
+      text: unescapeGift(weight ? content.slice(weight[0].length) : content),
+    });
+    index = end - 1;
+  }
+
+  return answers;
+};
+
+// "#3.14:0.01" (value and tolerance), "#1..5" (range) or "#=3:0.1 =%50%3:1" (first full-credit answer wins).
+const parseGiftNumeric = (body: string): { value: number; tolerance: number } | null => {
+  const candidates = body.includes("=") ? splitGiftAnswers(body) : [{ correct: true, weight: null, text: body }];
+  const answer = candidates.find((item) => item.weight === null || item.weight === 100) ?? candidates[0];
+  if (!answer) {
+    return null;
+  }
+
+  const feedback = findUnescaped(answer.text, "#");
+  const text = feedback === -1 ? answer.text : answer.text.slice(0, feedback);
+  const range = /^(.+)\.\.(.+)$/.exec(text.trim());
+  if (range) {
+    const min = parseNumericInput(range[1]!);
+    const max = parseNumericInput(range[2]!);
+    return min === null || max === null || min > max ? null : { value: (min + max) / 2, tolerance: (max - min) / 2 };
+  }
+
+  const [valueText = "", toleranceText = "0"] = text.split(":");
+  const value = parseNumericInput(valueText);
+  const tolerance = parseNumericInput(toleranceText);
+  return value === null || tolerance === null || tolerance < 0 ? null : { value, tolerance: Math.abs(tolerance) };
+};
+
+const parseGiftBlock = (block: GiftBlock): TeacherQuestionInput | ImportIssue => {
+  // `start` is where the question text begins in the block, after the optional ::title:: and [format] marker.
+  let start = block.text.length - block.text.trimStart().length;
+  const title = /^::(.*?)::/s.exec(block.text.slice(start));
+  if (title) {
+    start += title[0].length;
+  }
+  const format = /^\s*\[(html|moodle|plain|markdown)\]/i.exec(block.text.slice(start));
+  if (format) {
+    start += format[0].length;
+  }
+
+  const source = block.text.slice(start);
+  const open = findUnescaped(source, "{");
+  const close = open === -1 ? -1 : findUnescaped(source, "}", open);
+  if (open === -1 || close === -1) {
+    return { line: block.lines[0]!, message: "Missing answer block in { }." };
+  }
+
+  const line = lineAt(block, start + open);
+  const before = unescapeGift(source.slice(0, open));
+  const after = unescapeGift(source.slice(close + 1));
+  // Missing-word questions keep their place in the sentence as a blank.
+  const prompt = after ? `${before} _____ ${after}` : before;
+  if (!prompt) {
+    return { line, message: "Question text is empty." };
+  }
+
+  let body = source.slice(open + 1, close);
+  let explanation = "";
+  const general = findUnescaped(body, "####");
+  if (general !== -1) {
+    explanation = unescapeGift(body.slice(general + 4));
+    body = body.slice(0, general);
+  }
+  body = body.trim();
+
+  if (!body) {
+    return { line, message: "Essay questions are not supported." };
+  }
+
+  if (body.startsWith("#")) {
+    const numeric = parseGiftNumeric(body.slice(1));
+    if (numeric === null) {
+      return { line, message: "Numeric answer must look like {#3.14:0.01} or {#1..5}." };
+    }
+    return {
+      prompt,
+      type: "numeric",
+      points: 1,
+      options: [],
+      correctNumber: numeric.value,
+      tolerance: numeric.tolerance,
+      explanation,
+    };
+  }
+
+  const trueFalse = /^(T|TRUE|F|FALSE)\s*(#.*)?$/is.exec(body);
+  if (trueFalse) {
+    const isTrue = trueFalse[1]!.toUpperCase().startsWith("T");
+    return {
+      ...choiceQuestion(prompt, [
+        { text: "True", isCorrect: isTrue },
+        { text: "False", isCorrect: !isTrue },
+      ]),
+      explanation,
+    };
+  }
+
+  const answers = splitGiftAnswers(body);
+  if (answers.length === 0) {
+    return { line, message: "Answers must start with = (correct) or ~ (wrong)." };
+  }
+
+  if (answers.some((answer) => answer.text.includes("->"))) {
+    return { line, message: "Matching questions are not supported." };
+  }
+
+  if (answers.some((answer) => !answer.text)) {
+    return { line, message: "An answer is empty." };
+  }
+
+  // Only "=" answers: a short answer question where every listed answer is accepted.
+  if (answers.every((answer) => answer.correct)) {
+    const [first, ...rest] = answers;
+    return {
+      prompt,
+      type: "short",
+      points: 1,
+      options: [],
+      correctText: first!.text,
+      shortAnswerRules: {
+        acceptedAnswers: rest.map((answer) => answer.text),
+        caseSensitive: false,
+        whitespace: "ignore",
+        patterns: [],
+        typoTolerance: 0,
+      },
+      explanation,
+    };
+  }
+
+  const options = answers.map((answer) => ({
+    text: answer.text,
+    isCorrect: answer.correct || (answer.weight ?? 0) > 0,
+  }));
+  if (!options.some((option) => option.isCorrect)) {
+    return { line, message: "No answer is marked correct with = or a positive %weight%." };
+  }
+
+  // A partial positive weight ("~%50%") means several options together earn the points.
+  const partial = answers.some((answer) => answer.weight !== null && answer.weight > 0 && answer.weight < 100);
+  const question = choiceQuestion(prompt, options);
+  return { ...question, type: partial ? "multiple" : question.type, explanation };
+};
+
+export const parseGift = (text: string): ImportResult => {
+  const questions: TeacherQuestionInput[] = [];
+  const issues: ImportIssue[] = [];
+
+  for (const block of splitGiftBlocks(text)) {
+    const parsed = parseGiftBlock(block);
+    if ("message" in parsed) {
+      issues.push(parsed);
+    } else {
+      questions.push(parsed);
+    }
+  }
+
+  return { questions, issues };
+};
+
+export const parseQuestionText = (text: string, format: QuestionTextFormat): ImportResult =>
+  format === "aiken" ? parseAiken(text) : parseGift(text);
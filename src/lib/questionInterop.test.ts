@@ -0,0 +1,179 @@
+import { describe, expect, test } from "bun:test";
+import { exportMoodleXml, exportQtiPackage, importMoodleXml, importQtiPackage } from "@/lib/questionInterop";
+import type { TeacherQuestion, TeacherTest } from "@/types/domain";
+
+const question = (overrides: Partial<TeacherQuestion>): TeacherQuestion => ({
+  id: 1,
+  prompt: "",
+  type: "single",
+  points: 1,
+  options: [],
+  matchOptions: [],
+  correctOptionIds: [],
+  correctPairs: [],
+  correctText: null,
+  correctNumber: null,
+  tolerance: null,
+  partialCredit: false,
+  scoringPolicy: "all_or_nothing",
+  shortAnswerRules: {
+    acceptedAnswers: [],
+    caseSensitive: false,
+    whitespace: "collapse",
+    patterns: [],
+    typoTolerance: 0,
+  },
+  numericRules: { relativeTolerancePercent: null, significantFigures: null, unit: null, acceptedUnits: [] },
+  poolId: null,
+  difficulty: "medium",
+  hints: [],
+  hintPenaltyPercent: 0,
+  imageUrl: null,
+  bankQuestionId: null,
+  explanation: "",
+  ...overrides,
+});
+
+const option = (id: number, text: string) => ({ id, text, imageUrl: null });
+
+const sampleTest: TeacherTest = {
+  id: 7,
+  title: "Physics basics",
+  description: "",
+  status: "draft",
+  mode: "exam",
+  timeLimitSec: 600,
+  passingPercent: 0,
+  shuffleQuestions: false,
+  shuffleOptions: false,
+  pools: [],
+  courseId: null,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  questions: [
+    question({
+      id: 1,
+      prompt: "Unit of energy?\n\nPick one.",
+      type: "single",
+      points: 2,
+      options: [option(11, "Joule"), option(12, "Newton"), option(13, "Watt")],
+      correctOptionIds: [11],
+      scoringPolicy: "negative_marking",
+      explanation: "Work and energy share the unit.",
+    }),
+    question({
+      id: 2,
+      prompt: "Which are vectors?",
+      type: "multiple",
+      options: [option(21, "Force"), option(22, "Mass"), option(23, "Velocity"), option(24, "Time")],
+      correctOptionIds: [21, 23],
+      scoringPolicy: "right_minus_wrong",
+    }),
+    question({
+      id: 3,
+      prompt: "Symbol for the speed of light?",
+      type: "short",
+      correctText: "c",
+      shortAnswerRules: {
+        acceptedAnswers: ["c0"],
+        caseSensitive: true,
+        whitespace: "ignore",
+        patterns: [],
+        typoTolerance: 0,
+      },
+    }),
+    question({
+      id: 4,
+      prompt: "Height of the tower?",
+      type: "numeric",
+      correctNumber: 1.5,
+      tolerance: 0.1,
+      numericRules: {
+        relativeTolerancePercent: null,
+        significantFigures: null,
+        unit: "m",
+        acceptedUnits: [{ label: "cm", factor: 0.01 }],
+      },
+    }),
+  ],
+};
+
+const expectSameQuestions = (imported: ReturnType<typeof importMoodleXml>["questions"]): void => {
+  expect(imported).toHaveLength(4);
+  const [single, multiple, short, numeric] = imported;
+
+  expect(single).toMatchObject({
+    prompt: "Unit of energy?\n\nPick one.",
+    type: "single",
+    points: 2,
+    scoringPolicy: "negative_marking",
+    explanation: "Work and energy share the unit.",
+    options: [
+      { text: "Joule", isCorrect: true },
+      { text: "Newton", isCorrect: false },
+      { text: "Watt", isCorrect: false },
+    ],
+  });
+  expect(multiple).toMatchObject({
+    type: "multiple",
+    scoringPolicy: "right_minus_wrong",
+    options: [
+      { text: "Force", isCorrect: true },
+      { text: "Mass", isCorrect: false },
+      { text: "Velocity", isCorrect: true },
+      { text: "Time", isCorrect: false },
+    ],
+  });
+  expect(short).toMatchObject({
+    type: "short",
+    correctText: "c",
+    shortAnswerRules: { acceptedAnswers: ["c0"], caseSensitive: true },
+  });
+  expect(numeric).toMatchObject({ type: "numeric", correctNumber: 1.5, tolerance: 0.1 });
+};
+
+describe("Moodle XML", () => {
+  test("round-trips the exchangeable question types", async () => {
+    const exported = exportMoodleXml(sampleTest);
+    const imported = importMoodleXml(await exported.blob.text());
+
+    expectSameQuestions(imported.questions);
+    expect(imported.questions[3]?.numericRules).toMatchObject({
+      unit: "m",
+      acceptedUnits: [{ label: "cm", factor: 0.01 }],
+    });
+    expect(imported.notes).toEqual([]);
+  });
+
+  test("notes what it cannot carry instead of dropping it silently", () => {
+    const ordering = question({ id: 5, type: "ordering", options: [option(51, "First"), option(52, "Second")] });
+    const exported = exportMoodleXml({ ...sampleTest, questions: [...sampleTest.questions, ordering] });
+
+    expect(exported.notes).toContain("Question 5: ordering questions are not exported.");
+  });
+
+  test("exports proportional multiple choice with the same right-minus-wrong weights", async () => {
+    const [, multiple] = sampleTest.questions;
+    const proportional = { ...multiple!, scoringPolicy: "proportional" as const };
+    const exported = exportMoodleXml({ ...sampleTest, questions: [proportional] });
+    const imported = importMoodleXml(await exported.blob.text());
+
+    expect(exported.notes).toEqual([
+      "Test settings such as the time limit and passing percent are not part of Moodle XML.",
+    ]);
+    expect(imported.questions[0]?.scoringPolicy).toBe("right_minus_wrong");
+  });
+
+  test("rejects malformed XML", () => {
+    expect(() => importMoodleXml("<quiz><question>")).toThrow("The file is not well-formed XML.");
+  });
+});
+
+describe("QTI 2.1", () => {
+  test("round-trips the exchangeable question types through a package", async () => {
+    const exported = exportQtiPackage(sampleTest);
+    const imported = await importQtiPackage(exported.blob);
+
+    expectSameQuestions(imported.questions);
+  });
+});
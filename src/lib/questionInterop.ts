@@ -0,0 +1,862 @@
+import { createZip, readZip } from "@/lib/zip";
+import type { NumericUnit, ScoringPolicy, TeacherQuestion, TeacherQuestionInput, TeacherTest } from "@/types/domain";
+
+// Moodle XML and QTI 2.1 exchange. Only `single`, `multiple`, `short` and `numeric` questions travel
+// between systems; anything either side cannot express is listed in `notes` instead of being dropped silently.
+
+export interface InteropExport {
+  fileName: string;
+  blob: Blob;
+  notes: string[];
+}
+
+export interface InteropImport {
+  questions: TeacherQuestionInput[];
+  notes: string[];
+}
+
+const isExchangeType = (type: TeacherQuestion["type"]): boolean =>
+  type === "single" || type === "multiple" || type === "short" || type === "numeric";
+
+const QTI_NAMESPACE = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+
+const escapeXml = (text: string): string => text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Builds `<tag attr="value">content</tag>`, or a self-closing tag when there is no content.
+const xmlElement = (tag: string, attributes: Record<string, string | number | boolean>, content?: string): string => {
+  const attrs = Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join("");
+  return content === undefined ? `<${tag}${attrs}/>` : `<${tag}${attrs}>${content}</${tag}>`;
+};
+
+const cdata = (text: string): string => `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+const round = (value: number): number => Math.round(value * 1e7) / 1e7;
+
+const slugify = (title: string): string =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "test";
+
+const labelOf = (index: number): string => `Question ${index + 1}`;
+
+const nearlyEqual = (left: number, right: number): boolean => Math.abs(left - right) < 0.01;
+
+// Notes shared by both formats: features of ours that neither Moodle XML nor QTI carries.
+const collectCommonNotes = (question: TeacherQuestion, label: string, notes: string[]): void => {
+  if (question.imageUrl || question.options.some((option) => option.imageUrl)) {
+    notes.push(`${label}: images are not exported.`);
+  }
+  if (question.hints.length > 0) {
+    notes.push(`${label}: hints are not exported.`);
+  }
+  if (question.type === "short") {
+    const rules = question.shortAnswerRules;
+    if (rules.patterns.length > 0 || rules.typoTolerance > 0) {
+      notes.push(`${label}: answer patterns and typo tolerance are not exported.`);
+    }
+    if (rules.whitespace === "exact") {
+      notes.push(`${label}: exact whitespace matching is not exported.`);
+    }
+  }
+  if (question.type === "numeric" && question.numericRules.significantFigures !== null) {
+    notes.push(`${label}: the significant figures rule is not exported.`);
+  }
+};
+
+const collectTestNotes = (test: TeacherTest, notes: string[]): TeacherQuestion[] => {
+  if (test.pools.length > 0) {
+    notes.push("Question pools are not exported; every question is included.");
+  }
+
+  return test.questions.filter((question, index) => {
+    if (!isExchangeType(question.type)) {
+      notes.push(`${labelOf(index)}: ${question.type} questions are not exported.`);
+      return false;
+    }
+    collectCommonNotes(question, labelOf(index), notes);
+    return true;
+  });
+};
+
+// Moodle XML
+
+const moodleText = (tag: string, text: string): string =>
+  `<${tag} format="markdown"><text>${cdata(text)}</text></${tag}>`;
+
+const moodleAnswer = (fraction: number, text: string, extra = ""): string =>
+  `<answer fraction="${round(fraction)}" format="markdown"><text>${cdata(text)}</text>${extra}</answer>`;
+
+// Moodle adds up answer fractions, so our policies map onto per-answer weights.
+const moodleChoiceFractions = (question: TeacherQuestion, label: string, notes: string[]): number[] => {
+  const correct = question.options.filter((option) => question.correctOptionIds.includes(option.id)).length;
+  const wrong = question.options.length - correct;
+  if (question.type === "multiple" && question.scoringPolicy === "all_or_nothing") {
+    notes.push(`${label}: Moodle scores multiple choice as right minus wrong, not all or nothing.`);
+  }
+
+  return question.options.map((option) => {
+    const isCorrect = question.correctOptionIds.includes(option.id);
+    if (question.type === "single") {
+      if (isCorrect) {
+        return 100;
+      }
+      return question.scoringPolicy === "negative_marking" ? -100 / Math.max(1, question.options.length - 1) : 0;
+    }
+
+    return isCorrect ? 100 / Math.max(1, correct) : wrong > 0 ? -100 / Math.max(1, correct) : 0;
+  });
+};
+
+const moodleQuestion = (question: TeacherQuestion, index: number, notes: string[]): string => {
+  const label = labelOf(index);
+  const head = [
+    `<name><text>${escapeXml(label)}</text></name>`,
+    moodleText("questiontext", question.prompt),
+    moodleText("generalfeedback", question.explanation),
+    `<defaultgrade>${question.points}</defaultgrade>`,
+    "<penalty>0</penalty>",
+    "<hidden>0</hidden>",
+  ];
+
+  if (question.type === "single" || question.type === "multiple") {
+    const fractions = moodleChoiceFractions(question, label, notes);
+    const answers = question.options.map((option, optionIndex) => moodleAnswer(fractions[optionIndex]!, option.text));
+    return [
+      `<question type="multichoice">`,
+      ...head,
+      `<single>${question.type === "single"}</single>`,
+      "<shuffleanswers>true</shuffleanswers>",
+      "<answernumbering>abc</answernumbering>",
+      ...answers,
+      "</question>",
+    ].join("\n");
+  }
+
+  if (question.type === "short") {
+    const accepted = [question.correctText ?? "", ...question.shortAnswerRules.acceptedAnswers].filter(Boolean);
+    return [
+      `<question type="shortanswer">`,
+      ...head,
+      `<usecase>${question.shortAnswerRules.caseSensitive ? 1 : 0}</usecase>`,
+      ...accepted.map((text) => moodleAnswer(100, text)),
+      "</question>",
+    ].join("\n");
+  }
+
+  const rules = question.numericRules;
+  if (rules.relativeTolerancePercent !== null) {
+    notes.push(`${label}: relative tolerance is not supported by Moodle and was left out.`);
+  }
+  // Moodle's multiplier converts the base unit into the listed one, the inverse of our factor.
+  const units = rules.unit
+    ? [
+        `<unit><multiplier>1</multiplier><unit_name>${escapeXml(rules.unit)}</unit_name></unit>`,
+        ...rules.acceptedUnits.map(
+          (unit) =>
+            `<unit><multiplier>${round(1 / unit.factor)}</multiplier>` +
+            `<unit_name>${escapeXml(unit.label)}</unit_name></unit>`
+        ),
+      ]
+    : [];
+
+  return [
+    `<question type="numerical">`,
+    ...head,
+    moodleAnswer(100, String(question.correctNumber ?? 0), `<tolerance>${question.tolerance ?? 0}</tolerance>`),
+    ...(units.length > 0
+      ? [`<units>${units.join("")}</units>`, "<unitgradingtype>1</unitgradingtype>", "<unitpenalty>1</unitpenalty>"]
+      : []),
+    "<showunits>0</showunits>",
+    "<unitsleft>0</unitsleft>",
+    "</question>",
+  ].join("\n");
+};
+
+export const exportMoodleXml = (test: TeacherTest): InteropExport => {
+  const notes: string[] = ["Test settings such as the time limit and passing percent are not part of Moodle XML."];
+  const questions = collectTestNotes(test, notes);
+
+  const xml = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    "<quiz>",
+    `<question type="category"><category><text>${escapeXml(`$course$/top/${test.title}`)}</text></category></question>`,
+    ...questions.map((question) => moodleQuestion(question, test.questions.indexOf(question), notes)),
+    "</quiz>",
+    "",
+  ].join("\n");
+
+  return {
+    fileName: `${slugify(test.title)}.moodle.xml`,
+    blob: new Blob([xml], { type: "application/xml" }),
+    notes,
+  };
+};
+
+// XML reading helpers
+
+const parseXml = (source: string): Document => {
+  const document = new DOMParser().parseFromString(source, "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not well-formed XML.");
+  }
+  return document;
+};
+
+const childrenOf = (parent: Element, name: string): Element[] =>
+  Array.from(parent.children).filter((element) => element.localName === name);
+
+const childOf = (parent: Element | null, name: string): Element | null =>
+  parent ? (childrenOf(parent, name)[0] ?? null) : null;
+
+const descendantsOf = (parent: Element | Document, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS("*", name));
+
+const textOf = (element: Element | null): string => element?.textContent?.trim() ?? "";
+
+// Keeps paragraphs and line breaks of HTML content as Markdown-friendly plain text.
+const htmlToText = (html: string): string => {
+  const document = new DOMParser().parseFromString(html, "text/html");
+  document.querySelectorAll("br").forEach((element) => element.replaceWith("\n"));
+  document.querySelectorAll("p, div, li, h1, h2, h3, h4, h5, h6").forEach((element) => element.append("\n\n"));
+  return (document.body.textContent ?? "")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+const numberOf = (text: string, fallback: number): number => {
+  const value = Number(text);
+  return text.trim() !== "" && Number.isFinite(value) ? value : fallback;
+};
+
+// Moodle XML import
+
+const moodleFormattedText = (element: Element | null, label: string, notes: string[]): string => {
+  const raw = textOf(childOf(element, "text"));
+  const format = element?.getAttribute("format") ?? "html";
+  if (format !== "html") {
+    return raw;
+  }
+
+  if (/<img\b/i.test(raw)) {
+    notes.push(`${label}: embedded images were not imported.`);
+  }
+  return htmlToText(raw);
+};
+
+const importMoodleChoice = (
+  element: Element,
+  base: TeacherQuestionInput,
+  label: string,
+  notes: string[]
+): TeacherQuestionInput => {
+  const single = textOf(childOf(element, "single")) !== "false";
+  const answers = childrenOf(element, "answer").map((answer) => ({
+    text: moodleFormattedText(answer, label, notes),
+    fraction: numberOf(answer.getAttribute("fraction") ?? "0", 0),
+  }));
+
+  if (single) {
+    if (answers.some((answer) => answer.fraction > 0 && answer.fraction < 100)) {
+      notes.push(`${label}: partial-credit answers were imported as wrong answers.`);
+    }
+    const penalties = answers.filter((answer) => answer.fraction < 0);
+    const negative = penalties.length > 0;
+    if (
+      negative &&
+      !penalties.every((answer) => nearlyEqual(answer.fraction, -100 / Math.max(1, answers.length - 1)))
+    ) {
+      notes.push(`${label}: wrong-answer penalties were replaced by standard negative marking.`);
+    }
+    return {
+      ...base,
+      type: "single",
+      options: answers.map((answer) => ({ text: answer.text, isCorrect: answer.fraction >= 100 })),
+      scoringPolicy: negative ? "negative_marking" : "all_or_nothing",
+    };
+  }
+
+  const correct = answers.filter((answer) => answer.fraction > 0);
+  const even = correct.every((answer) => nearlyEqual(answer.fraction, 100 / correct.length));
+  const symmetric = answers.every(
+    (answer) => answer.fraction > 0 || nearlyEqual(answer.fraction, -100 / correct.length)
+  );
+  if (!even || !symmetric) {
+    notes.push(`${label}: answer weights were simplified to right-minus-wrong scoring.`);
+  }
+
+  return {
+    ...base,
+    type: "multiple",
+    options: answers.map((answer) => ({ text: answer.text, isCorrect: answer.fraction > 0 })),
+    scoringPolicy: "right_minus_wrong",
+  };
+};
+
+const importMoodleQuestion = (element: Element, index: number, notes: string[]): TeacherQuestionInput | null => {
+  const type = element.getAttribute("type") ?? "";
+  if (type === "category") {
+    return null;
+  }
+
+  const label = textOf(childOf(childOf(element, "name"), "text")) || labelOf(index);
+  const base: TeacherQuestionInput = {
+    prompt: moodleFormattedText(childOf(element, "questiontext"), label, notes),
+    type: "single",
+    points: numberOf(textOf(childOf(element, "defaultgrade")), 1),
+    options: [],
+    explanation: moodleFormattedText(childOf(element, "generalfeedback"), label, notes),
+  };
+
+  if (type === "multichoice") {
+    return importMoodleChoice(element, base, label, notes);
+  }
+
+  if (type === "truefalse") {
+    const answers = childrenOf(element, "answer");
+    const trueAnswer = answers.find((answer) => textOf(childOf(answer, "text")).toLowerCase() === "true");
+    const isTrue = numberOf(trueAnswer?.getAttribute("fraction") ?? "0", 0) > 0;
+    return {
+      ...base,
+      options: [
+        { text: "True", isCorrect: isTrue },
+        { text: "False", isCorrect: !isTrue },
+      ],
+    };
+  }
+
+  if (type === "shortanswer") {
+    const answers = childrenOf(element, "answer");
+    const accepted = answers
+      .filter((answer) => numberOf(answer.getAttribute("fraction") ?? "0", 0) >= 100)
+      .map((answer) => textOf(childOf(answer, "text")));
+    if (accepted.length < answers.length) {
+      notes.push(`${label}: answers worth partial credit were left out.`);
+    }
+    if (accepted.some((answer) => answer.includes("*"))) {
+      notes.push(`${label}: Moodle * wildcards are kept as literal text.`);
+    }
+    const [correctText = "", ...rest] = accepted;
+    return {
+      ...base,
+      type: "short",
+      correctText,
+      shortAnswerRules: {
+        acceptedAnswers: rest,
+        caseSensitive: textOf(childOf(element, "usecase")) === "1",
+        whitespace: "ignore",
+        patterns: [],
+        typoTolerance: 0,
+      },
+    };
+  }
+
+  if (type === "numerical") {
+    const answers = childrenOf(element, "answer");
+    const answer =
+      answers.find((candidate) => numberOf(candidate.getAttribute("fraction") ?? "0", 0) >= 100) ?? answers[0];
+    if (answers.length > 1) {
+      notes.push(`${label}: only the full-credit numeric answer was imported.`);
+    }
+
+    const units = descendantsOf(element, "unit").map((unit) => ({
+      label: textOf(childOf(unit, "unit_name")),
+      multiplier: numberOf(textOf(childOf(unit, "multiplier")), 1),
+    }));
+    const baseUnit = units.find((unit) => unit.multiplier === 1 && unit.label);
+    const acceptedUnits: NumericUnit[] = units
+      .filter((unit) => unit !== baseUnit && unit.label && unit.multiplier > 0)
+      .map((unit) => ({ label: unit.label, factor: round(1 / unit.multiplier) }));
+
+    return {
+      ...base,
+      type: "numeric",
+      correctNumber: numberOf(textOf(childOf(answer ?? null, "text")), 0),
+      tolerance: Math.abs(numberOf(textOf(childOf(answer ?? null, "tolerance")), 0)),
+      numericRules: {
+        relativeTolerancePercent: null,
+        significantFigures: null,
+        unit: baseUnit?.label ?? null,
+        acceptedUnits: baseUnit ? acceptedUnits : [],
+      },
+    };
+  }
+
+  notes.push(`${label}: Moodle "${type}" questions are not supported and were skipped.`);
+  return null;
+};
+
+export const importMoodleXml = (source: string): InteropImport => {
+  const document = parseXml(source);
+  const notes: string[] = [];
+  const questions = descendantsOf(document, "question")
+    .map((element, index) => importMoodleQuestion(element, index, notes))
+    .filter((question): question is TeacherQuestionInput => question !== null);
+
+  return { questions, notes };
+};
+
+// QTI 2.1 export
+
+const qtiParagraphs = (text: string): string =>
+  text
+    .split(/\n{2,}/)
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) => `<p>${paragraph.split("\n").map(escapeXml).join("<br/>")}</p>`)
+    .join("");
+
+const qtiOutcomes = (points: number, withFeedback: boolean): string =>
+  [
+    `<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">`,
+    "<defaultValue><value>0</value></defaultValue></outcomeDeclaration>",
+    `<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">`,
+    `<defaultValue><value>${points}</value></defaultValue></outcomeDeclaration>`,
+    withFeedback ? `<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>` : "",
+  ].join("");
+
+const qtiSetScore = (points: number): string =>
+  `<setOutcomeValue identifier="SCORE"><baseValue baseType="float">${points}</baseValue></setOutcomeValue>`;
+
+const QTI_MAP_SCORE = `<setOutcomeValue identifier="SCORE"><mapResponse identifier="RESPONSE"/></setOutcomeValue>`;
+
+const QTI_RESPONSE_AND_CORRECT = `<variable identifier="RESPONSE"/><correct identifier="RESPONSE"/>`;
+
+// Awards the full points when `condition` holds, e.g. a <match> of the response against the correct one.
+const qtiScoreIf = (condition: string, points: number): string =>
+  `<responseCondition><responseIf>${condition}${qtiSetScore(points)}</responseIf></responseCondition>`;
+
+const qtiResponseDeclaration = (cardinality: string, baseType: string, content: string): string =>
+  xmlElement("responseDeclaration", { identifier: "RESPONSE", cardinality, baseType }, content);
+
+// Per-choice points for the policies QTI can express with a mapping; null means plain all-or-nothing.
+const qtiChoiceMapping = (question: TeacherQuestion): Map<number, number> | null => {
+  const correct = question.correctOptionIds.length;
+  if (question.type === "single" && question.scoringPolicy === "negative_marking") {
+    const penalty = -question.points / Math.max(1, question.options.length - 1);
+    return new Map(
+      question.options.map((option) => [
+        option.id,
+        question.correctOptionIds.includes(option.id) ? question.points : round(penalty),
+      ])
+    );
+  }
+
+  // Proportional and right-minus-wrong score alike, so both export as the same mapping.
+  if (
+    question.type === "multiple" &&
+    (question.scoringPolicy === "proportional" || question.scoringPolicy === "right_minus_wrong") &&
+    correct > 0
+  ) {
+    const share = round(question.points / correct);
+    return new Map(
+      question.options.map((option) => [option.id, question.correctOptionIds.includes(option.id) ? share : -share])
+    );
+  }
+
+  return null;
+};
+
+const qtiChoiceParts = (question: TeacherQuestion, label: string, notes: string[]) => {
+  const choiceId = (optionIndex: number): string => `choice-${optionIndex + 1}`;
+  const correct = question.options
+    .map((option, optionIndex) => (question.correctOptionIds.includes(option.id) ? choiceId(optionIndex) : null))
+    .filter((id): id is string => id !== null);
+  const mapping = qtiChoiceMapping(question);
+
+  if (question.type === "multiple" && mapping === null && question.scoringPolicy !== "all_or_nothing") {
+    notes.push(`${label}: ${question.scoringPolicy} scoring is exported as all-or-nothing.`);
+  }
+
+  const lowerBound = question.type === "multiple" ? 0 : -question.points;
+  const entries = question.options.map(
+    (option, optionIndex) => `<mapEntry mapKey="${choiceId(optionIndex)}" mappedValue="${mapping?.get(option.id)}"/>`
+  );
+  const choices = question.options.map(
+    (option, optionIndex) =>
+      `<simpleChoice identifier="${choiceId(optionIndex)}">${escapeXml(option.text)}</simpleChoice>`
+  );
+
+  return {
+    declaration: qtiResponseDeclaration(
+      question.type === "single" ? "single" : "multiple",
+      "identifier",
+      `<correctResponse>${correct.map((id) => `<value>${id}</value>`).join("")}</correctResponse>` +
+        (mapping
+          ? xmlElement("mapping", { defaultValue: 0, lowerBound, upperBound: question.points }, entries.join(""))
+          : "")
+    ),
+    interaction: xmlElement(
+      "choiceInteraction",
+      { responseIdentifier: "RESPONSE", shuffle: true, maxChoices: question.type === "single" ? 1 : 0 },
+      choices.join("")
+    ),
+    processing: mapping ? QTI_MAP_SCORE : qtiScoreIf(`<match>${QTI_RESPONSE_AND_CORRECT}</match>`, question.points),
+  };
+};
+
+const qtiShortParts = (question: TeacherQuestion) => {
+  const rules = question.shortAnswerRules;
+  const accepted = [question.correctText ?? "", ...rules.acceptedAnswers].filter(Boolean);
+  const entries = accepted.map(
+    (text) =>
+      `<mapEntry mapKey="${escapeXml(text)}" mappedValue="${question.points}" caseSensitive="${rules.caseSensitive}"/>`
+  );
+
+  return {
+    declaration: qtiResponseDeclaration(
+      "single",
+      "string",
+      `<correctResponse><value>${escapeXml(accepted[0] ?? "")}</value></correctResponse>` +
+        `<mapping defaultValue="0">${entries.join("")}</mapping>`
+    ),
+    interaction: `<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="30"/></p>`,
+    processing: QTI_MAP_SCORE,
+  };
+};
+
+const qtiNumericParts = (question: TeacherQuestion, label: string, notes: string[]) => {
+  const rules = question.numericRules;
+  const absolute = question.tolerance ?? 0;
+  const relative = rules.relativeTolerancePercent;
+  if (rules.unit) {
+    notes.push(`${label}: units are not supported by QTI and were left out.`);
+  }
+  if (relative !== null && absolute > 0) {
+    notes.push(`${label}: QTI allows one tolerance; the absolute tolerance was kept.`);
+  }
+
+  const comparison =
+    relative !== null && absolute === 0
+      ? `toleranceMode="relative" tolerance="${relative} ${relative}"`
+      : absolute > 0
+        ? `toleranceMode="absolute" tolerance="${absolute} ${absolute}"`
+        : `toleranceMode="exact"`;
+
+  return {
+    declaration: qtiResponseDeclaration(
+      "single",
+      "float",
+      `<correctResponse><value>${question.correctNumber ?? 0}</value></correctResponse>`
+    ),
+    interaction: `<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="12"/></p>`,
+    processing: qtiScoreIf(`<equal ${comparison}>${QTI_RESPONSE_AND_CORRECT}</equal>`, question.points),
+  };
+};
+
+const qtiItem = (question: TeacherQuestion, identifier: string, label: string, notes: string[]): string => {
+  const parts =
+    question.type === "short"
+      ? qtiShortParts(question)
+      : question.type === "numeric"
+        ? qtiNumericParts(question, label, notes)
+        : qtiChoiceParts(question, label, notes);
+  const hasFeedback = question.explanation.trim().length > 0;
+  const feedbackRule = xmlElement(
+    "setOutcomeValue",
+    { identifier: "FEEDBACK" },
+    xmlElement("baseValue", { baseType: "identifier" }, "EXPLANATION")
+  );
+  const feedback = xmlElement(
+    "modalFeedback",
+    { outcomeIdentifier: "FEEDBACK", identifier: "EXPLANATION", showHide: "show" },
+    qtiParagraphs(question.explanation)
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" identifier="${identifier}" title="${escapeXml(label)}"` +
+      ` adaptive="false" timeDependent="false">`,
+    parts.declaration,
+    qtiOutcomes(question.points, hasFeedback),
+    `<itemBody>${qtiParagraphs(question.prompt)}${parts.interaction}</itemBody>`,
+    `<responseProcessing>${parts.processing}${hasFeedback ? feedbackRule : ""}</responseProcessing>`,
+    hasFeedback ? feedback : "",
+    "</assessmentItem>",
+    "",
+  ].join("\n");
+};
+
+export const exportQtiPackage = (test: TeacherTest): InteropExport => {
+  const notes: string[] = [];
+  if (test.passingPercent > 0) {
+    notes.push("The passing percent is not part of QTI 2.1 and was left out.");
+  }
+  const questions = collectTestNotes(test, notes);
+  const testId = `test-${test.id}`;
+  const items = questions.map((question) => {
+    const index = test.questions.indexOf(question);
+    const identifier = `item-${index + 1}`;
+    return { identifier, href: `items/${identifier}.xml`, xml: qtiItem(question, identifier, labelOf(index), notes) };
+  });
+
+  const assessmentTest = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<assessmentTest xmlns="${QTI_NAMESPACE}" identifier="${testId}" title="${escapeXml(test.title)}">`,
+    test.timeLimitSec > 0 ? `<timeLimits maxTime="${test.timeLimitSec}"/>` : "",
+    `<testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">`,
+    `<assessmentSection identifier="section-1" title="${escapeXml(test.title)}" visible="true">`,
+    test.shuffleQuestions ? `<ordering shuffle="true"/>` : "",
+    ...items.map((item) => `<assessmentItemRef identifier="${item.identifier}" href="${item.href}"/>`),
+    "</assessmentSection></testPart></assessmentTest>",
+    "",
+  ].join("\n");
+
+  const manifest = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest-${testId}">`,
+    "<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>",
+    "<organizations/><resources>",
+    `<resource identifier="${testId}" type="imsqti_test_xmlv2p1" href="assessmentTest.xml">`,
+    `<file href="assessmentTest.xml"/>`,
+    ...items.map((item) => `<dependency identifierref="${item.identifier}"/>`),
+    "</resource>",
+    ...items.map(
+      (item) =>
+        `<resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}">` +
+        `<file href="${item.href}"/></resource>`
+    ),
+    "</resources></manifest>",
+    "",
+  ].join("\n");
+
+  return {
+    fileName: `${slugify(test.title)}.qti.zip`,
+    blob: createZip([
+      { name: "imsmanifest.xml", content: manifest },
+      { name: "assessmentTest.xml", content: assessmentTest },
+      ...items.map((item) => ({ name: item.href, content: item.xml })),
+    ]),
+    notes,
+  };
+};
+
+// QTI 2.1 import
+
+const QTI_INTERACTIONS = [
+  "choiceInteraction",
+  "textEntryInteraction",
+  "extendedTextInteraction",
+  "orderInteraction",
+  "matchInteraction",
+  "associateInteraction",
+  "gapMatchInteraction",
+  "inlineChoiceInteraction",
+  "hotspotInteraction",
+  "sliderInteraction",
+  "uploadInteraction",
+];
+
+// Item body text without the interactions; an inline text entry leaves a blank in its sentence.
+const qtiPromptText = (body: Element): string => {
+  const clone = body.cloneNode(true) as Element;
+  const parts: string[] = [];
+
+  for (const name of QTI_INTERACTIONS) {
+    for (const interaction of descendantsOf(clone, name)) {
+      const prompt = textOf(childOf(interaction, "prompt"));
+      if (prompt) {
+        parts.push(prompt);
+      }
+      const parentText = (interaction.parentElement?.textContent ?? "").replace(interaction.textContent ?? "", "");
+      interaction.replaceWith(name === "textEntryInteraction" && parentText.trim() ? "_____" : "");
+    }
+  }
+
+  return [htmlToText(new XMLSerializer().serializeToString(clone)), ...parts].filter(Boolean).join("\n\n");
+};
+
+const qtiCorrectValues = (declaration: Element | null): string[] => {
+  const correct = childOf(declaration, "correctResponse");
+  return correct ? childrenOf(correct, "value").map((value) => textOf(value)) : [];
+};
+
+const qtiMapEntries = (declaration: Element | null): Array<{ key: string; value: number; caseSensitive: boolean }> =>
+  (declaration ? descendantsOf(declaration, "mapEntry") : []).map((entry) => ({
+    key: entry.getAttribute("mapKey") ?? "",
+    value: numberOf(entry.getAttribute("mappedValue") ?? "0", 0),
+    caseSensitive: entry.getAttribute("caseSensitive") === "true",
+  }));
+
+const qtiPoints = (item: Element, label: string, notes: string[]): number => {
+  const maxScore = descendantsOf(item, "outcomeDeclaration").find(
+    (outcome) => outcome.getAttribute("identifier") === "MAXSCORE"
+  );
+  const declared = textOf(childOf(childOf(maxScore ?? null, "defaultValue"), "value"));
+  if (declared) {
+    return numberOf(declared, 1);
+  }
+
+  const scored = descendantsOf(item, "setOutcomeValue")
+    .filter((rule) => rule.getAttribute("identifier") === "SCORE")
+    .map((rule) => numberOf(textOf(childOf(rule, "baseValue")), 0))
+    .find((value) => value > 0);
+  if (scored !== undefined) {
+    return scored;
+  }
+
+  const mapping = descendantsOf(item, "mapping")[0];
+  const mapped = mapping
+    ? numberOf(
+        mapping.getAttribute("upperBound") ?? "",
+        Math.max(0, ...qtiMapEntries(mapping.parentElement).map((entry) => entry.value))
+      )
+    : 0;
+  if (mapped > 0) {
+    return mapped;
+  }
+
+  notes.push(`${label}: no maximum score found; imported as 1 point.`);
+  return 1;
+};
+
+const importQtiItem = (source: string, fallbackLabel: string, notes: string[]): TeacherQuestionInput | null => {
+  const item = parseXml(source).documentElement;
+  if (item.localName !== "assessmentItem") {
+    return null;
+  }
+
+  const label = item.getAttribute("title") || fallbackLabel;
+  const body = descendantsOf(item, "itemBody")[0];
+  const interactions = body ? QTI_INTERACTIONS.flatMap((name) => descendantsOf(body, name)) : [];
+  const interaction = interactions[0];
+  if (!body || !interaction) {
+    notes.push(`${label}: no interaction found; skipped.`);
+    return null;
+  }
+  if (interactions.length > 1) {
+    notes.push(`${label}: only the first of ${interactions.length} interactions was imported.`);
+  }
+
+  const responseId = interaction.getAttribute("responseIdentifier");
+  const declaration =
+    descendantsOf(item, "responseDeclaration").find((element) => element.getAttribute("identifier") === responseId) ??
+    null;
+  const feedback = descendantsOf(item, "modalFeedback")
+    .map((element) => htmlToText(new XMLSerializer().serializeToString(element)))
+    .join("\n\n");
+  const base: TeacherQuestionInput = {
+    prompt: qtiPromptText(body),
+    type: "single",
+    points: qtiPoints(item, label, notes),
+    options: [],
+    explanation: feedback,
+  };
+  const correct = qtiCorrectValues(declaration);
+  const mapping = qtiMapEntries(declaration);
+
+  if (interaction.localName === "choiceInteraction") {
+    const single = interaction.getAttribute("maxChoices") === "1";
+    const correctIds =
+      correct.length > 0 ? correct : mapping.filter((entry) => entry.value > 0).map((entry) => entry.key);
+    // Negative per-choice scores are how our own export writes negative marking and right-minus-wrong.
+    const penalised = mapping.some((entry) => entry.value < 0);
+    const scoringPolicy: ScoringPolicy = !penalised
+      ? "all_or_nothing"
+      : single
+        ? "negative_marking"
+        : "right_minus_wrong";
+
+    return {
+      ...base,
+      type: single ? "single" : "multiple",
+      options: descendantsOf(interaction, "simpleChoice").map((choice) => ({
+        text: htmlToText(new XMLSerializer().serializeToString(choice)),
+        isCorrect: correctIds.includes(choice.getAttribute("identifier") ?? ""),
+      })),
+      scoringPolicy,
+    };
+  }
+
+  if (interaction.localName === "textEntryInteraction") {
+    const baseType = declaration?.getAttribute("baseType") ?? "string";
+    if (baseType === "float" || baseType === "integer") {
+      const equal = descendantsOf(item, "equal")[0];
+      const mode = equal?.getAttribute("toleranceMode") ?? "exact";
+      const tolerance = numberOf((equal?.getAttribute("tolerance") ?? "0").split(/\s+/)[0] ?? "0", 0);
+      return {
+        ...base,
+        type: "numeric",
+        correctNumber: numberOf(correct[0] ?? mapping[0]?.key ?? "", 0),
+        tolerance: mode === "absolute" ? tolerance : 0,
+        numericRules: {
+          relativeTolerancePercent: mode === "relative" ? tolerance : null,
+          significantFigures: null,
+          unit: null,
+          acceptedUnits: [],
+        },
+      };
+    }
+
+    const accepted = [...correct, ...mapping.filter((entry) => entry.value > 0).map((entry) => entry.key)].filter(
+      (text, index, all) => text && all.indexOf(text) === index
+    );
+    const [correctText = "", ...rest] = accepted;
+    return {
+      ...base,
+      type: "short",
+      correctText,
+      shortAnswerRules: {
+        acceptedAnswers: rest,
+        caseSensitive: mapping.some((entry) => entry.caseSensitive),
+        whitespace: "ignore",
+        patterns: [],
+        typoTolerance: 0,
+      },
+    };
+  }
+
+  notes.push(`${label}: ${interaction.localName} is not supported and was skipped.`);
+  return null;
+};
+
+const decodeText = (data: Uint8Array): string => new TextDecoder().decode(data);
+
+export const importQtiPackage = async (file: Blob): Promise<InteropImport> => {
+  const entries = await readZip(file);
+  const files = new Map<string, Uint8Array>(entries.map((entry) => [entry.name, entry.data]));
+  const notes: string[] = [];
+
+  // The manifest fixes the item order; without one, every item file is read in name order.
+  let hrefs = [...files.keys()].filter((name) => name.endsWith(".xml") && name !== "imsmanifest.xml").sort();
+  const manifest = files.get("imsmanifest.xml");
+  if (manifest) {
+    hrefs = descendantsOf(parseXml(decodeText(manifest)), "resource")
+      .filter((resource) => (resource.getAttribute("type") ?? "").startsWith("imsqti_item"))
+      .map((resource) => resource.getAttribute("href") ?? "")
+      .filter((href) => files.has(href));
+  }
+
+  const questions: TeacherQuestionInput[] = [];
+  hrefs.forEach((href, index) => {
+    const question = importQtiItem(decodeText(files.get(href)!), labelOf(index), notes);
+    if (question) {
+      questions.push(question);
+    }
+  });
+
+  return { questions, notes };
+};
+
+// Picks the reader from the file itself: a ZIP is a QTI package, XML is Moodle or a single QTI item.
+export const importQuestionFile = async (file: File): Promise<InteropImport> => {
+  if (file.name.toLowerCase().endsWith(".zip")) {
+    return importQtiPackage(file);
+  }
+
+  const source = await file.text();
+  const root = parseXml(source).documentElement;
+  if (root.localName === "quiz") {
+    return importMoodleXml(source);
+  }
+
+  if (root.localName === "assessmentItem") {
+    const notes: string[] = [];
+    const question = importQtiItem(source, labelOf(0), notes);
+    return { questions: question ? [question] : [], notes };
+  }
+
+  throw new Error("Expected Moodle XML (<quiz>) or a QTI 2.1 item or package.");
+};
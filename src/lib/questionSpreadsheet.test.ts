@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { buildQuestionTemplate, parseQuestionSheet } from "@/lib/questionSpreadsheet";
+import { parseCsv } from "@/lib/spreadsheet";
+
+describe("parseQuestionSheet", () => {
+  test("accepts every row of the downloadable template", () => {
+    const result = parseQuestionSheet(parseCsv(buildQuestionTemplate()));
+
+    expect(result.errors).toEqual([]);
+    expect(result.rows.map((row) => row.errors)).toEqual([[], [], [], []]);
+    expect(result.rows.map((row) => row.question?.type)).toEqual(["single", "multiple", "short", "numeric"]);
+    expect(result.rows[1]?.question).toMatchObject({
+      points: 2,
+      options: [
+        { text: "2", isCorrect: true },
+        { text: "4", isCorrect: false },
+        { text: "5", isCorrect: true },
+        { text: "9", isCorrect: false },
+      ],
+    });
+    expect(result.rows[2]?.question).toMatchObject({
+      correctText: "Paris",
+      shortAnswerRules: { acceptedAnswers: ["Paris, France"] },
+    });
+    expect(result.rows[3]?.question).toMatchObject({ correctNumber: 9.81, tolerance: 0.05 });
+  });
+
+  test("matches columns by header name in any order and skips blank rows", () => {
+    const result = parseQuestionSheet([
+      ["Correct", "notes", "Prompt", "TYPE", "option_2", "option_1"],
+      ["2", "mine", "Unit of energy?", "Single", "Joule", "Newton"],
+      ["", "", "", "", "", ""],
+    ]);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0]).toMatchObject({
+      row: 2,
+      errors: [],
+      question: {
+        prompt: "Unit of energy?",
+        type: "single",
+        points: 1,
+        difficulty: "medium",
+        options: [
+          { text: "Newton", isCorrect: false },
+          { text: "Joule", isCorrect: true },
+        ],
+      },
+    });
+  });
+
+  test("lists every problem of a row and leaves its question out", () => {
+    const result = parseQuestionSheet([
+      ["type", "prompt", "points", "option_1", "option_2", "option_3", "correct", "tolerance", "difficulty"],
+      ["essay", "", "0", "", "", "", "", "", "extreme"],
+      ["single", "Pick one", "", "A", "", "C", "2|3", "1", ""],
+      ["numeric", "How far?", "", "", "", "", "1,234", "-1", ""],
+    ]);
+
+    expect(result.rows.map((row) => [row.row, row.question, row.errors])).toEqual([
+      [
+        2,
+        null,
+        [
+          'Type "essay" must be one of single, multiple, short, numeric.',
+          "Prompt is empty.",
+          'Points "0" must be a positive number.',
+          'Difficulty "extreme" must be easy, medium or hard.',
+          "Correct answer is missing.",
+        ],
+      ],
+      [
+        3,
+        null,
+        [
+          'Correct option "2" does not name a filled option column.',
+          "A single choice question has exactly one correct option.",
+          "Tolerance only applies to numeric questions.",
+        ],
+      ],
+      [4, null, ['Correct answer "1,234" is not a number.', 'Tolerance "-1" must be a number of 0 or more.']],
+    ]);
+  });
+
+  test("reports missing required columns and empty sheets", () => {
+    expect(parseQuestionSheet([["type", "prompt"]]).errors).toEqual(["Missing column: correct."]);
+    expect(parseQuestionSheet([["points"]]).errors).toEqual(["Missing columns: type, prompt, correct."]);
+    expect(parseQuestionSheet([["type", "prompt", "correct"]]).errors).toEqual(["The sheet has no question rows."]);
+  });
+});
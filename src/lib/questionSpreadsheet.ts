@@ -0,0 +1,174 @@
+import { parseNumericInput } from "@/lib/numeric";
+import { toCsv } from "@/lib/spreadsheet";
+import type { QuestionDifficulty, TeacherQuestionInput } from "@/types/domain";
+
+// One question per spreadsheet row. Columns are matched by header name, so teachers may reorder them
+// or add their own notes columns; only `type`, `prompt` and `correct` are required.
+
+export const MAX_SHEET_OPTIONS = 6;
+
+const OPTION_COLUMNS = Array.from({ length: MAX_SHEET_OPTIONS }, (_, index) => `option_${index + 1}`);
+
+export const QUESTION_SHEET_COLUMNS = [
+  "type",
+  "prompt",
+  "points",
+  ...OPTION_COLUMNS,
+  "correct",
+  "tolerance",
+  "difficulty",
+  "explanation",
+];
+
+const REQUIRED_COLUMNS = ["type", "prompt", "correct"];
+
+const SHEET_TYPES = ["single", "multiple", "short", "numeric"] as const;
+
+const DIFFICULTIES: QuestionDifficulty[] = ["easy", "medium", "hard"];
+
+export interface SheetRow {
+  // Spreadsheet row number, counting the header as row 1.
+  row: number;
+  prompt: string;
+  question: TeacherQuestionInput | null;
+  errors: string[];
+}
+
+export interface SheetParseResult {
+  rows: SheetRow[];
+  // Problems with the sheet as a whole, such as a missing required column.
+  errors: string[];
+}
+
+export const buildQuestionTemplate = (): string =>
+  toCsv([
+    QUESTION_SHEET_COLUMNS,
+    ["single", "What is 2 + 2?", "1", "3", "4", "5", "", "", "", "2", "", "easy", "Two pairs make four."],
+    ["multiple", "Pick the prime numbers.", "2", "2", "4", "5", "9", "", "", "1|3", "", "medium", ""],
+    ["short", "Capital of France?", "1", "", "", "", "", "", "", "Paris|Paris, France", "", "easy", ""],
+    ["numeric", "g at sea level in m/s²", "1", "", "", "", "", "", "", "9.81", "0.05", "medium", ""],
+  ]);
+
+// Values listed in one cell are separated by "|", e.g. "1|3" or "Paris|Paris, France".
+const splitList = (value: string): string[] =>
+  value
+    .split("|")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+const validateRow = (cells: Record<string, string>, row: number): SheetRow => {
+  const errors: string[] = [];
+  const rawType = cells.type!.toLowerCase();
+  const prompt = cells.prompt!;
+  const type = SHEET_TYPES.find((candidate) => candidate === rawType);
+
+  if (!type) {
+    errors.push(`Type "${cells.type}" must be one of ${SHEET_TYPES.join(", ")}.`);
+  }
+  if (!prompt) {
+    errors.push("Prompt is empty.");
+  }
+
+  const points = cells.points ? parseNumericInput(cells.points) : 1;
+  if (points === null || points <= 0) {
+    errors.push(`Points "${cells.points}" must be a positive number.`);
+  }
+
+  const difficulty = (cells.difficulty || "medium").toLowerCase() as QuestionDifficulty;
+  if (!DIFFICULTIES.includes(difficulty)) {
+    errors.push(`Difficulty "${cells.difficulty}" must be easy, medium or hard.`);
+  }
+
+  if (!cells.correct) {
+    errors.push("Correct answer is missing.");
+  }
+
+  const base: TeacherQuestionInput = {
+    prompt,
+    type: type ?? "single",
+    points: points ?? 1,
+    options: [],
+    difficulty,
+    explanation: cells.explanation ?? "",
+  };
+  let question: TeacherQuestionInput | null = null;
+
+  if (type === "single" || type === "multiple") {
+    const options = OPTION_COLUMNS.map((column) => cells[column] ?? "");
+    const filled = options.filter((option) => option.length > 0).length;
+    const correct = splitList(cells.correct!).map((item) => Number(item));
+
+    if (filled < 2) {
+      errors.push("Add at least 2 options.");
+    }
+    if (cells.correct && correct.length === 0) {
+      errors.push('Name the correct option by its number, e.g. "2" or "1|3".');
+    }
+    for (const [index, number] of correct.entries()) {
+      if (!Number.isInteger(number) || !options[number - 1]) {
+        errors.push(`Correct option "${splitList(cells.correct!)[index]}" does not name a filled option column.`);
+      }
+    }
+    if (type === "single" && correct.length > 1) {
+      errors.push("A single choice question has exactly one correct option.");
+    }
+
+    // Option numbers refer to columns, so gaps are removed only after the correct ones are resolved.
+    question = {
+      ...base,
+      options: options
+        .map((text, index) => ({ text, isCorrect: correct.includes(index + 1) }))
+        .filter((option) => option.text.length > 0),
+    };
+  }
+
+  if (type === "short") {
+    const [correctText = "", ...acceptedAnswers] = splitList(cells.correct!);
+    question = {
+      ...base,
+      correctText,
+      shortAnswerRules: { acceptedAnswers, caseSensitive: false, whitespace: "ignore", patterns: [], typoTolerance: 0 },
+    };
+  }
+
+  if (type === "numeric") {
+    const correctNumber = parseNumericInput(cells.correct!);
+    const tolerance = cells.tolerance ? parseNumericInput(cells.tolerance) : 0;
+    if (cells.correct && correctNumber === null) {
+      errors.push(`Correct answer "${cells.correct}" is not a number.`);
+    }
+    if (tolerance === null || tolerance < 0) {
+      errors.push(`Tolerance "${cells.tolerance}" must be a number of 0 or more.`);
+    }
+    question = { ...base, correctNumber, tolerance: tolerance ?? 0 };
+  } else if (cells.tolerance) {
+    errors.push("Tolerance only applies to numeric questions.");
+  }
+
+  return { row, prompt, question: errors.length === 0 ? question : null, errors };
+};
+
+export const parseQuestionSheet = (table: string[][]): SheetParseResult => {
+  const [header = [], ...body] = table;
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column${missing.length === 1 ? "" : "s"}: ${missing.join(", ")}.`] };
+  }
+
+  const rows: SheetRow[] = [];
+  body.forEach((cells, index) => {
+    if (cells.every((cell) => !cell)) {
+      return;
+    }
+
+    const record: Record<string, string> = {};
+    for (const column of QUESTION_SHEET_COLUMNS) {
+      const position = columns.indexOf(column);
+      record[column] = position === -1 ? "" : (cells[position] ?? "").trim();
+    }
+    rows.push(validateRow(record, index + 2));
+  });
+
+  return { rows, errors: rows.length === 0 ? ["The sheet has no question rows."] : [] };
+};
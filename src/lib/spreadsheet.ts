@@ -0,0 +1,157 @@
+import { readZip } from "@/lib/zip";
+
+// Reads the first sheet of a CSV or XLSX file into rows of trimmed cell text. Formulas come through as
+// their cached values; styling, dates and further sheets are ignored.
+
+// Excel in many locales saves "CSV" with semicolons, so the delimiter is taken from the header line.
+const detectDelimiter = (text: string): string => {
+  const header = text.slice(0, text.indexOf("\n") === -1 ? text.length : text.indexOf("\n"));
+  return (header.match(/;/g)?.length ?? 0) > (header.match(/,/g)?.length ?? 0) ? ";" : ",";
+};
+
+export const parseCsv = (source: string): string[][] => {
+  const text = source.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]!;
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const escapeCsvCell = (value: string): string => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (rows: string[][]): string =>
+  `${rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n")}\r\n`;
+
+const columnIndex = (reference: string): number => {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? "A";
+  return [...letters].reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const xmlEntries = (document: Document, name: string): Element[] =>
+  Array.from(document.getElementsByTagNameNS("*", name));
+
+const parseXmlPart = (files: Map<string, Uint8Array>, path: string): Document | null => {
+  const data = files.get(path);
+  return data ? new DOMParser().parseFromString(new TextDecoder().decode(data), "application/xml") : null;
+};
+
+// Workbook relationships name the first sheet's part; "xl/worksheets/sheet1.xml" is only the usual default.
+const firstSheetPath = (files: Map<string, Uint8Array>): string => {
+  const workbook = parseXmlPart(files, "xl/workbook.xml");
+  const relations = parseXmlPart(files, "xl/_rels/workbook.xml.rels");
+  const sheetId = workbook ? xmlEntries(workbook, "sheet")[0]?.getAttribute("r:id") : null;
+  const target = relations
+    ? xmlEntries(relations, "Relationship")
+        .find((relation) => relation.getAttribute("Id") === sheetId)
+        ?.getAttribute("Target")
+    : null;
+
+  if (!target) {
+    return "xl/worksheets/sheet1.xml";
+  }
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+};
+
+const cellText = (cell: Element, shared: string[]): string => {
+  const type = cell.getAttribute("t");
+  const value = cell.getElementsByTagNameNS("*", "v")[0]?.textContent ?? "";
+
+  if (type === "s") {
+    return shared[Number(value)] ?? "";
+  }
+  if (type === "inlineStr") {
+    return Array.from(cell.getElementsByTagNameNS("*", "t"))
+      .map((element) => element.textContent ?? "")
+      .join("");
+  }
+  if (type === "b") {
+    return value === "1" ? "TRUE" : "FALSE";
+  }
+  return value;
+};
+
+const parseXlsx = async (file: Blob): Promise<string[][]> => {
+  const files = new Map<string, Uint8Array>((await readZip(file)).map((entry) => [entry.name, entry.data]));
+  const sheet = parseXmlPart(files, firstSheetPath(files));
+  if (!sheet) {
+    throw new Error("The workbook has no readable worksheet.");
+  }
+
+  const sharedDocument = parseXmlPart(files, "xl/sharedStrings.xml");
+  const shared = sharedDocument
+    ? xmlEntries(sharedDocument, "si").map((item) =>
+        Array.from(item.getElementsByTagNameNS("*", "t"))
+          .map((text) => text.textContent ?? "")
+          .join("")
+      )
+    : [];
+
+  const rows: string[][] = [];
+  for (const rowElement of xmlEntries(sheet, "row")) {
+    const rowNumber = Number(rowElement.getAttribute("r") ?? rows.length + 1);
+    const row: string[] = [];
+
+    for (const cell of Array.from(rowElement.getElementsByTagNameNS("*", "c"))) {
+      const reference = cell.getAttribute("r");
+      row[reference ? columnIndex(reference) : row.length] = cellText(cell, shared).trim();
+    }
+
+    // Empty rows are left out of the XML, so the row number keeps spreadsheet rows aligned.
+    rows[rowNumber - 1] = Array.from(row, (cell) => cell ?? "");
+  }
+
+  return Array.from(rows, (row) => row ?? []);
+};
+
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) {
+    return parseXlsx(file);
+  }
+  if (name.endsWith(".xls")) {
+    throw new Error("Old .xls workbooks are not supported; save the sheet as .xlsx or .csv.");
+  }
+  return parseCsv(await file.text());
+};
@@ -0,0 +1,394 @@
+// A small TeX subset compiled to a MathML tree that the browser lays out natively.
+// Nothing here produces markup strings: the tree is rendered as React elements, so input can never inject HTML.
+
+export interface MathNode {
+  tag: string;
+  attrs?: Record<string, string>;
+  children: Array<MathNode | string>;
+}
+
+const GREEK: Record<string, string> = {
+  alpha: "α",
+  beta: "β",
+  gamma: "γ",
+  delta: "δ",
+  epsilon: "ε",
+  varepsilon: "ε",
+  zeta: "ζ",
+  eta: "η",
+  theta: "θ",
+  iota: "ι",
+  kappa: "κ",
+  lambda: "λ",
+  mu: "μ",
+  nu: "ν",
+  xi: "ξ",
+  pi: "π",
+  rho: "ρ",
+  sigma: "σ",
+  tau: "τ",
+  upsilon: "υ",
+  phi: "φ",
+  varphi: "φ",
+  chi: "χ",
+  psi: "ψ",
+  omega: "ω",
+  Gamma: "Γ",
+  Delta: "Δ",
+  Theta: "Θ",
+  Lambda: "Λ",
+  Xi: "Ξ",
+  Pi: "Π",
+  Sigma: "Σ",
+  Phi: "Φ",
+  Psi: "Ψ",
+  Omega: "Ω",
+};
+
+const SYMBOLS: Record<string, string> = {
+  infty: "∞",
+  partial: "∂",
+  nabla: "∇",
+  hbar: "ℏ",
+  ell: "ℓ",
+  degree: "°",
+};
+
+const OPERATORS: Record<string, string> = {
+  cdot: "⋅",
+  times: "×",
+  div: "÷",
+  pm: "±",
+  mp: "∓",
+  le: "≤",
+  leq: "≤",
+  ge: "≥",
+  geq: "≥",
+  neq: "≠",
+  ne: "≠",
+  approx: "≈",
+  equiv: "≡",
+  sim: "∼",
+  propto: "∝",
+  to: "→",
+  rightarrow: "→",
+  leftarrow: "←",
+  Rightarrow: "⇒",
+  Leftarrow: "⇐",
+  Leftrightarrow: "⇔",
+  iff: "⇔",
+  in: "∈",
+  notin: "∉",
+  subset: "⊂",
+  subseteq: "⊆",
+  cup: "∪",
+  cap: "∩",
+  forall: "∀",
+  exists: "∃",
+  circ: "∘",
+  ldots: "…",
+  cdots: "⋯",
+  angle: "∠",
+  perp: "⊥",
+  parallel: "∥",
+  sum: "∑",
+  prod: "∏",
+  int: "∫",
+  oint: "∮",
+  "{": "{",
+  "}": "}",
+  "%": "%",
+  "|": "‖",
+};
+
+const FUNCTIONS = new Set([
+  "sin",
+  "cos",
+  "tan",
+  "cot",
+  "arcsin",
+  "arccos",
+  "arctan",
+  "log",
+  "ln",
+  "exp",
+  "lim",
+  "min",
+  "max",
+  "det",
+]);
+
+const ACCENTS: Record<string, string> = {
+  vec: "→",
+  hat: "^",
+  bar: "¯",
+  overline: "¯",
+  dot: "˙",
+  tilde: "~",
+};
+
+const SPACES: Record<string, string> = {
+  ",": "0.17em",
+  ":": "0.22em",
+  ";": "0.28em",
+  quad: "1em",
+  qquad: "2em",
+};
+
+// Own keys only, so names such as `\constructor` are not found on Object.prototype.
+const lookup = (table: Record<string, string>, name: string): string | undefined =>
+  Object.hasOwn(table, name) ? table[name] : undefined;
+
+// Arguments of these commands are read verbatim, since whitespace inside them is meaningful.
+const TEXT_COMMANDS = new Set(["text", "mathrm", "mathbf", "operatorname"]);
+
+type Token =
+  | { kind: "command"; name: string }
+  | { kind: "text"; value: string }
+  | { kind: "number"; value: string }
+  | { kind: "letter"; value: string }
+  | { kind: "char"; value: string };
+
+const tokenize = (tex: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < tex.length) {
+    const char = tex[index]!;
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (char === "\\") {
+      const rest = tex.slice(index + 1);
+      const word = /^[a-zA-Z]+/.exec(rest);
+      const name = word ? word[0] : rest.slice(0, 1);
+      tokens.push({ kind: "command", name });
+      index += 1 + Math.max(1, name.length);
+
+      const open = tex.slice(index).search(/\S/) + index;
+      if (TEXT_COMMANDS.has(name) && tex[open] === "{") {
+        let depth = 0;
+        let close = open;
+        for (; close < tex.length; close += 1) {
+          depth += tex[close] === "{" ? 1 : tex[close] === "}" ? -1 : 0;
+          if (depth === 0) {
+            break;
+          }
+        }
+        tokens.push({ kind: "text", value: tex.slice(open + 1, close) });
+        index = close + 1;
+      }
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(tex.slice(index));
+    if (number) {
+      tokens.push({ kind: "number", value: number[0] });
+      index += number[0].length;
+      continue;
+    }
+
+    tokens.push(/[a-zA-Z]/.test(char) ? { kind: "letter", value: char } : { kind: "char", value: char });
+    index += 1;
+  }
+
+  return tokens;
+};
+
+const node = (tag: string, children: Array<MathNode | string>, attrs?: Record<string, string>): MathNode =>
+  attrs ? { tag, attrs, children } : { tag, children };
+
+const row = (children: MathNode[]): MathNode => (children.length === 1 ? children[0]! : node("mrow", children));
+
+const OPERATOR_TEXT: Record<string, string> = { "-": "−", "*": "∗", "'": "′" };
+
+class TexParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseAll(): MathNode[] {
+    return this.parseSequence(false);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    const token = this.tokens[this.position];
+    this.position += 1;
+    return token;
+  }
+
+  private isChar(token: Token | undefined, value: string): boolean {
+    return token?.kind === "char" && token.value === value;
+  }
+
+  private parseSequence(untilBrace: boolean): MathNode[] {
+    const items: MathNode[] = [];
+
+    while (this.peek()) {
+      if (untilBrace && this.isChar(this.peek(), "}")) {
+        this.next();
+        return items;
+      }
+
+      const atom = this.parseAtom();
+      if (atom) {
+        items.push(this.parseScripts(atom));
+      }
+    }
+
+    return items;
+  }
+
+  // Unbalanced braces are tolerated: a missing "}" simply closes at the end of the input.
+  private parseGroup(): MathNode {
+    if (this.isChar(this.peek(), "{")) {
+      this.next();
+      return row(this.parseSequence(true));
+    }
+
+    const atom = this.parseAtom();
+    return atom ?? node("mrow", []);
+  }
+
+  private readText(): string {
+    const token = this.next();
+    if (!token) {
+      return "";
+    }
+
+    return token.kind === "command" ? `\\${token.name}` : token.value;
+  }
+
+  private parseScripts(base: MathNode): MathNode {
+    let sub: MathNode | null = null;
+    let sup: MathNode | null = null;
+
+    while (this.isChar(this.peek(), "_") || this.isChar(this.peek(), "^")) {
+      const marker = this.next() as { kind: "char"; value: string };
+      const script = this.parseGroup();
+      if (marker.value === "_") {
+        sub = script;
+      } else {
+        sup = script;
+      }
+    }
+
+    if (sub && sup) {
+      return node("msubsup", [base, sub, sup]);
+    }
+
+    if (sub) {
+      return node("msub", [base, sub]);
+    }
+
+    return sup ? node("msup", [base, sup]) : base;
+  }
+
+  private parseAtom(): MathNode | null {
+    const token = this.next();
+    if (!token) {
+      return null;
+    }
+
+    switch (token.kind) {
+      case "number":
+        return node("mn", [token.value]);
+      case "letter":
+        return node("mi", [token.value]);
+      case "text":
+        return node("mtext", [token.value]);
+      case "char":
+        if (token.value === "{") {
+          return row(this.parseSequence(true));
+        }
+        if (token.value === "}" || token.value === "_" || token.value === "^") {
+          return null;
+        }
+        return node("mo", [OPERATOR_TEXT[token.value] ?? token.value]);
+      case "command":
+        return this.parseCommand(token.name);
+    }
+  }
+
+  private parseCommand(name: string): MathNode | null {
+    if (name === "frac" || name === "dfrac" || name === "tfrac") {
+      const numerator = this.parseGroup();
+      return node("mfrac", [numerator, this.parseGroup()]);
+    }
+
+    if (name === "sqrt") {
+      if (this.isChar(this.peek(), "[")) {
+        this.next();
+        const index: MathNode[] = [];
+        while (this.peek() && !this.isChar(this.peek(), "]")) {
+          const atom = this.parseAtom();
+          if (atom) {
+            index.push(atom);
+          }
+        }
+        this.next();
+        return node("mroot", [this.parseGroup(), row(index)]);
+      }
+      return node("msqrt", [this.parseGroup()]);
+    }
+
+    if (name === "text" || name === "mathrm" || name === "operatorname") {
+      const text = this.readText();
+      return name === "text" ? node("mtext", [text]) : node("mi", [text], { mathvariant: "normal" });
+    }
+
+    if (name === "mathbf") {
+      return node("mi", [this.readText()], { mathvariant: "bold" });
+    }
+
+    const accent = lookup(ACCENTS, name);
+    if (accent !== undefined) {
+      return node("mover", [this.parseGroup(), node("mo", [accent])], { accent: "true" });
+    }
+
+    if (name === "left" || name === "right") {
+      const delimiter = this.next();
+      if (!delimiter || this.isChar(delimiter, ".")) {
+        return null;
+      }
+      const text = delimiter.kind === "command" ? (lookup(OPERATORS, delimiter.name) ?? delimiter.name) : delimiter.value;
+      return node("mo", [text], { stretchy: "true" });
+    }
+
+    const space = lookup(SPACES, name);
+    if (space !== undefined) {
+      return node("mspace", [], { width: space });
+    }
+
+    if (name === "\\") {
+      return null;
+    }
+
+    const letter = lookup(GREEK, name) ?? lookup(SYMBOLS, name);
+    if (letter !== undefined) {
+      return node("mi", [letter]);
+    }
+
+    const operator = lookup(OPERATORS, name);
+    if (operator !== undefined) {
+      return node("mo", [operator]);
+    }
+
+    if (FUNCTIONS.has(name)) {
+      return node("mi", [name], { mathvariant: "normal" });
+    }
+
+    // Unknown commands stay visible as source so authors can spot typos in the preview.
+    return node("mtext", [`\\${name}`]);
+  }
+}
+
+export const texToMathml = (tex: string, display: boolean): MathNode =>
+  node("math", [row(new TexParser(tokenize(tex)).parseAll())], display ? { display: "block" } : undefined);
@@ -1,19 +1,99 @@
+import { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { useGetEnrollmentQuery, useGetStudentTestsQuery } from "@/store/api/api";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
 import { setSelectedTestId, setStudentFilter } from "@/store/slices/testSlice";
 import { LoadingState } from "@/components/common/LoadingState";
 import { ErrorState } from "@/components/common/ErrorState";
+import { resolveAvailability } from "@/lib/availability";
+import type { StudentTestSummary, TestAvailability } from "@/types/domain";
+
+const AVAILABILITY_GROUPS: Array<{ key: TestAvailability; title: string }> = [
+  { key: "open", title: "Open" },
+  { key: "upcoming", title: "Upcoming" },
+  { key: "closed", title: "Closed" },
+];
+
+const formatCountdown = (ms: number): string => {
+  const totalSec = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSec / 86_400);
+  const hours = Math.floor((totalSec % 86_400) / 3600);
+  const minutes = Math.floor((totalSec % 3600) / 60);
+  const seconds = totalSec % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+};
+
+const startLabel = (test: StudentTestSummary, availability: TestAvailability): string => {
+  if (availability === "upcoming") {
+    return "Not open yet";
+  }
+
+  if (availability === "closed") {
+    return "Closed";
+  }
+
+  if (test.mode === "practice") {
+    return test.attemptsUsed === 0 ? "Start Practice" : "Practice Again";
+  }
+
+  if (test.status === "completed") {
+    return "No attempts left";
+  }
+
+  if (test.attemptsUsed === 0) {
+    return "Start Test";
+  }
+
+  return `Retake (${test.attemptsAllowed - test.attemptsUsed} of ${test.attemptsAllowed} left)`;
+};
+
+const windowNote = (test: StudentTestSummary, availability: TestAvailability, nowMs: number): string | null => {
+  if (availability === "upcoming" && test.availableFrom) {
+    return `Opens in ${formatCountdown(new Date(test.availableFrom).getTime() - nowMs)}`;
+  }
+
+  if (availability === "open" && test.availableUntil) {
+    return `Closes in ${formatCountdown(new Date(test.availableUntil).getTime() - nowMs)}`;
+  }
+
+  if (availability === "closed" && test.availableUntil) {
+    return `Closed ${new Date(test.availableUntil).toLocaleString()}`;
+  }
+
+  return null;
+};
 
 export const StudentDashboardPage = () => {
   const navigate = useNavigate();
   const dispatch = useAppDispatch();
   const profile = useAppSelector((state) => state.user.profile);
+  const serverTimeOffsetMs = useAppSelector((state) => state.ui.serverTimeOffsetMs);
 
   const filter = useAppSelector((state) => state.test.studentFilter);
   const { data, isLoading, isError, error, refetch } = useGetStudentTestsQuery();
   const { data: enrollmentData } = useGetEnrollmentQuery();
 
+  const [tick, setTick] = useState(Date.now());
+  const hasWindows = (data ?? []).some((test) => test.availableFrom || test.availableUntil);
+
+  useEffect(() => {
+    if (!hasWindows) {
+      return;
+    }
+
+    const timer = window.setInterval(() => setTick(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [hasWindows]);
+
   if (isLoading) {
     return <LoadingState label="Loading available tests..." />;
   }
@@ -27,6 +107,70 @@ export const StudentDashboardPage = () => {
   const filtered = filter === "all" ? tests : tests.filter((test) => test.status === filter);
   const myEnrollment = (enrollmentData ?? []).filter((row) => row.studentId === profile?.id);
 
+  // Windows are in server time; re-evaluated every tick so a test moves groups when its countdown ends.
+  const nowMs = tick + serverTimeOffsetMs;
+  const availabilityOf = (test: StudentTestSummary): TestAvailability =>
+    resolveAvailability(test.availableFrom, test.availableUntil, nowMs);
+
+  const renderTestCard = (test: StudentTestSummary) => {
+    const availability = availabilityOf(test);
+    const note = windowNote(test, availability, nowMs);
+
+    return (
+      <article key={test.id} className="test-card">
+        <div className="test-head">
+          <h3>{test.title}</h3>
+          <span className={`badge ${test.status}`}>{test.mode === "practice" ? "practice" : test.status}</span>
+        </div>
+
+        <p>{test.description}</p>
+        {note ? <p className="muted">{note}</p> : null}
+
+        <dl>
+          <div>
+            <dt>Questions</dt>
+            <dd>{test.questionCount}</dd>
+          </div>
+          <div>
+            <dt>Time</dt>
+            <dd>{Math.ceil(test.timeLimitSec / 60)} min</dd>
+          </div>
+          <div>
+            <dt>Attempts</dt>
+            <dd>
+              {test.mode === "practice"
+                ? `${test.attemptsUsed} (unlimited)`
+                : `${test.attemptsUsed}/${test.attemptsAllowed}`}
+            </dd>
+          </div>
+        </dl>
+
+        <div className="actions-row left">
+          <button
+            type="button"
+            className="btn btn-primary"
+            disabled={test.status === "completed" || availability !== "open"}
+            onClick={() => {
+              dispatch(setSelectedTestId(test.id));
+              navigate(`/student/test/${test.id}`);
+            }}
+          >
+            {startLabel(test, availability)}
+          </button>
+          {test.lastAttemptId !== null ? (
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => navigate(`/student/result/${test.lastAttemptId}`)}
+            >
+              Last Result
+            </button>
+          ) : null}
+        </div>
+      </article>
+    );
+  };
+
   return (
     <section className="page-stack">
       <div className="panel panel-tight">
@@ -69,43 +213,19 @@ export const StudentDashboardPage = () => {
         </div>
       </div>
 
-      <div className="card-grid">
-        {filtered.map((test) => (
-          <article key={test.id} className="test-card">
-            <div className="test-head">
-              <h3>{test.title}</h3>
-              <span className={`badge ${test.status}`}>{test.status}</span>
-            </div>
-
-            <p>{test.description}</p>
-
-            <dl>
-              <div>
-                <dt>Questions</dt>
-                <dd>{test.questionCount}</dd>
-              </div>
-              <div>
-                <dt>Time</dt>
-                <dd>{Math.ceil(test.timeLimitSec / 60)} min</dd>
-              </div>
-            </dl>
-
-            <div className="actions-row left">
-              <button
-                type="button"
-                className="btn btn-primary"
-                disabled={test.status === "completed"}
-                onClick={() => {
-                  dispatch(setSelectedTestId(test.id));
-                  navigate(`/student/test/${test.id}`);
-                }}
-              >
-                {test.status === "completed" ? "Submitted" : "Start Test"}
-              </button>
-            </div>
-          </article>
-        ))}
-      </div>
+      {AVAILABILITY_GROUPS.map((group) => {
+        const groupTests = filtered.filter((test) => availabilityOf(test) === group.key);
+        if (groupTests.length === 0) {
+          return null;
+        }
+
+        return (
+          <div key={group.key} className="test-group">
+            <h3>{group.title}</h3>
+            <div className="card-grid">{groupTests.map(renderTestCard)}</div>
+          </div>
+        );
+      })}
 
       {filtered.length === 0 ? (
         <div className="panel">
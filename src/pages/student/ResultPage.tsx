@@ -1,10 +1,26 @@
 import { useNavigate, useParams } from "react-router-dom";
 import { ErrorState } from "@/components/common/ErrorState";
 import { LoadingState } from "@/components/common/LoadingState";
+import { RichText } from "@/components/common/RichText";
 import { useGetStudentAttemptResultQuery } from "@/store/api/api";
+import type { QuestionType } from "@/types/domain";
+
+// Written answers are shown exactly as the student typed them; option answers carry the teacher's formatting.
+const OPTION_TYPES: QuestionType[] = ["single", "multiple", "matching", "ordering"];
 
 const formatPercent = (value: number): string => `${value.toFixed(1)}%`;
 
+// Partial credit produces fractional points; show at most two decimals without trailing zeros.
+const formatPoints = (value: number): string => String(Math.round(value * 100) / 100);
+
+const resultTone = (pointsEarned: number, pointsMax: number, correct: boolean): string => {
+  if (correct) {
+    return "ok";
+  }
+
+  return pointsEarned > 0 && pointsEarned < pointsMax ? "partial" : "bad";
+};
+
 export const StudentResultPage = () => {
   const navigate = useNavigate();
   const { attemptId } = useParams<{ attemptId: string }>();
@@ -42,7 +58,7 @@ export const StudentResultPage = () => {
           <div>
             <dt>Score</dt>
             <dd>
-              {data.score} / {data.maxScore}
+              {formatPoints(data.score)} / {formatPoints(data.maxScore)}
             </dd>
           </div>
           <div>
@@ -60,19 +76,31 @@ export const StudentResultPage = () => {
         <h3>Question Review</h3>
         <div className="result-list">
           {data.breakdown.map((row, index) => (
-            <div key={row.questionId} className={`result-item ${row.correct ? "ok" : "bad"}`}>
+            <div
+              key={row.questionId}
+              className={`result-item ${resultTone(row.pointsEarned, row.pointsMax, row.correct)}`}
+            >
               <p className="muted">Q{index + 1}</p>
-              <h4>{row.prompt}</h4>
+              <RichText text={row.prompt} className="question-prompt" />
               <p>
-                <strong>Your answer:</strong> {row.userAnswerText}
+                <strong>Your answer:</strong>{" "}
+                {OPTION_TYPES.includes(row.type) ? <RichText text={row.userAnswerText} inline /> : row.userAnswerText}
               </p>
               <p>
-                <strong>Expected:</strong> {row.correctAnswerText}
+                <strong>Expected:</strong> <RichText text={row.correctAnswerText} inline />
               </p>
               <p>
-                <strong>Score:</strong> {row.pointsEarned}/{row.pointsMax}
+                <strong>Score:</strong> {formatPoints(row.pointsEarned)}/{formatPoints(row.pointsMax)}
+                {row.hintPenalty
+                  ? ` (-${formatPoints(row.hintPenalty)} for ${row.hintsUsed} hint${row.hintsUsed === 1 ? "" : "s"})`
+                  : ""}
               </p>
-              <p className="muted">{row.explanation}</p>
+              {row.feedback ? (
+                <p>
+                  <strong>Teacher feedback:</strong> {row.feedback}
+                </p>
+              ) : null}
+              {row.explanation ? <RichText text={row.explanation} className="muted" /> : null}
             </div>
           ))}
         </div>
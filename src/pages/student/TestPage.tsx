@@ -1,11 +1,41 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
+import { QuestionNavigator } from "@/components/student/QuestionNavigator";
 import { QuestionRenderer } from "@/components/student/QuestionRenderer";
 import { ErrorState } from "@/components/common/ErrorState";
 import { LoadingState } from "@/components/common/LoadingState";
-import { useStartStudentTestMutation, useSubmitStudentAttemptMutation } from "@/store/api/api";
+import { RichText } from "@/components/common/RichText";
+import { useAttemptAutosave } from "@/hooks/useAttemptAutosave";
+import { isQuestionAnswered, resolveQuestionProgress } from "@/lib/attemptProgress";
+import {
+  useCheckPracticeAnswerMutation,
+  useGetStudentAttemptTimingQuery,
+  useRevealHintMutation,
+  useStartStudentTestMutation,
+  useSubmitStudentAttemptMutation,
+} from "@/store/api/api";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
-import { clearAttempt, setAnswer, setAttemptError, setCurrentAttempt, setSubmitInFlight } from "@/store/slices/attemptSlice";
+import { loadPersistedAttemptForTest, removePersistedAttempt } from "@/store/persistence";
+import {
+  createSubmitOutboxEntry,
+  enqueueOutboxEntry,
+  setDeliveredSubmit,
+  submitIdempotencyKey,
+} from "@/store/slices/outboxSlice";
+import { getServerNow, pushToast, setServerTimeOffset } from "@/store/slices/uiSlice";
+import type { AttemptAnswerInput, QuestionResult } from "@/types/domain";
+import {
+  clearAttempt,
+  recordHintReveal,
+  restoreAttempt,
+  setAnswer,
+  setAttemptError,
+  setAttemptExpiry,
+  setCurrentAttempt,
+  setQuestionIndex,
+  setSubmitInFlight,
+  toggleQuestionFlag,
+} from "@/store/slices/attemptSlice";
 
 const formatSeconds = (value: number): string => {
   const minutes = Math.floor(value / 60)
@@ -27,6 +57,16 @@ const parseErrorDetail = (error: unknown): string => {
   return detail ?? "Operation failed.";
 };
 
+const SYNC_LABELS = {
+  saved: "All answers saved",
+  saving: "Saving...",
+  unsynced: "Unsynced changes",
+} as const;
+
+const TIMING_POLL_MS = 20_000;
+
+const isNetworkError = (error: unknown): boolean => (error as { status?: unknown })?.status === "FETCH_ERROR";
+
 export const StudentTestPage = () => {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
@@ -34,13 +74,27 @@ export const StudentTestPage = () => {
 
   const dispatch = useAppDispatch();
   const attemptState = useAppSelector((state) => state.attempt);
+  const profileId = useAppSelector((state) => state.user.profile?.id ?? null);
+  const online = useAppSelector((state) => state.ui.online);
+  const serverTimeOffsetMs = useAppSelector((state) => state.ui.serverTimeOffsetMs);
+  const outboxEntries = useAppSelector((state) => state.outbox.entries);
+  const deliveredSubmit = useAppSelector((state) => state.outbox.deliveredSubmit);
 
   const [startAttempt, startState] = useStartStudentTestMutation();
   const [submitAttempt] = useSubmitStudentAttemptMutation();
+  const [checkPracticeAnswer, checkState] = useCheckPracticeAnswerMutation();
+  const [revealHint, revealState] = useRevealHintMutation();
+  const syncStatus = useAttemptAutosave();
 
-  const [questionIndex, setQuestionIndex] = useState(0);
   const [tick, setTick] = useState(Date.now());
+  const [navigatorOpen, setNavigatorOpen] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  // Practice feedback for the answer as last checked; editing the answer clears it.
+  const [checks, setChecks] = useState<Record<number, QuestionResult>>({});
+  const [revealedIds, setRevealedIds] = useState<number[]>([]);
   const autoSubmitRef = useRef(false);
+  const setupForTestRef = useRef<number | null>(null);
+  const questionIndex = attemptState.questionIndex;
 
   const activeSession = useMemo(() => {
     if (!attemptState.current) {
@@ -57,34 +111,158 @@ export const StudentTestPage = () => {
         return;
       }
 
-      if (activeSession) {
+      if (activeSession || setupForTestRef.current === testId) {
         return;
       }
+      setupForTestRef.current = testId;
+
+      // Restore the local draft first so the student sees their answers immediately,
+      // then let the server confirm the attempt is still the one in progress.
+      const persisted = loadPersistedAttemptForTest(testId, profileId);
+      if (persisted) {
+        if (typeof persisted.serverTimeOffsetMs === "number") {
+          dispatch(setServerTimeOffset(persisted.serverTimeOffsetMs));
+        }
+        dispatch(restoreAttempt(persisted));
+      }
 
       try {
         const response = await startAttempt({ testId }).unwrap();
+        if (persisted && persisted.current.attempt.id !== response.attempt.id) {
+          removePersistedAttempt(persisted.current.attempt.id);
+        }
         dispatch(setCurrentAttempt(response));
       } catch (error) {
+        if (persisted && isNetworkError(error)) {
+          return;
+        }
+
+        if (persisted) {
+          removePersistedAttempt(persisted.current.attempt.id);
+          dispatch(clearAttempt());
+        }
         dispatch(setAttemptError(parseErrorDetail(error)));
       }
     };
 
     setup();
-  }, [activeSession, dispatch, navigate, startAttempt, testId]);
+  }, [activeSession, dispatch, navigate, profileId, startAttempt, testId]);
+
+  useEffect(() => {
+    if (!deliveredSubmit || deliveredSubmit.testId !== testId) {
+      return;
+    }
+
+    dispatch(setDeliveredSubmit(null));
+    navigate(`/student/result/${deliveredSubmit.attemptId}`);
+  }, [deliveredSubmit, dispatch, navigate, testId]);
 
   useEffect(() => {
     const timer = window.setInterval(() => setTick(Date.now()), 1000);
     return () => window.clearInterval(timer);
   }, []);
 
+  const activeAttemptId = activeSession?.attempt.id ?? null;
+  const { data: timing } = useGetStudentAttemptTimingQuery(activeAttemptId ?? 0, {
+    skip: activeAttemptId === null || !online,
+    pollingInterval: TIMING_POLL_MS,
+  });
+
+  useEffect(() => {
+    if (!timing || !activeSession || timing.attemptId !== activeAttemptId) {
+      return;
+    }
+
+    if (timing.expiresAt !== activeSession.attempt.expiresAt) {
+      const gainedMs = new Date(timing.expiresAt).getTime() - new Date(activeSession.attempt.expiresAt).getTime();
+      dispatch(setAttemptExpiry({ attemptId: timing.attemptId, expiresAt: timing.expiresAt }));
+      if (gainedMs > 0) {
+        dispatch(pushToast({ type: "info", message: `Your time was extended by ${Math.round(gainedMs / 60_000)} min.` }));
+      }
+    }
+  }, [activeAttemptId, activeSession, dispatch, timing]);
+
   const question = activeSession?.test.questions[questionIndex];
   const totalQuestions = activeSession?.test.questions.length ?? 0;
 
+  const progress = (activeSession?.test.questions ?? []).map((item) =>
+    resolveQuestionProgress(
+      isQuestionAnswered(item, attemptState.answersByQuestionId[item.id], attemptState.syncByQuestionId[item.id]),
+      attemptState.flaggedQuestionIds.includes(item.id)
+    )
+  );
+  const unansweredNumbers = (activeSession?.test.questions ?? [])
+    .map((item, index) =>
+      isQuestionAnswered(item, attemptState.answersByQuestionId[item.id], attemptState.syncByQuestionId[item.id])
+        ? null
+        : index + 1
+    )
+    .filter((value): value is number => value !== null);
+  const flaggedNumbers = progress
+    .map((state, index) => (state === "flagged" ? index + 1 : null))
+    .filter((value): value is number => value !== null);
+
+  const practice = activeSession?.test.mode === "practice";
+
+  const checkAnswer = async (answer: AttemptAnswerInput | undefined): Promise<void> => {
+    if (!activeSession || !answer) {
+      return;
+    }
+
+    try {
+      const result = await checkPracticeAnswer({ attemptId: activeSession.attempt.id, answer }).unwrap();
+      setChecks((current) => ({ ...current, [answer.questionId]: result }));
+    } catch (error) {
+      dispatch(pushToast({ type: "error", message: parseErrorDetail(error) }));
+    }
+  };
+
+  const showHint = async (questionId: number): Promise<void> => {
+    if (!activeSession) {
+      return;
+    }
+
+    try {
+      const reveal = await revealHint({ attemptId: activeSession.attempt.id, questionId }).unwrap();
+      dispatch(recordHintReveal(reveal));
+    } catch (error) {
+      dispatch(pushToast({ type: "error", message: parseErrorDetail(error) }));
+    }
+  };
+
+  const jumpTo = (index: number): void => {
+    setReviewing(false);
+    dispatch(setQuestionIndex(index));
+  };
+
   const expiresAtMs = activeSession ? new Date(activeSession.attempt.expiresAt).getTime() : 0;
-  const timeLeftSec = Math.max(0, Math.floor((expiresAtMs - tick) / 1000));
+  // The deadline is in server time, so compare it against the device clock corrected by the measured offset.
+  const timeLeftSec = Math.max(0, Math.floor((expiresAtMs - (tick + serverTimeOffsetMs)) / 1000));
+
+  const submitQueued = outboxEntries.some(
+    (entry) => entry.kind === "submitAttempt" && entry.attemptId === activeSession?.attempt.id
+  );
+  const locked = attemptState.submitInFlight || submitQueued;
+
+  const queueSubmit = (answers: AttemptAnswerInput[]): void => {
+    if (!activeSession) {
+      return;
+    }
+
+    dispatch(enqueueOutboxEntry(createSubmitOutboxEntry(activeSession.attempt.id, activeSession.test.id, profileId, answers)));
+    dispatch(
+      pushToast({ type: "info", message: "No connection. Your submission is queued and will be sent automatically." })
+    );
+  };
 
   const submit = async (): Promise<void> => {
-    if (!activeSession || attemptState.submitInFlight) {
+    if (!activeSession || locked) {
+      return;
+    }
+
+    const answers = Object.values(attemptState.answersByQuestionId);
+    if (!online) {
+      queueSubmit(answers);
       return;
     }
 
@@ -92,15 +270,24 @@ export const StudentTestPage = () => {
     dispatch(setAttemptError(null));
 
     try {
-      const answers = Object.values(attemptState.answersByQuestionId);
       const result = await submitAttempt({
         attemptId: activeSession.attempt.id,
         answers,
+        idempotencyKey: submitIdempotencyKey(activeSession.attempt.id),
       }).unwrap();
 
+      removePersistedAttempt(activeSession.attempt.id);
       dispatch(clearAttempt());
       navigate(`/student/result/${result.attemptId}`);
     } catch (error) {
+      if (isNetworkError(error)) {
+        queueSubmit(answers);
+        return;
+      }
+
+      if (getServerNow(serverTimeOffsetMs) >= expiresAtMs) {
+        removePersistedAttempt(activeSession.attempt.id);
+      }
       dispatch(setAttemptError(parseErrorDetail(error)));
     } finally {
       dispatch(setSubmitInFlight(false));
@@ -108,7 +295,7 @@ export const StudentTestPage = () => {
   };
 
   useEffect(() => {
-    if (!activeSession || attemptState.submitInFlight || autoSubmitRef.current) {
+    if (!activeSession || locked || autoSubmitRef.current) {
       return;
     }
 
@@ -116,7 +303,7 @@ export const StudentTestPage = () => {
       autoSubmitRef.current = true;
       submit();
     }
-  }, [activeSession, attemptState.submitInFlight, timeLeftSec]);
+  }, [activeSession, locked, timeLeftSec]);
 
   if (!activeSession && attemptState.error) {
     return <ErrorState message={attemptState.error} onRetry={() => navigate("/student/tests")} />;
@@ -150,6 +337,16 @@ export const StudentTestPage = () => {
   }
 
   const answerValue = attemptState.answersByQuestionId[question.id];
+  const flagged = attemptState.flaggedQuestionIds.includes(question.id);
+  const check = checks[question.id];
+  const revealed = revealedIds.includes(question.id);
+  const submitLabel = submitQueued
+    ? "Queued, waiting for connection"
+    : attemptState.submitInFlight
+      ? "Submitting..."
+      : practice
+        ? "Finish Practice"
+        : "Submit Attempt";
 
   return (
     <section className="page-stack">
@@ -158,63 +355,190 @@ export const StudentTestPage = () => {
           <div>
             <h2>{activeSession.test.title}</h2>
             <p>{activeSession.test.description}</p>
+            {practice ? (
+              <p className="muted">Practice mode: check answers as you go. This attempt is not graded.</p>
+            ) : null}
+          </div>
+          <div className="header-actions">
+            <span className={`sync-chip ${syncStatus}`} role="status">
+              {SYNC_LABELS[syncStatus]}
+            </span>
+            <span className={`timer-chip ${timeLeftSec < 60 ? "danger" : ""}`}>{formatSeconds(timeLeftSec)}</span>
           </div>
-          <span className={`timer-chip ${timeLeftSec < 60 ? "danger" : ""}`}>{formatSeconds(timeLeftSec)}</span>
         </div>
 
         <div className="progress-row">
           <span>
             Question {questionIndex + 1} / {totalQuestions}
           </span>
-          <span>{Math.round(((questionIndex + 1) / Math.max(1, totalQuestions)) * 100)}%</span>
+          <button type="button" className="btn btn-ghost" onClick={() => setNavigatorOpen((open) => !open)}>
+            {navigatorOpen ? "Hide Questions" : "All Questions"}
+          </button>
         </div>
-        <progress max={totalQuestions} value={questionIndex + 1} />
+        <progress max={totalQuestions} value={totalQuestions - unansweredNumbers.length} />
+
+        {navigatorOpen ? (
+          <QuestionNavigator
+            progress={progress}
+            currentIndex={reviewing ? -1 : questionIndex}
+            disabled={locked}
+            onJump={jumpTo}
+          />
+        ) : null}
       </article>
 
-      <article className="panel">
-        <h3>{question.prompt}</h3>
-        <p className="muted">Type: {question.type.toUpperCase()} | Points: {question.points}</p>
-
-        <QuestionRenderer
-          question={question}
-          value={answerValue}
-          onChange={(next) => dispatch(setAnswer(next))}
-          disabled={attemptState.submitInFlight}
-        />
-      </article>
+      {reviewing ? (
+        <article className="panel">
+          <h3>Review Before Submitting</h3>
+          {unansweredNumbers.length === 0 && flaggedNumbers.length === 0 ? (
+            <p>All {totalQuestions} questions are answered and none are flagged.</p>
+          ) : null}
+
+          {unansweredNumbers.length > 0 ? (
+            <div className="review-group">
+              <p className="error-inline">
+                {unansweredNumbers.length} unanswered {unansweredNumbers.length === 1 ? "question" : "questions"}.
+                {practice ? "" : " They will score zero."}
+              </p>
+              <div className="pill-row">
+                {unansweredNumbers.map((number) => (
+                  <button key={number} type="button" className="pill" onClick={() => jumpTo(number - 1)}>
+                    Question {number}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {flaggedNumbers.length > 0 ? (
+            <div className="review-group">
+              <p className="muted">
+                {flaggedNumbers.length} {flaggedNumbers.length === 1 ? "question is" : "questions are"} still flagged
+                for review.
+              </p>
+              <div className="pill-row">
+                {flaggedNumbers.map((number) => (
+                  <button key={number} type="button" className="pill" onClick={() => jumpTo(number - 1)}>
+                    Question {number}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </article>
+      ) : (
+        <article className="panel">
+          <div className="panel-header compact">
+            <RichText text={question.prompt} className="question-prompt" />
+            <button
+              type="button"
+              className={`btn ${flagged ? "btn-secondary" : "btn-ghost"}`}
+              aria-pressed={flagged}
+              onClick={() => dispatch(toggleQuestionFlag(question.id))}
+            >
+              {flagged ? "Flagged" : "Flag for Review"}
+            </button>
+          </div>
+          <p className="muted">Type: {question.type.toUpperCase()} | Points: {question.points}</p>
+
+          <QuestionRenderer
+            question={question}
+            value={answerValue}
+            onChange={(next) => {
+              dispatch(setAnswer(next));
+              if (check) {
+                setChecks(({ [question.id]: _stale, ...rest }) => rest);
+              }
+            }}
+            disabled={locked}
+            onRevealHint={online ? () => void showHint(question.id) : undefined}
+            revealingHint={revealState.isLoading}
+          />
+
+          {practice ? (
+            <div className="practice-check">
+              <div className="actions-row left">
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => void checkAnswer(answerValue)}
+                  disabled={
+                    locked ||
+                    !online ||
+                    checkState.isLoading ||
+                    !isQuestionAnswered(question, answerValue, attemptState.syncByQuestionId[question.id])
+                  }
+                >
+                  {checkState.isLoading ? "Checking..." : "Check Answer"}
+                </button>
+                {check && !check.correct && !revealed ? (
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={() => setRevealedIds((current) => [...current, question.id])}
+                  >
+                    Show Correct Answer
+                  </button>
+                ) : null}
+              </div>
+
+              {check ? (
+                <div className={`result-item ${check.correct ? "ok" : "bad"}`} role="status">
+                  <strong>{check.correct ? "Correct" : "Not quite, try again"}</strong>
+                  <p className="muted">
+                    Points: {check.pointsEarned}/{check.pointsMax}
+                  </p>
+                  {check.correct || revealed ? (
+                    <p>
+                      Correct answer: <RichText text={check.correctAnswerText} inline />
+                    </p>
+                  ) : null}
+                  {check.explanation ? <RichText text={check.explanation} /> : null}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+        </article>
+      )}
 
       {attemptState.error ? <ErrorState message={attemptState.error} /> : null}
 
-      <div className="actions-row">
-        <button
-          type="button"
-          className="btn btn-secondary"
-          onClick={() => setQuestionIndex((current) => Math.max(0, current - 1))}
-          disabled={questionIndex === 0 || attemptState.submitInFlight}
-        >
-          Previous
-        </button>
-
-        {questionIndex < totalQuestions - 1 ? (
-          <button
-            type="button"
-            className="btn btn-primary"
-            onClick={() => setQuestionIndex((current) => Math.min(totalQuestions - 1, current + 1))}
-            disabled={attemptState.submitInFlight}
-          >
-            Next
+      {reviewing ? (
+        <div className="actions-row">
+          <button type="button" className="btn btn-secondary" onClick={() => setReviewing(false)} disabled={locked}>
+            Back to Questions
           </button>
-        ) : (
+          <button type="button" className="btn btn-primary" onClick={submit} disabled={locked}>
+            {submitLabel}
+          </button>
+        </div>
+      ) : (
+        <div className="actions-row">
           <button
             type="button"
-            className="btn btn-primary"
-            onClick={submit}
-            disabled={attemptState.submitInFlight}
+            className="btn btn-secondary"
+            onClick={() => dispatch(setQuestionIndex(questionIndex - 1))}
+            disabled={questionIndex === 0 || locked}
           >
-            {attemptState.submitInFlight ? "Submitting..." : "Submit Attempt"}
+            Previous
           </button>
-        )}
-      </div>
+
+          {questionIndex < totalQuestions - 1 ? (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => dispatch(setQuestionIndex(questionIndex + 1))}
+              disabled={locked}
+            >
+              Next
+            </button>
+          ) : (
+            <button type="button" className="btn btn-primary" onClick={() => setReviewing(true)} disabled={locked}>
+              {submitQueued || attemptState.submitInFlight ? submitLabel : "Review & Submit"}
+            </button>
+          )}
+        </div>
+      )}
     </section>
   );
 };
@@ -4,16 +4,51 @@ import {
   useCreateEnrollmentMutation,
   useCreateEnrollmentTestMutation,
   useDeleteEnrollmentTestMutation,
+  useDeleteTimeAccommodationMutation,
   useGetCoursesQuery,
   useGetEnrollmentQuery,
   useGetEnrollmentTestsQuery,
   useGetStudentsQuery,
   useGetTeacherTestsQuery,
+  useGetTimeAccommodationsQuery,
+  useSaveTimeAccommodationMutation,
 } from "@/store/api/api";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
 import { pushToast } from "@/store/slices/uiSlice";
 import { LoadingState } from "@/components/common/LoadingState";
 import { ErrorState } from "@/components/common/ErrorState";
+import { isValidWindow } from "@/lib/availability";
+import type { GradePolicy } from "@/types/domain";
+
+const GRADE_POLICIES: Array<{ value: GradePolicy; label: string }> = [
+  { value: "best", label: "Best attempt" },
+  { value: "latest", label: "Latest attempt" },
+  { value: "average", label: "Average of attempts" },
+  { value: "first", label: "First attempt" },
+];
+
+// `datetime-local` inputs give local wall-clock time without a zone; the API stores UTC.
+const localInputToIso = (value: string): string | null => (value ? new Date(value).toISOString() : null);
+
+const formatWindow = (startDate: string | null, endDate: string | null): string => {
+  if (!startDate && !endDate) {
+    return "Always open";
+  }
+
+  const from = startDate ? new Date(startDate).toLocaleString() : "now";
+  const until = endDate ? new Date(endDate).toLocaleString() : "no end";
+  return `${from} – ${until}`;
+};
+
+// Accommodation scope select values: "course-<id>" or "assignment-<id>".
+const parseScope = (value: string): { courseId: number | null; assignmentId: number | null } => {
+  const [kind, rawId] = value.split("-");
+  const id = Number(rawId);
+  return kind === "assignment" ? { courseId: null, assignmentId: id } : { courseId: id, assignmentId: null };
+};
+
+const gradePolicyLabel = (policy: GradePolicy): string =>
+  GRADE_POLICIES.find((item) => item.value === policy)?.label ?? policy;
 
 const getErrorDetail = (error: unknown): string => {
   const typed = error as {
@@ -78,10 +113,14 @@ export const TeacherAssignmentsPage = () => {
     refetch: refetchEnrollment,
   } = useGetEnrollmentQuery();
 
+  const { data: accommodationsData } = useGetTimeAccommodationsQuery();
+
   const [createCourse, createCourseState] = useCreateCourseMutation();
   const [createEnrollment, createEnrollmentState] = useCreateEnrollmentMutation();
   const [createEnrollmentTest, createEnrollmentTestState] = useCreateEnrollmentTestMutation();
   const [deleteEnrollmentTest, deleteEnrollmentTestState] = useDeleteEnrollmentTestMutation();
+  const [saveAccommodation, saveAccommodationState] = useSaveTimeAccommodationMutation();
+  const [deleteAccommodation, deleteAccommodationState] = useDeleteTimeAccommodationMutation();
 
   const [courseTitle, setCourseTitle] = useState("");
   const [selectedStudentId, setSelectedStudentId] = useState<number>(0);
@@ -89,12 +128,19 @@ export const TeacherAssignmentsPage = () => {
   const [selectedAssignCourseId, setSelectedAssignCourseId] = useState<number>(0);
   const [selectedAssignTestId, setSelectedAssignTestId] = useState<number>(0);
   const [attemptCount, setAttemptCount] = useState<number>(3);
+  const [gradePolicy, setGradePolicy] = useState<GradePolicy>("best");
+  const [windowStart, setWindowStart] = useState("");
+  const [windowEnd, setWindowEnd] = useState("");
+  const [accommodationStudentId, setAccommodationStudentId] = useState<number>(0);
+  const [accommodationScope, setAccommodationScope] = useState("");
+  const [multiplier, setMultiplier] = useState<number>(1.5);
 
   const courses = coursesData ?? [];
   const students = studentsData ?? [];
   const tests = testsData ?? [];
   const assignments = assignmentsData ?? [];
   const enrollmentRows = enrollmentData ?? [];
+  const accommodations = accommodationsData ?? [];
 
   const publishedTests = useMemo(() => tests.filter((test) => test.status === "published"), [tests]);
 
@@ -193,11 +239,21 @@ export const TeacherAssignmentsPage = () => {
       return;
     }
 
+    const startDate = localInputToIso(windowStart);
+    const endDate = localInputToIso(windowEnd);
+    if (!isValidWindow(startDate, endDate)) {
+      dispatch(pushToast({ type: "warning", message: "The end date must be after the start date." }));
+      return;
+    }
+
     try {
       const created = await createEnrollmentTest({
         courseId: selectedAssignCourseId,
         testId: selectedAssignTestId,
         attemptCount,
+        gradePolicy,
+        startDate,
+        endDate,
       }).unwrap();
       dispatch(
         pushToast({
@@ -210,6 +266,28 @@ export const TeacherAssignmentsPage = () => {
     }
   };
 
+  const handleSaveAccommodation = async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    const studentId = accommodationStudentId || students[0]?.id;
+    const scope = accommodationScope || (courses[0] ? `course-${courses[0].id}` : "");
+    if (!studentId || !scope) {
+      dispatch(pushToast({ type: "warning", message: "Select both student and scope." }));
+      return;
+    }
+
+    try {
+      const saved = await saveAccommodation({ studentId, multiplier, ...parseScope(scope) }).unwrap();
+      dispatch(
+        pushToast({
+          type: "success",
+          message: `${saved.studentName} gets ×${saved.multiplier} time on ${saved.scopeLabel}.`,
+        })
+      );
+    } catch (error) {
+      dispatch(pushToast({ type: "error", message: getErrorDetail(error) }));
+    }
+  };
+
   return (
     <section className="page-stack">
       <article className="panel panel-tight">
@@ -317,6 +395,28 @@ export const TeacherAssignmentsPage = () => {
               onChange={(event) => setAttemptCount(Number(event.target.value))}
             />
           </label>
+          <label>
+            <span>Grade policy</span>
+            <select
+              value={gradePolicy}
+              disabled={attemptCount <= 1}
+              onChange={(event) => setGradePolicy(event.target.value as GradePolicy)}
+            >
+              {GRADE_POLICIES.map((item) => (
+                <option key={item.value} value={item.value}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Opens (optional)</span>
+            <input type="datetime-local" value={windowStart} onChange={(event) => setWindowStart(event.target.value)} />
+          </label>
+          <label>
+            <span>Closes (optional)</span>
+            <input type="datetime-local" value={windowEnd} onChange={(event) => setWindowEnd(event.target.value)} />
+          </label>
           <div className="actions-row left">
             <button className="btn btn-primary" type="submit" disabled={createEnrollmentTestState.isLoading}>
               {createEnrollmentTestState.isLoading ? "Assigning..." : "Assign Test"}
@@ -334,6 +434,8 @@ export const TeacherAssignmentsPage = () => {
                 <th>Course</th>
                 <th>Test</th>
                 <th>Attempts</th>
+                <th>Grade Policy</th>
+                <th>Window</th>
                 <th>Actions</th>
               </tr>
             </thead>
@@ -343,6 +445,8 @@ export const TeacherAssignmentsPage = () => {
                   <td>{item.courseName}</td>
                   <td>{item.testTitle}</td>
                   <td>{item.attemptCount}</td>
+                  <td>{item.attemptCount > 1 ? gradePolicyLabel(item.gradePolicy) : "Single attempt"}</td>
+                  <td>{formatWindow(item.startDate, item.endDate)}</td>
                   <td>
                     <button
                       type="button"
@@ -367,6 +471,107 @@ export const TeacherAssignmentsPage = () => {
         </div>
       </article>
 
+      <article className="panel">
+        <h3>Time Accommodations</h3>
+        <p className="muted">
+          Multiplies the time limit of attempts started by this student. An assignment-level entry overrides the
+          course-level one.
+        </p>
+        <form className="field-grid" onSubmit={handleSaveAccommodation}>
+          <label>
+            <span>Student</span>
+            <select
+              value={accommodationStudentId || students[0]?.id || 0}
+              onChange={(event) => setAccommodationStudentId(Number(event.target.value))}
+            >
+              {students.map((student) => (
+                <option key={student.id} value={student.id}>
+                  {student.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Applies to</span>
+            <select
+              value={accommodationScope || (courses[0] ? `course-${courses[0].id}` : "")}
+              onChange={(event) => setAccommodationScope(event.target.value)}
+            >
+              {courses.map((course) => (
+                <option key={`course-${course.id}`} value={`course-${course.id}`}>
+                  Course: {course.name}
+                </option>
+              ))}
+              {assignments.map((item) => (
+                <option key={`assignment-${item.id}`} value={`assignment-${item.id}`}>
+                  Assignment: {item.testTitle} ({item.courseName})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Time multiplier</span>
+            <input
+              type="number"
+              min={1}
+              max={4}
+              step={0.25}
+              value={multiplier}
+              onChange={(event) => setMultiplier(Number(event.target.value))}
+            />
+          </label>
+          <div className="actions-row left">
+            <button className="btn btn-primary" type="submit" disabled={saveAccommodationState.isLoading}>
+              {saveAccommodationState.isLoading ? "Saving..." : "Save Accommodation"}
+            </button>
+          </div>
+        </form>
+
+        <div className="table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>Student</th>
+                <th>Applies to</th>
+                <th>Multiplier</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {accommodations.length === 0 ? (
+                <tr>
+                  <td colSpan={4}>No accommodations.</td>
+                </tr>
+              ) : (
+                accommodations.map((item) => (
+                  <tr key={item.id}>
+                    <td>{item.studentName}</td>
+                    <td>{item.scopeLabel}</td>
+                    <td>×{item.multiplier}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        disabled={deleteAccommodationState.isLoading}
+                        onClick={async () => {
+                          try {
+                            await deleteAccommodation(item.id).unwrap();
+                          } catch (error) {
+                            dispatch(pushToast({ type: "error", message: getErrorDetail(error) }));
+                          }
+                        }}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </article>
+
       <article className="panel">
         <h3>Current Student Enrollment</h3>
         <div className="table-wrap">
@@ -1,12 +1,24 @@
+import { useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { ErrorState } from "@/components/common/ErrorState";
 import { LoadingState } from "@/components/common/LoadingState";
-import { useGetTeacherAttemptDetailsQuery } from "@/store/api/api";
+import { RichText } from "@/components/common/RichText";
+import { ExtendAttemptControl } from "@/components/teacher/ExtendAttemptControl";
+import { GradeOverrideForm } from "@/components/teacher/GradeOverrideForm";
+import { useGetTeacherAttemptDetailsQuery, useGradeAttemptQuestionMutation } from "@/store/api/api";
 import type { TeacherAttemptQuestionDetail } from "@/types/domain";
 
+const optionSeparator = (question: TeacherAttemptQuestionDetail): string => {
+  if (question.questionType === "ordering") {
+    return " → ";
+  }
+
+  return question.questionType === "matching" ? "; " : ", ";
+};
+
 const formatOptions = (question: TeacherAttemptQuestionDetail): string => {
   if (question.selectedAnswers.length > 0) {
-    return question.selectedAnswers.map((item) => item.text).join(", ");
+    return question.selectedAnswers.map((item) => item.text).join(optionSeparator(question));
   }
 
   if (question.writtenAnswer.trim().length > 0) {
@@ -18,7 +30,7 @@ const formatOptions = (question: TeacherAttemptQuestionDetail): string => {
 
 const formatExpected = (question: TeacherAttemptQuestionDetail): string => {
   if (question.correctAnswers.length > 0) {
-    return question.correctAnswers.map((item) => item.text).join(", ");
+    return question.correctAnswers.map((item) => item.text).join(optionSeparator(question));
   }
 
   return "Not available";
@@ -33,6 +45,8 @@ export const TeacherAttemptDetailsPage = () => {
   const { data, isLoading, isError, error, refetch } = useGetTeacherAttemptDetailsQuery(parsedAttemptId, {
     skip: !Number.isFinite(parsedAttemptId),
   });
+  const [gradeQuestion, gradeState] = useGradeAttemptQuestionMutation();
+  const [editingQuestionId, setEditingQuestionId] = useState<number | null>(null);
 
   if (!Number.isFinite(parsedTestId) || !Number.isFinite(parsedAttemptId)) {
     return <ErrorState message="Invalid route parameters." onRetry={() => navigate("/teacher/tests")} />;
@@ -77,7 +91,21 @@ export const TeacherAttemptDetailsPage = () => {
             <dt>Submitted</dt>
             <dd>{data.completedAt ? new Date(data.completedAt).toLocaleString() : "In progress"}</dd>
           </div>
+          {data.questions.some((question) => question.hintsUsed > 0) ? (
+            <div>
+              <dt>Hints Used</dt>
+              <dd>{data.questions.reduce((sum, question) => sum + question.hintsUsed, 0)}</dd>
+            </div>
+          ) : null}
+          {data.status === "in_progress" ? (
+            <div>
+              <dt>Ends</dt>
+              <dd>{new Date(data.expiresAt).toLocaleString()}</dd>
+            </div>
+          ) : null}
         </dl>
+
+        {data.status === "in_progress" ? <ExtendAttemptControl attemptId={data.attemptId} testId={data.testId} /> : null}
       </article>
 
       <article className="panel">
@@ -89,8 +117,10 @@ export const TeacherAttemptDetailsPage = () => {
                 <th>Question</th>
                 <th>Type</th>
                 <th>Score</th>
+                <th>Hints</th>
                 <th>Student Answer</th>
                 <th>Expected</th>
+                <th>Grade</th>
               </tr>
             </thead>
             <tbody>
@@ -98,14 +128,57 @@ export const TeacherAttemptDetailsPage = () => {
                 <tr key={question.questionId}>
                   <td>
                     <strong>Q{index + 1}</strong>
-                    <div className="muted">{question.prompt}</div>
+                    <RichText text={question.prompt} className="muted" />
                   </td>
                   <td>{question.questionType}</td>
                   <td>
                     {question.score}/{question.maxScore}
                   </td>
-                  <td>{formatOptions(question)}</td>
-                  <td>{formatExpected(question)}</td>
+                  <td>
+                    {question.hintCount > 0 ? `${question.hintsUsed}/${question.hintCount}` : "-"}
+                    {question.hintPenalty > 0 ? <div className="muted">-{question.hintPenalty} pts</div> : null}
+                  </td>
+                  <td>
+                    {question.selectedAnswers.length > 0 ? (
+                      <RichText text={formatOptions(question)} inline />
+                    ) : (
+                      formatOptions(question)
+                    )}
+                    {question.matchedRule ? <div className="muted">Matched: {question.matchedRule}</div> : null}
+                  </td>
+                  <td>
+                    <RichText text={formatExpected(question)} inline />
+                  </td>
+                  <td>
+                    {question.manuallyGraded ? <span className="badge success">Graded</span> : null}
+                    {question.feedback ? <div className="muted">{question.feedback}</div> : null}
+                    {editingQuestionId === question.questionId ? (
+                      <GradeOverrideForm
+                        maxPoints={question.maxScore}
+                        initialPoints={question.score}
+                        initialFeedback={question.feedback}
+                        submitting={gradeState.isLoading}
+                        onSubmit={async (points, feedback) => {
+                          await gradeQuestion({
+                            testId: parsedTestId,
+                            attemptId: data.attemptId,
+                            questionId: question.questionId,
+                            points,
+                            feedback,
+                          }).unwrap();
+                          setEditingQuestionId(null);
+                        }}
+                      />
+                    ) : (
+                      <button
+                        className="btn btn-ghost"
+                        type="button"
+                        onClick={() => setEditingQuestionId(question.questionId)}
+                      >
+                        Override
+                      </button>
+                    )}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -1,13 +1,6 @@
 import { useMemo } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import {
-  useCreateTeacherQuestionMutation,
-  useCreateTeacherTestMutation,
-  useDeleteTeacherQuestionMutation,
-  useGetTeacherTestQuery,
-  useUpdateTeacherQuestionMutation,
-  useUpdateTeacherTestMutation,
-} from "@/store/api/api";
+import { useGetTeacherTestQuery, useSaveTeacherTestMutation } from "@/store/api/api";
 import { LoadingState } from "@/components/common/LoadingState";
 import { ErrorState } from "@/components/common/ErrorState";
 import {
@@ -27,51 +20,23 @@ export const TeacherBuilderPage = () => {
     skip: !editMode,
   });
 
-  const [createTest, createTestState] = useCreateTeacherTestMutation();
-  const [updateTest, updateTestState] = useUpdateTeacherTestMutation();
-  const [createQuestion] = useCreateTeacherQuestionMutation();
-  const [updateQuestion] = useUpdateTeacherQuestionMutation();
-  const [deleteQuestion] = useDeleteTeacherQuestionMutation();
-
-  const submitting = createTestState.isLoading || updateTestState.isLoading;
+  const [saveTest, saveTestState] = useSaveTeacherTestMutation();
 
+  // The test and all question changes go out as one save, so a rejected question leaves nothing half-written.
   const submitBuilderPayload = async (payload: BuilderSubmitPayload): Promise<void> => {
-    if (!editMode) {
-      const createdTest = await createTest(payload.test).unwrap();
-
-      for (const question of payload.questions) {
-        await createQuestion({
-          testId: createdTest.id,
-          question: toQuestionInput(question),
-        }).unwrap();
-      }
-
-      navigate(`/teacher/tests/${createdTest.id}`);
-      return;
-    }
-
-    const targetId = testId as number;
-    await updateTest({ id: targetId, data: payload.test }).unwrap();
-
-    for (const draft of payload.questions) {
-      if (draft.id) {
-        await updateQuestion({
-          questionId: draft.id,
-          testId: targetId,
-          question: toQuestionInput(draft),
-        }).unwrap();
-      } else {
-        await createQuestion({
-          testId: targetId,
-          question: toQuestionInput(draft),
-        }).unwrap();
-      }
-    }
-
-    for (const questionId of payload.deletedQuestionIds) {
-      await deleteQuestion(questionId).unwrap();
-    }
-    navigate("/teacher/tests");
+    const result = await saveTest({
+      testId: editMode ? testId : null,
+      test: payload.test,
+      questions: payload.questions.map((draft) => ({
+        clientId: draft.localId,
+        ...(draft.id ? { id: draft.id } : {}),
+        question: toQuestionInput(draft),
+      })),
+      deletedQuestionIds: payload.deletedQuestionIds,
+    }).unwrap();
+
+    // A new test opens in edit mode; without the created test in the response, the list is the safe landing page.
+    navigate(!editMode && result.test ? `/teacher/tests/${result.test.id}` : "/teacher/tests");
   };
 
   if (editMode && isLoading) {
@@ -93,7 +58,7 @@ export const TeacherBuilderPage = () => {
       <TeacherTestBuilder
         initialTest={editMode ? data : undefined}
         onSubmit={submitBuilderPayload}
-        submitting={submitting}
+        submitting={saveTestState.isLoading}
       />
     </section>
   );
@@ -0,0 +1,97 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { ErrorState } from "@/components/common/ErrorState";
+import { LoadingState } from "@/components/common/LoadingState";
+import { GradeOverrideForm } from "@/components/teacher/GradeOverrideForm";
+import { useGetGradingQueueQuery, useGradeAttemptQuestionMutation } from "@/store/api/api";
+import { useAppDispatch } from "@/store/hooks";
+import { pushToast } from "@/store/slices/uiSlice";
+
+export const TeacherGradingPage = () => {
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const { testId } = useParams<{ testId: string }>();
+  const parsedTestId = Number(testId);
+
+  const { data, isLoading, isError, error, refetch } = useGetGradingQueueQuery(parsedTestId, {
+    skip: !Number.isFinite(parsedTestId),
+  });
+  const [gradeQuestion, gradeState] = useGradeAttemptQuestionMutation();
+
+  if (!Number.isFinite(parsedTestId)) {
+    return <ErrorState message="Invalid test id." onRetry={() => navigate("/teacher/tests")} />;
+  }
+
+  if (isLoading) {
+    return <LoadingState label="Loading grading queue..." />;
+  }
+
+  if (isError || !data) {
+    const detail = (error as { data?: { detail?: string } })?.data?.detail ?? "Failed to load grading queue.";
+    return <ErrorState message={detail} onRetry={refetch} />;
+  }
+
+  return (
+    <section className="page-stack">
+      <article className="panel">
+        <div className="panel-header">
+          <div>
+            <h2>Grading Queue</h2>
+            <p>Written answers waiting for review. Flagged answers did not match any automatic rule.</p>
+          </div>
+          <button className="btn btn-secondary" type="button" onClick={() => navigate(`/teacher/results/${parsedTestId}`)}>
+            Back to Results
+          </button>
+        </div>
+      </article>
+
+      {data.length === 0 ? (
+        <article className="panel">
+          <p className="muted">All written answers are graded.</p>
+        </article>
+      ) : (
+        data.map((item) => (
+          <article key={`${item.attemptId}-${item.questionId}`} className="panel question-card">
+            <div className="panel-header compact">
+              <div>
+                <h3>{item.studentName}</h3>
+                <p className="muted">
+                  Attempt #{item.attemptId}
+                  {item.submittedAt ? ` | ${new Date(item.submittedAt).toLocaleString()}` : ""}
+                </p>
+              </div>
+              {item.flagged ? <span className="badge error">Flagged</span> : null}
+            </div>
+            <p>{item.prompt}</p>
+            <p>
+              <strong>Answer:</strong> {item.answerText || "No answer"}
+            </p>
+            <p>
+              <strong>Expected:</strong> {item.expectedText}
+            </p>
+            <p className="muted">
+              Auto score: {item.autoPoints}/{item.maxPoints}
+              {item.matchedRule ? ` (matched: ${item.matchedRule})` : ""}
+            </p>
+            <GradeOverrideForm
+              maxPoints={item.maxPoints}
+              initialPoints={item.autoPoints}
+              submitting={gradeState.isLoading}
+              onSubmit={async (points, feedback) => {
+                await gradeQuestion({
+                  testId: parsedTestId,
+                  attemptId: item.attemptId,
+                  questionId: item.questionId,
+                  points,
+                  feedback,
+                }).unwrap();
+                dispatch(pushToast({ type: "success", message: `Graded ${item.studentName}.` }));
+              }}
+            />
+          </article>
+        ))
+      )}
+    </section>
+  );
+};
+
+export default TeacherGradingPage;
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ErrorState } from "@/components/common/ErrorState";
+import { LoadingState } from "@/components/common/LoadingState";
+import { RichText } from "@/components/common/RichText";
+import {
+  useDeleteBankQuestionMutation,
+  useGetBankQuestionsQuery,
+  useUpdateBankQuestionMutation,
+} from "@/store/api/api";
+import { useAppDispatch } from "@/store/hooks";
+import { pushToast } from "@/store/slices/uiSlice";
+import type { BankQuestion } from "@/types/domain";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const parseTags = (value: string): string[] =>
+  value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+
+const TagEditor = ({ item }: { item: BankQuestion }) => {
+  const dispatch = useAppDispatch();
+  const [updateBankQuestion, updateState] = useUpdateBankQuestionMutation();
+  const [value, setValue] = useState(item.tags.join(", "));
+  const dirty = value !== item.tags.join(", ");
+
+  const save = async (): Promise<void> => {
+    try {
+      await updateBankQuestion({ id: item.id, tags: parseTags(value) }).unwrap();
+    } catch (error) {
+      const detail = (error as { data?: { detail?: string } })?.data?.detail;
+      dispatch(pushToast({ type: "error", message: detail ?? "Failed to update tags." }));
+    }
+  };
+
+  return (
+    <div className="actions-row left">
+      <input value={value} onChange={(event) => setValue(event.target.value)} placeholder="tag, another tag" />
+      {dirty ? (
+        <button
+          type="button"
+          className="btn btn-secondary"
+          disabled={updateState.isLoading}
+          onClick={() => void save()}
+        >
+          Save
+        </button>
+      ) : null}
+    </div>
+  );
+};
+
+export const TeacherQuestionBankPage = () => {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState("");
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data, isLoading, isError, error, refetch } = useGetBankQuestionsQuery({ search, tag });
+  // The tag list comes from the unfiltered bank so picking one tag does not hide the others.
+  const { data: allItems } = useGetBankQuestionsQuery({ search: "", tag: "" });
+  const [deleteBankQuestion, deleteState] = useDeleteBankQuestionMutation();
+
+  if (isLoading) {
+    return <LoadingState label="Loading question bank..." />;
+  }
+
+  if (isError) {
+    const detail = (error as { data?: { detail?: string } })?.data?.detail ?? "Failed to load the question bank.";
+    return <ErrorState message={detail} onRetry={refetch} />;
+  }
+
+  const items = data ?? [];
+  const tags = [...new Set((allItems ?? []).flatMap((item) => item.tags))].sort((a, b) => a.localeCompare(b));
+
+  return (
+    <section className="page-stack">
+      <article className="panel">
+        <div className="panel-header">
+          <h2>Question Bank</h2>
+          <Link to="/teacher/tests" className="btn btn-secondary">
+            Tests
+          </Link>
+        </div>
+        <p className="muted">
+          Questions saved from the test builder. Add them to any test with "Add from Bank"; edit the content from a test
+          that uses the item and choose "Update Bank Item".
+        </p>
+
+        <div className="field-grid">
+          <label>
+            <span>Search</span>
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(event) => setSearchInput(event.target.value)}
+              placeholder="Prompt, option or tag"
+            />
+          </label>
+          <label>
+            <span>Tag</span>
+            <select value={tag} onChange={(event) => setTag(event.target.value)}>
+              <option value="">All tags</option>
+              {tags.map((candidate) => (
+                <option key={candidate} value={candidate}>
+                  {candidate}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="muted">No bank questions match.</p>
+        ) : (
+          <div className="table-wrap">
+            <table>
+              <thead>
+                <tr>
+                  <th>Question</th>
+                  <th>Type</th>
+                  <th>Tags</th>
+                  <th>Used In</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={item.id}>
+                    <td>
+                      <RichText text={item.prompt} />
+                      <div className="muted">
+                        {item.points} pt | updated {new Date(item.updatedAt).toLocaleDateString()}
+                      </div>
+                    </td>
+                    <td>{item.type}</td>
+                    <td>
+                      <TagEditor key={item.tags.join(",")} item={item} />
+                    </td>
+                    <td>
+                      {item.usage.length === 0
+                        ? "-"
+                        : item.usage.map((usage) => (
+                            <div key={usage.questionId}>
+                              <Link to={`/teacher/tests/${usage.testId}`}>{usage.testTitle}</Link>
+                            </div>
+                          ))}
+                    </td>
+                    <td>
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        disabled={deleteState.isLoading}
+                        onClick={async () => {
+                          if (!window.confirm("Delete this bank question? Copies in tests are kept.")) {
+                            return;
+                          }
+
+                          await deleteBankQuestion(item.id);
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </article>
+    </section>
+  );
+};
+
+export default TeacherQuestionBankPage;
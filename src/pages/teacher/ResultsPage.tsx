@@ -1,7 +1,16 @@
 import { useNavigate, useParams } from "react-router-dom";
-import { useGetTeacherTestResultsQuery } from "@/store/api/api";
+import { useGetPracticeStatsQuery, useGetTeacherTestResultsQuery } from "@/store/api/api";
 import { LoadingState } from "@/components/common/LoadingState";
 import { ErrorState } from "@/components/common/ErrorState";
+import { ExtendAttemptControl } from "@/components/teacher/ExtendAttemptControl";
+import type { GradePolicy } from "@/types/domain";
+
+const GRADE_POLICY_LABELS: Record<GradePolicy, string> = {
+  best: "Best counts",
+  latest: "Latest counts",
+  average: "Averaged",
+  first: "First counts",
+};
 
 export const TeacherResultsPage = () => {
   const navigate = useNavigate();
@@ -11,6 +20,9 @@ export const TeacherResultsPage = () => {
   const { data, isLoading, isError, error, refetch } = useGetTeacherTestResultsQuery(parsedTestId, {
     skip: !Number.isFinite(parsedTestId),
   });
+  const { data: practiceStats } = useGetPracticeStatsQuery(parsedTestId, {
+    skip: !Number.isFinite(parsedTestId),
+  });
 
   if (!Number.isFinite(parsedTestId)) {
     return <ErrorState message="Invalid test id." onRetry={() => navigate("/teacher/tests")} />;
@@ -33,9 +45,18 @@ export const TeacherResultsPage = () => {
             <h2>{data.testTitle}</h2>
             <p>Aggregated submissions</p>
           </div>
-          <button className="btn btn-secondary" type="button" onClick={() => navigate(`/teacher/tests/${data.testId}`)}>
-            Back to Builder
-          </button>
+          <div className="actions-row">
+            <button
+              className={`btn ${data.pendingGrading > 0 ? "btn-primary" : "btn-ghost"}`}
+              type="button"
+              onClick={() => navigate(`/teacher/results/${data.testId}/grading`)}
+            >
+              Grading Queue ({data.pendingGrading})
+            </button>
+            <button className="btn btn-secondary" type="button" onClick={() => navigate(`/teacher/tests/${data.testId}`)}>
+              Back to Builder
+            </button>
+          </div>
         </div>
 
         <dl className="stats-grid">
@@ -54,6 +75,36 @@ export const TeacherResultsPage = () => {
         </dl>
       </article>
 
+      {data.activeAttempts.length > 0 ? (
+        <article className="panel">
+          <h3>In Progress</h3>
+          <div className="table-wrap">
+            <table>
+              <thead>
+                <tr>
+                  <th>Student</th>
+                  <th>Started</th>
+                  <th>Ends</th>
+                  <th>Extend</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.activeAttempts.map((row) => (
+                  <tr key={row.attemptId}>
+                    <td>{row.studentName}</td>
+                    <td>{new Date(row.startedAt).toLocaleTimeString()}</td>
+                    <td>{new Date(row.expiresAt).toLocaleTimeString()}</td>
+                    <td>
+                      <ExtendAttemptControl attemptId={row.attemptId} testId={data.testId} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </article>
+      ) : null}
+
       <article className="panel">
         <h3>Student Results</h3>
         <div className="table-wrap">
@@ -62,6 +113,7 @@ export const TeacherResultsPage = () => {
               <tr>
                 <th>Student</th>
                 <th>Score</th>
+                <th>Attempts</th>
                 <th>Percent</th>
                 <th>Status</th>
                 <th>Submitted</th>
@@ -71,7 +123,7 @@ export const TeacherResultsPage = () => {
             <tbody>
               {data.rows.length === 0 ? (
                 <tr>
-                  <td colSpan={6}>No submissions yet.</td>
+                  <td colSpan={7}>No submissions yet.</td>
                 </tr>
               ) : (
                 data.rows.map((row) => (
@@ -80,6 +132,10 @@ export const TeacherResultsPage = () => {
                     <td>
                       {row.score}/{row.maxScore}
                     </td>
+                    <td>
+                      {row.attemptsUsed}
+                      {row.attemptsUsed > 1 ? <div className="muted">{GRADE_POLICY_LABELS[row.gradePolicy]}</div> : null}
+                    </td>
                     <td>{row.percentage.toFixed(1)}%</td>
                     <td>
                       <span className={`badge ${row.passed ? "success" : "error"}`}>
@@ -103,6 +159,69 @@ export const TeacherResultsPage = () => {
           </table>
         </div>
       </article>
+
+      {data.items.length > 0 ? (
+        <article className="panel">
+          <h3>Item Analysis</h3>
+          <p className="muted">With question pools, each question is rated only on the attempts that drew it.</p>
+          <div className="table-wrap">
+            <table>
+              <thead>
+                <tr>
+                  <th>Question</th>
+                  <th>Pool</th>
+                  <th>Seen By</th>
+                  <th>Correct</th>
+                  <th>Avg. Points</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.items.map((item) => (
+                  <tr key={item.questionId}>
+                    <td>{item.prompt}</td>
+                    <td>{item.poolTitle ?? "Always asked"}</td>
+                    <td>{item.seenBy}</td>
+                    <td>{item.seenBy > 0 ? `${((item.correctCount / item.seenBy) * 100).toFixed(0)}%` : "-"}</td>
+                    <td>{item.seenBy > 0 ? `${item.averagePoints}/${item.maxPoints}` : "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </article>
+      ) : null}
+
+      {practiceStats && practiceStats.practiceAttempts > 0 ? (
+        <article className="panel">
+          <h3>Practice Activity</h3>
+          <p className="muted">
+            {practiceStats.practiceAttempts} practice {practiceStats.practiceAttempts === 1 ? "attempt" : "attempts"}.
+            Practice is not included in the scores above.
+          </p>
+          <div className="table-wrap">
+            <table>
+              <thead>
+                <tr>
+                  <th>Question</th>
+                  <th>Students</th>
+                  <th>Checks</th>
+                  <th>Correct Checks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {practiceStats.questions.map((row) => (
+                  <tr key={row.questionId}>
+                    <td>{row.prompt}</td>
+                    <td>{row.students}</td>
+                    <td>{row.checks}</td>
+                    <td>{row.checks > 0 ? `${((row.correctChecks / row.checks) * 100).toFixed(0)}%` : "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </article>
+      ) : null}
     </section>
   );
 };
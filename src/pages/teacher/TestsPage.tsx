@@ -1,11 +1,22 @@
+import { useState } from "react";
 import { Link } from "react-router-dom";
 import { useDeleteTeacherTestMutation, useGetTeacherTestsQuery } from "@/store/api/api";
 import { LoadingState } from "@/components/common/LoadingState";
 import { ErrorState } from "@/components/common/ErrorState";
+import { downloadBlob } from "@/lib/download";
+import { exportMoodleXml, exportQtiPackage, type InteropExport } from "@/lib/questionInterop";
+import type { TeacherTest } from "@/types/domain";
 
 export const TeacherTestsPage = () => {
   const { data, isLoading, isError, error, refetch } = useGetTeacherTestsQuery();
   const [deleteTest, deleteState] = useDeleteTeacherTestMutation();
+  const [exportReport, setExportReport] = useState<InteropExport | null>(null);
+
+  const exportTest = (test: TeacherTest, exporter: (test: TeacherTest) => InteropExport): void => {
+    const result = exporter(test);
+    downloadBlob(result.blob, result.fileName);
+    setExportReport(result.notes.length > 0 ? result : null);
+  };
 
   if (isLoading) {
     return <LoadingState label="Loading tests..." />;
@@ -20,6 +31,23 @@ export const TeacherTestsPage = () => {
 
   return (
     <section className="page-stack">
+      {exportReport ? (
+        <article className="panel">
+          <div className="panel-header">
+            <h3>Exported {exportReport.fileName}</h3>
+            <button type="button" className="btn btn-ghost" onClick={() => setExportReport(null)}>
+              Dismiss
+            </button>
+          </div>
+          <p className="muted">These parts could not be represented in the exported file:</p>
+          <ul>
+            {exportReport.notes.map((note, index) => (
+              <li key={index}>{note}</li>
+            ))}
+          </ul>
+        </article>
+      ) : null}
+
       <article className="panel">
         <div className="panel-header">
           <h2>All Tests</h2>
@@ -62,6 +90,16 @@ export const TeacherTestsPage = () => {
                       <Link className="btn btn-ghost" to={`/teacher/results/${test.id}`}>
                         Results
                       </Link>
+                      <button type="button" className="btn btn-ghost" onClick={() => exportTest(test, exportMoodleXml)}>
+                        Moodle XML
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => exportTest(test, exportQtiPackage)}
+                      >
+                        QTI
+                      </button>
                       <button
                         type="button"
                         className="btn btn-ghost"
@@ -6,17 +6,41 @@ import {
   type FetchBaseQueryError,
 } from "@reduxjs/toolkit/query/react";
 import { appEnv } from "@/config/env";
+import { resolveAvailability } from "@/lib/availability";
 import { clearSession } from "@/store/slices/authSlice";
+import { getServerNow, setServerTimeOffset } from "@/store/slices/uiSlice";
 import { clearProfile } from "@/store/slices/userSlice";
 import { runMockRequest } from "@/store/api/mockBaseQuery";
 import type {
+  ActiveAttemptRow,
   AttemptAnswerInput,
   AttemptResult,
+  AttemptStatus,
+  AttemptTiming,
+  BankQuestion,
+  BankQuestionFilter,
+  BankQuestionUpdate,
+  BankUpdateResult,
   Course,
   EnrollmentTestAssignment,
   Enrollment,
+  GradePolicy,
+  GradeQuestionInput,
+  GradingQueueItem,
+  HintReveal,
+  MatchPair,
+  NumericAnswerRules,
+  PracticeCheckInput,
+  PracticeStatsSummary,
+  QuestionDifficulty,
+  QuestionItemStat,
+  QuestionPool,
+  QuestionResult,
   QuestionType,
   Role,
+  SavedAttemptAnswer,
+  ScoringPolicy,
+  ShortAnswerRules,
   StartAttemptResponse,
   StudentDirectoryItem,
   StudentQuestion,
@@ -26,7 +50,14 @@ import type {
   TeacherQuestionInput,
   TeacherResultsSummary,
   TeacherTest,
+  TestMode,
+  TestSaveQuestionResult,
+  TestSaveRequest,
+  TestSaveResult,
   TestStatus,
+  TimeAccommodation,
+  TimeAccommodationInput,
+  UploadedImage,
   UserProfile,
 } from "@/types/domain";
 
@@ -36,6 +67,12 @@ type AuthStateShape = {
   };
 };
 
+type UiStateShape = {
+  ui: {
+    serverTimeOffsetMs: number;
+  };
+};
+
 type LoginResponse = {
   token: string;
   expiresAt?: string;
@@ -51,17 +88,28 @@ type BackendStudentTest = {
   teacher?: number | null;
   question_count?: number;
   created_at?: string;
+  attempts_used?: number;
+  attempts_allowed?: number;
+  last_attempt_id?: number | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  mode?: string;
 };
 
 type BackendStartAttempt = {
   attempt_id: number;
   test_id: number;
   started_at: string;
+  expires_at?: string | null;
+  server_time?: string | null;
+  seed?: number;
+  answers?: BackendAttemptAnswer[];
   test?: {
     id: number;
     title: string;
     description?: string;
     time_limit_sec?: number;
+    mode?: string;
     questions?: BackendStartQuestion[];
   };
 };
@@ -72,12 +120,35 @@ type BackendStartQuestion = {
   question_type: string;
   mark: number;
   input_kind?: "text" | "numeric";
+  unit_required?: boolean;
+  hint_count?: number;
+  hint_penalty_percent?: number;
+  revealed_hints?: string[];
+  image_url?: string | null;
   answer_options?: BackendStartQuestionOption[];
+  match_options?: BackendStartQuestionOption[];
 };
 
 type BackendStartQuestionOption = {
   id: number;
   text: string;
+  image_url?: string | null;
+};
+
+type BackendAttemptAnswer = {
+  question_id: number;
+  selected_option_ids?: number[];
+  ordered_option_ids?: number[];
+  matched_pairs?: Array<{ left_id: number; right_id: number }>;
+  written_answer?: string | null;
+  numeric_text?: string | null;
+  unit?: string | null;
+};
+
+type BackendSavedAnswer = {
+  attempt_id?: number;
+  question_id?: number;
+  saved_at?: string;
 };
 
 type BackendAttemptResult = {
@@ -95,8 +166,12 @@ type BackendTeacherTest = {
   title: string;
   description?: string;
   status?: string;
+  mode?: string;
   time_limit_sec?: number;
   passing_percent?: number;
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
+  pools?: BackendQuestionPool[];
   teacher?: number;
   created_at?: string;
   updated_at?: string;
@@ -108,6 +183,69 @@ type BackendQuestion = {
   question_type: string;
   mark: number;
   test: number;
+  partial_credit?: boolean;
+  scoring_policy?: string;
+  short_answer_rules?: BackendShortAnswerRules;
+  numeric_rules?: BackendNumericRules;
+  pool_id?: string | null;
+  difficulty?: string;
+  hints?: string[];
+  hint_penalty_percent?: number;
+  image_url?: string | null;
+  bank_question_id?: number | null;
+};
+
+// Bank items embed their answers and report where they are used.
+type BackendBankQuestion = Omit<BackendQuestion, "test"> & {
+  answers?: BackendAnswer[];
+  tags?: string[];
+  usage?: Array<{ test_id: number; test_title?: string; question_id: number }>;
+  updated_at?: string;
+};
+
+type BackendBankUpdate = {
+  item: BackendBankQuestion;
+  updated_questions?: number;
+  skipped_test_ids?: number[];
+};
+
+type BackendTestSaveQuestionResult = {
+  client_id: string;
+  status: string;
+  question_id?: number | null;
+  error?: string | null;
+};
+
+type BackendSavedTest = BackendTeacherTest & {
+  questions?: Array<Omit<BackendQuestion, "test"> & { answers?: BackendAnswer[] }>;
+};
+
+// A failed save answers 422 with the same `results` list and stores nothing.
+type BackendTestSave = {
+  saved?: boolean;
+  test?: BackendSavedTest | null;
+  results?: BackendTestSaveQuestionResult[];
+};
+
+type BackendQuestionPool = {
+  id: string;
+  title?: string;
+  draw_count?: number;
+  quotas?: Partial<Record<QuestionDifficulty, number>>;
+};
+
+type BackendNumericRules = {
+  relative_tolerance_percent?: number | null;
+  significant_figures?: number | null;
+  unit?: string | null;
+  accepted_units?: Array<{ label?: string; factor?: number }>;
+};
+
+type BackendShortAnswerRules = {
+  case_sensitive?: boolean;
+  whitespace?: string;
+  patterns?: string[];
+  typo_tolerance?: number;
 };
 
 type BackendAnswer = {
@@ -116,6 +254,21 @@ type BackendAnswer = {
   text: string;
   is_correct: boolean;
   match_text?: string | null;
+  image_url?: string | null;
+};
+
+type AnswerPayload = {
+  text: string;
+  is_correct: boolean;
+  match_text?: string;
+  image_url?: string;
+};
+
+type BackendUploadedImage = {
+  url: string;
+  width?: number;
+  height?: number;
+  size?: number;
 };
 
 type BackendTeacherResult = {
@@ -125,6 +278,54 @@ type BackendTeacherResult = {
   max_score?: number;
   percentage?: number;
   completed_at?: string | null;
+  pending_grading?: number;
+  attempts_used?: number;
+  grade_policy?: string;
+};
+
+type BackendHintReveal = {
+  hint?: string;
+  hints_used?: number;
+  hint_count?: number;
+};
+
+type BackendPracticeCheck = {
+  question_id: number;
+  prompt?: string;
+  question_type?: string;
+  correct?: boolean;
+  points_earned?: number;
+  points_max?: number;
+  explanation?: string;
+  correct_answer?: string;
+  user_answer?: string;
+};
+
+type BackendPracticeStat = {
+  question_id: number;
+  prompt?: string;
+  checks?: number;
+  correct_checks?: number;
+  students?: number;
+};
+
+type BackendPracticeStats = {
+  practice_attempts?: number;
+  questions?: BackendPracticeStat[];
+};
+
+type BackendGradingQueueItem = {
+  attempt_id: number;
+  question_id: number;
+  student_name?: string;
+  prompt?: string;
+  written_answer?: string | null;
+  expected_answer?: string | null;
+  score?: number;
+  max_score?: number;
+  flagged?: boolean;
+  matched_rule?: string | null;
+  completed_at?: string | null;
 };
 
 type BackendTeacherAttemptQuestion = {
@@ -134,6 +335,12 @@ type BackendTeacherAttemptQuestion = {
   score?: number;
   max_score?: number;
   written_answer?: string | null;
+  matched_rule?: string | null;
+  manually_graded?: boolean;
+  feedback?: string | null;
+  hints_used?: number;
+  hint_count?: number;
+  hint_penalty?: number;
   selected_answers?: Array<{ id?: number; text?: string }>;
   correct_answers?: Array<{ id?: number; text?: string }>;
 };
@@ -147,11 +354,47 @@ type BackendTeacherAttemptDetail = {
   score?: number;
   max_score?: number;
   percentage?: number;
+  status?: string;
   started_at?: string;
+  expires_at?: string;
   completed_at?: string | null;
   questions?: BackendTeacherAttemptQuestion[];
 };
 
+type BackendAttemptTiming = {
+  attempt_id?: number;
+  status?: string;
+  expires_at?: string;
+  server_time?: string | null;
+};
+
+type BackendActiveAttempt = {
+  attempt_id: number;
+  student_name?: string;
+  started_at?: string;
+  expires_at?: string;
+};
+
+type BackendItemStat = {
+  question_id: number;
+  prompt?: string;
+  pool_title?: string | null;
+  seen_by?: number;
+  correct_count?: number;
+  average_points?: number;
+  max_points?: number;
+};
+
+type BackendTimeAccommodation = {
+  id: number;
+  student_id: number;
+  student_name?: string;
+  course_id?: number | null;
+  assignment_id?: number | null;
+  scope_label?: string;
+  multiplier?: number;
+};
+
 type BackendStudent = {
   id?: number;
   name?: string;
@@ -166,13 +409,14 @@ type BackendEnrollmentTest = {
   course_id?: number;
   test_id?: number;
   attempt_count?: number;
+  grade_policy?: string;
   start_date?: string | null;
   end_date?: string | null;
 };
 
 const rawBaseQuery = fetchBaseQuery({
   baseUrl: appEnv.apiBaseUrl,
-  prepareHeaders: (headers, { getState }) => {
+  prepareHeaders: (headers, { getState, arg }) => {
     const state = getState() as AuthStateShape;
     const token = state.auth.token;
 
@@ -181,7 +425,9 @@ const rawBaseQuery = fetchBaseQuery({
     }
 
     headers.set("Accept", "application/json");
-    if (!headers.has("Content-Type")) {
+    // Multipart bodies need the browser-generated boundary, so their content type is left unset.
+    const body = typeof arg === "string" ? undefined : arg.body;
+    if (!headers.has("Content-Type") && !(body instanceof FormData)) {
       headers.set("Content-Type", "application/json");
     }
 
@@ -251,10 +497,18 @@ const mapStudentQuestionType = (questionType: string, answers: BackendAnswer[]):
     return "short";
   }
 
+  if (questionType === "ORD") {
+    return "ordering";
+  }
+
+  if (questionType === "MAT") {
+    return "matching";
+  }
+
   return "short";
 };
 
-const mapBackendQuestionType = (questionType: QuestionType): "OC" | "MC" | "WR" => {
+const mapBackendQuestionType = (questionType: QuestionType): "OC" | "MC" | "WR" | "ORD" | "MAT" => {
   if (questionType === "single") {
     return "OC";
   }
@@ -263,11 +517,26 @@ const mapBackendQuestionType = (questionType: QuestionType): "OC" | "MC" | "WR"
     return "MC";
   }
 
+  if (questionType === "ordering") {
+    return "ORD";
+  }
+
+  if (questionType === "matching") {
+    return "MAT";
+  }
+
   return "WR";
 };
 
 const parseQuestionType = (value: unknown): QuestionType => {
-  if (value === "single" || value === "multiple" || value === "short" || value === "numeric") {
+  if (
+    value === "single" ||
+    value === "multiple" ||
+    value === "short" ||
+    value === "numeric" ||
+    value === "ordering" ||
+    value === "matching"
+  ) {
     return value;
   }
 
@@ -279,9 +548,117 @@ const parseQuestionType = (value: unknown): QuestionType => {
     return "multiple";
   }
 
+  if (value === "ORD") {
+    return "ordering";
+  }
+
+  if (value === "MAT") {
+    return "matching";
+  }
+
   return "short";
 };
 
+const parseAttemptStatus = (value: unknown): AttemptStatus => {
+  if (value === "submitted" || value === "graded" || value === "expired") {
+    return value;
+  }
+
+  return "in_progress";
+};
+
+const mapTimeAccommodation = (row: BackendTimeAccommodation): TimeAccommodation => ({
+  id: row.id,
+  studentId: row.student_id,
+  studentName: row.student_name ?? `Student ${row.student_id}`,
+  courseId: row.course_id ?? null,
+  assignmentId: row.assignment_id ?? null,
+  scopeLabel: row.scope_label ?? "",
+  multiplier: normalizeNumber(row.multiplier, 1),
+});
+
+const parseGradePolicy = (value: unknown): GradePolicy => {
+  if (value === "latest" || value === "average" || value === "first") {
+    return value;
+  }
+
+  return "best";
+};
+
+const parseDifficulty = (value: unknown): QuestionDifficulty => {
+  if (value === "easy" || value === "hard") {
+    return value;
+  }
+
+  return "medium";
+};
+
+const parsePools = (pools: BackendQuestionPool[] | undefined): QuestionPool[] =>
+  (pools ?? []).map((pool) => ({
+    id: String(pool.id),
+    title: pool.title ?? "",
+    drawCount: normalizeNumber(pool.draw_count, 0),
+    quotas: {
+      easy: normalizeNumber(pool.quotas?.easy, 0),
+      medium: normalizeNumber(pool.quotas?.medium, 0),
+      hard: normalizeNumber(pool.quotas?.hard, 0),
+    },
+  }));
+
+const toBackendPools = (pools: QuestionPool[]): BackendQuestionPool[] =>
+  pools.map((pool) => ({ id: pool.id, title: pool.title, draw_count: pool.drawCount, quotas: pool.quotas }));
+
+const parseScoringPolicy = (value: unknown): ScoringPolicy => {
+  if (value === "proportional" || value === "right_minus_wrong" || value === "negative_marking") {
+    return value;
+  }
+
+  return "all_or_nothing";
+};
+
+// Extra accepted answers travel as additional correct answer rows after the primary one.
+const parseShortAnswerRules = (
+  rules: BackendShortAnswerRules | undefined,
+  acceptedAnswers: string[]
+): ShortAnswerRules => ({
+  acceptedAnswers,
+  caseSensitive: Boolean(rules?.case_sensitive),
+  whitespace: rules?.whitespace === "collapse" || rules?.whitespace === "exact" ? rules.whitespace : "ignore",
+  patterns: Array.isArray(rules?.patterns) ? rules.patterns.filter((pattern) => typeof pattern === "string") : [],
+  typoTolerance: Math.max(0, normalizeNumber(rules?.typo_tolerance, 0)),
+});
+
+const toBackendShortAnswerRules = (rules: ShortAnswerRules | undefined): BackendShortAnswerRules => ({
+  case_sensitive: rules?.caseSensitive ?? false,
+  whitespace: rules?.whitespace ?? "ignore",
+  patterns: rules?.patterns ?? [],
+  typo_tolerance: rules?.typoTolerance ?? 0,
+});
+
+// Zero, missing and malformed values all mean "rule not set".
+const positiveOrNull = (value: unknown): number | null => {
+  const parsed = normalizeNumber(value, Number.NaN);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const parseNumericRules = (rules: BackendNumericRules | undefined): NumericAnswerRules => ({
+  relativeTolerancePercent: positiveOrNull(rules?.relative_tolerance_percent),
+  significantFigures: positiveOrNull(rules?.significant_figures),
+  unit: rules?.unit?.trim() || null,
+  acceptedUnits: (rules?.accepted_units ?? [])
+    .map((item) => ({ label: String(item.label ?? "").trim(), factor: normalizeNumber(item.factor, Number.NaN) }))
+    .filter((item) => item.label.length > 0 && Number.isFinite(item.factor) && item.factor > 0),
+});
+
+const toBackendNumericRules = (rules: NumericAnswerRules | undefined): BackendNumericRules => ({
+  relative_tolerance_percent: rules?.relativeTolerancePercent ?? null,
+  significant_figures: rules?.significantFigures ?? null,
+  unit: rules?.unit ?? null,
+  accepted_units: rules?.acceptedUnits ?? [],
+});
+
+const parseTestMode = (value: unknown): TestMode => (value === "practice" ? "practice" : "exam");
+
 const parseTestStatus = (value: unknown): TestStatus => {
   if (value === "draft" || value === "published" || value === "archived") {
     return value;
@@ -295,8 +672,12 @@ const toTeacherTestModel = (test: BackendTeacherTest, questions: TeacherQuestion
   title: test.title,
   description: test.description ?? "",
   status: parseTestStatus(test.status),
+  mode: parseTestMode(test.mode),
   timeLimitSec: normalizeNumber(test.time_limit_sec, 1800),
   passingPercent: normalizeNumber(test.passing_percent, 60),
+  shuffleQuestions: Boolean(test.shuffle_questions),
+  shuffleOptions: Boolean(test.shuffle_options),
+  pools: parsePools(test.pools),
   courseId: null,
   questions,
   createdAt: test.created_at ?? new Date().toISOString(),
@@ -320,13 +701,16 @@ const mapEnrollmentTest = (row: BackendEnrollmentTest): EnrollmentTestAssignment
     ),
     testTitle: String(testFromNested?.title ?? testFromNested?.name ?? `Test ${row.test_id ?? ""}`),
     attemptCount: normalizeNumber(row.attempt_count, 3),
+    gradePolicy: parseGradePolicy(row.grade_policy),
     startDate: row.start_date ?? null,
     endDate: row.end_date ?? null,
   };
 };
 
-const toTeacherQuestion = (question: BackendQuestion, answers: BackendAnswer[]): TeacherQuestion => {
-  const mappedType = mapStudentQuestionType(question.question_type, answers);
+const toTeacherQuestion = (question: Omit<BackendQuestion, "test">, rawAnswers: BackendAnswer[]): TeacherQuestion => {
+  const mappedType = mapStudentQuestionType(question.question_type, rawAnswers);
+  // Ordering answers are created in sequence, so their ids carry the correct order.
+  const answers = mappedType === "ordering" ? rawAnswers.slice().sort((a, b) => a.id - b.id) : rawAnswers;
   const correctAnswer = answers.find((answer) => answer.is_correct);
   const numericCorrect = correctAnswer ? Number(correctAnswer.text) : Number.NaN;
   const tolerance = correctAnswer?.match_text ? Number(correctAnswer.match_text) : Number.NaN;
@@ -336,21 +720,57 @@ const toTeacherQuestion = (question: BackendQuestion, answers: BackendAnswer[]):
     prompt: question.text,
     type: mappedType,
     points: normalizeNumber(question.mark, 1),
-    options: answers.map((answer) => ({ id: answer.id, text: answer.text })),
+    options: answers.map((answer) => ({
+      id: answer.id,
+      text: answer.text,
+      ...(answer.image_url ? { imageUrl: answer.image_url } : {}),
+    })),
+    // A MAT answer row is one pair: `text` on the left, `match_text` on the right.
+    matchOptions:
+      mappedType === "matching" ? answers.map((answer) => ({ id: answer.id, text: answer.match_text ?? "" })) : [],
     correctOptionIds: answers.filter((answer) => answer.is_correct).map((answer) => answer.id),
+    correctPairs: mappedType === "matching" ? answers.map((answer) => ({ leftId: answer.id, rightId: answer.id })) : [],
     correctText: mappedType === "short" ? correctAnswer?.text ?? null : null,
     correctNumber: mappedType === "numeric" && Number.isFinite(numericCorrect) ? numericCorrect : null,
-    tolerance: Number.isFinite(tolerance) ? tolerance : null,
+    tolerance: mappedType === "numeric" && Number.isFinite(tolerance) ? tolerance : null,
+    partialCredit: Boolean(question.partial_credit),
+    scoringPolicy: parseScoringPolicy(question.scoring_policy),
+    shortAnswerRules: parseShortAnswerRules(
+      question.short_answer_rules,
+      mappedType === "short"
+        ? answers.filter((answer) => answer.is_correct && answer !== correctAnswer).map((answer) => answer.text)
+        : []
+    ),
+    numericRules: parseNumericRules(question.numeric_rules),
+    poolId: question.pool_id ?? null,
+    difficulty: parseDifficulty(question.difficulty),
+    hints: question.hints ?? [],
+    hintPenaltyPercent: normalizeNumber(question.hint_penalty_percent, 0),
+    imageUrl: question.image_url ?? null,
+    bankQuestionId: question.bank_question_id ?? null,
     explanation: "",
   };
 };
 
+const toBankQuestion = (row: BackendBankQuestion): BankQuestion => ({
+  ...toTeacherQuestion(row, row.answers ?? []),
+  bankQuestionId: null,
+  tags: row.tags ?? [],
+  usage: (row.usage ?? []).map((usage) => ({
+    testId: usage.test_id,
+    testTitle: usage.test_title ?? `Test ${usage.test_id}`,
+    questionId: usage.question_id,
+  })),
+  updatedAt: row.updated_at ?? new Date().toISOString(),
+});
+
 const toStudentQuestion = (question: TeacherQuestion): StudentQuestion => ({
   id: question.id,
   prompt: question.prompt,
   type: question.type,
   points: question.points,
   options: question.options,
+  ...(question.imageUrl ? { imageUrl: question.imageUrl } : {}),
 });
 
 const mapStartQuestionType = (question: BackendStartQuestion): QuestionType => {
@@ -366,7 +786,14 @@ const mapStartQuestionType = (question: BackendStartQuestion): QuestionType => {
     return question.input_kind === "numeric" ? "numeric" : "short";
   }
 
-  // ORD/MAT are not yet fully supported in current student renderer/scoring flow.
+  if (question.question_type === "ORD") {
+    return "ordering";
+  }
+
+  if (question.question_type === "MAT") {
+    return "matching";
+  }
+
   return "short";
 };
 
@@ -379,15 +806,89 @@ const toStudentQuestionFromStart = (question: BackendStartQuestion): StudentQues
     type: mappedType,
     points: normalizeNumber(question.mark, 1),
     options:
-      mappedType === "single" || mappedType === "multiple"
-        ? (question.answer_options ?? []).map((option) => ({
+      mappedType === "short" || mappedType === "numeric"
+        ? []
+        : (question.answer_options ?? []).map((option) => ({
+            id: option.id,
+            text: option.text,
+            ...(option.image_url ? { imageUrl: option.image_url } : {}),
+          })),
+    ...(question.image_url ? { imageUrl: question.image_url } : {}),
+    ...(mappedType === "numeric" && question.unit_required ? { expectsUnit: true } : {}),
+    ...(mappedType === "matching"
+      ? {
+          matchOptions: (question.match_options ?? []).map((option) => ({
             id: option.id,
             text: option.text,
-          }))
-        : [],
+          })),
+        }
+      : {}),
+    ...(normalizeNumber(question.hint_count, 0) > 0
+      ? {
+          hintCount: normalizeNumber(question.hint_count, 0),
+          hintPenaltyPercent: normalizeNumber(question.hint_penalty_percent, 0),
+          revealedHints: question.revealed_hints ?? [],
+        }
+      : {}),
+  };
+};
+
+const toBackendAttemptAnswer = (item: AttemptAnswerInput): BackendAttemptAnswer => ({
+  question_id: item.questionId,
+  selected_option_ids: item.selectedOptionIds ?? [],
+  ...(item.orderedOptionIds ? { ordered_option_ids: item.orderedOptionIds } : {}),
+  ...(item.matchedPairs
+    ? { matched_pairs: item.matchedPairs.map((pair) => ({ left_id: pair.leftId, right_id: pair.rightId })) }
+    : {}),
+  written_answer: typeof item.numericAnswer === "number" ? String(item.numericAnswer) : (item.textAnswer ?? ""),
+  ...(item.numericText !== undefined ? { numeric_text: item.numericText } : {}),
+  ...(item.numericUnit !== undefined ? { unit: item.numericUnit } : {}),
+});
+
+const fromBackendAttemptAnswer = (
+  answer: BackendAttemptAnswer,
+  questions: StudentQuestion[]
+): AttemptAnswerInput => {
+  const question = questions.find((item) => item.id === answer.question_id);
+  const written = answer.written_answer ?? "";
+
+  if (question?.type === "numeric") {
+    const numeric = written.trim() === "" ? Number.NaN : Number(written);
+    return {
+      questionId: answer.question_id,
+      numericAnswer: Number.isFinite(numeric) ? numeric : undefined,
+      numericText: answer.numeric_text ?? written,
+      ...(answer.unit ? { numericUnit: answer.unit } : {}),
+    };
+  }
+
+  if (question?.type === "short") {
+    return { questionId: answer.question_id, textAnswer: written };
+  }
+
+  if (question?.type === "ordering") {
+    return {
+      questionId: answer.question_id,
+      orderedOptionIds: Array.isArray(answer.ordered_option_ids) ? answer.ordered_option_ids : [],
+    };
+  }
+
+  if (question?.type === "matching") {
+    const pairs: MatchPair[] = Array.isArray(answer.matched_pairs)
+      ? answer.matched_pairs.map((pair) => ({ leftId: pair.left_id, rightId: pair.right_id }))
+      : [];
+    return { questionId: answer.question_id, matchedPairs: pairs };
+  }
+
+  return {
+    questionId: answer.question_id,
+    selectedOptionIds: Array.isArray(answer.selected_option_ids) ? answer.selected_option_ids : [],
   };
 };
 
+const idempotencyHeaders = (key?: string): Record<string, string> | undefined =>
+  key ? { "Idempotency-Key": key } : undefined;
+
 const shouldTryNextEndpoint = (error?: FetchBaseQueryError): boolean => {
   if (!error) {
     return false;
@@ -400,20 +901,76 @@ const shouldTryNextEndpoint = (error?: FetchBaseQueryError): boolean => {
   return error.status === "PARSING_ERROR";
 };
 
-const buildAnswerPayloads = (input: TeacherQuestionInput): Array<{ text: string; is_correct: boolean }> => {
-  if (input.type === "single" || input.type === "multiple") {
+const toBackendQuestionFields = (question: TeacherQuestionInput): Omit<BackendQuestion, "id" | "test"> => ({
+  text: question.prompt,
+  question_type: mapBackendQuestionType(question.type),
+  mark: question.points,
+  partial_credit: Boolean(question.partialCredit),
+  scoring_policy: question.scoringPolicy ?? "all_or_nothing",
+  ...(question.type === "short" ? { short_answer_rules: toBackendShortAnswerRules(question.shortAnswerRules) } : {}),
+  ...(question.type === "numeric" ? { numeric_rules: toBackendNumericRules(question.numericRules) } : {}),
+  pool_id: question.poolId ?? null,
+  difficulty: question.difficulty ?? "medium",
+  hints: question.hints ?? [],
+  hint_penalty_percent: question.hintPenaltyPercent ?? 0,
+  image_url: question.imageUrl ?? null,
+  bank_question_id: question.bankQuestionId ?? null,
+});
+
+const toBackendTestFields = (data: Partial<TeacherTest>): Partial<Omit<BackendTeacherTest, "id">> => ({
+  ...(typeof data.title === "string" ? { title: data.title } : {}),
+  ...(typeof data.description === "string" ? { description: data.description } : {}),
+  ...(typeof data.status === "string" ? { status: parseTestStatus(data.status) } : {}),
+  ...(typeof data.mode === "string" ? { mode: parseTestMode(data.mode) } : {}),
+  ...(typeof data.timeLimitSec === "number" ? { time_limit_sec: data.timeLimitSec } : {}),
+  ...(typeof data.passingPercent === "number" ? { passing_percent: data.passingPercent } : {}),
+  ...(typeof data.shuffleQuestions === "boolean" ? { shuffle_questions: data.shuffleQuestions } : {}),
+  ...(typeof data.shuffleOptions === "boolean" ? { shuffle_options: data.shuffleOptions } : {}),
+  ...(data.pools ? { pools: toBackendPools(data.pools) } : {}),
+});
+
+const toTestSaveQuestionResult = (row: BackendTestSaveQuestionResult): TestSaveQuestionResult => ({
+  clientId: row.client_id,
+  status: row.status === "created" || row.status === "updated" || row.status === "skipped" ? row.status : "failed",
+  questionId: row.question_id ?? null,
+  error: row.error ?? null,
+});
+
+const buildAnswerPayloads = (input: TeacherQuestionInput): AnswerPayload[] => {
+  if (input.type === "matching") {
+    return input.options
+      .map((option) => ({ text: option.text.trim(), is_correct: true, match_text: (option.matchText ?? "").trim() }))
+      .filter((option) => option.text.length > 0 && option.match_text.length > 0);
+  }
+
+  if (input.type === "ordering") {
+    // Every item is part of the answer; the creation order is the correct sequence.
     return input.options
-      .map((option) => ({ text: option.text.trim(), is_correct: option.isCorrect }))
+      .map((option) => ({ text: option.text.trim(), is_correct: true }))
       .filter((option) => option.text.length > 0);
   }
 
+  if (input.type === "single" || input.type === "multiple") {
+    // An option may be an image alone, with no text.
+    return input.options
+      .map((option) => ({
+        text: option.text.trim(),
+        is_correct: option.isCorrect,
+        ...(option.imageUrl ? { image_url: option.imageUrl } : {}),
+      }))
+      .filter((option) => option.text.length > 0 || option.image_url);
+  }
+
   if (input.type === "short") {
     const text = (input.correctText ?? "").trim();
     if (!text) {
       return [];
     }
 
-    return [{ text, is_correct: true }];
+    const alternatives = (input.shortAnswerRules?.acceptedAnswers ?? [])
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0 && item !== text);
+    return [text, ...alternatives].map((item) => ({ text: item, is_correct: true }));
   }
 
   const numeric = normalizeNumber(input.correctNumber, Number.NaN);
@@ -424,6 +981,29 @@ const buildAnswerPayloads = (input: TeacherQuestionInput): Array<{ text: string;
   return [{ text: String(numeric), is_correct: true }];
 };
 
+// Offset of the server clock against the local one, assuming the response was produced halfway
+// through the round trip. `resolutionMs` accounts for timestamps truncated to whole seconds.
+const measureServerOffset = (
+  serverTime: string | null | undefined,
+  sentAt: number,
+  receivedAt: number,
+  resolutionMs = 0
+): number | null => {
+  const serverMs = serverTime ? new Date(serverTime).getTime() : Number.NaN;
+  if (!Number.isFinite(serverMs)) {
+    return null;
+  }
+
+  return serverMs + resolutionMs / 2 - (sentAt + receivedAt) / 2;
+};
+
+// The device clock corrected by the measured server offset.
+const serverNowMs = (getState: () => unknown): number =>
+  getServerNow((getState() as UiStateShape).ui.serverTimeOffsetMs);
+
+// Fallback timestamp for rows the backend left undated, on the server's clock rather than the device's.
+const serverNowIso = (getState: () => unknown): string => new Date(serverNowMs(getState)).toISOString();
+
 const baseQueryWithMode: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQueryError> = async (
   args,
   api,
@@ -442,8 +1022,15 @@ const baseQueryWithMode: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQuery
     return result as { data?: unknown; error?: FetchBaseQueryError };
   }
 
+  const sentAt = Date.now();
   const result = await rawBaseQuery(args, api, extraOptions);
 
+  // The Date header is only readable cross-origin when the backend exposes it.
+  const offset = measureServerOffset(result.meta?.response?.headers.get("Date"), sentAt, Date.now(), 1000);
+  if (offset !== null) {
+    api.dispatch(setServerTimeOffset(offset));
+  }
+
   if (result.error?.status === 401) {
     api.dispatch(clearSession());
     api.dispatch(clearProfile());
@@ -465,6 +1052,10 @@ export const api = createApi({
     "Enrollment",
     "Students",
     "Assignments",
+    "GradingQueue",
+    "Accommodations",
+    "PracticeStats",
+    "BankQuestions",
   ],
   endpoints: (builder) => ({
     loginWithTelegram: builder.mutation<LoginResponse, { initData: string; roleHint?: Role }>({
@@ -578,7 +1169,7 @@ export const api = createApi({
     }),
 
     getStudentTests: builder.query<StudentTestSummary[], void>({
-      queryFn: async (_arg, _api, _extraOptions, baseQuery) => {
+      queryFn: async (_arg, queryApi, _extraOptions, baseQuery) => {
         if (appEnv.useMockData) {
           const mockResult = await baseQuery("/testapp/api/v1/student/tests/");
           if (mockResult.error) {
@@ -594,14 +1185,29 @@ export const api = createApi({
         }
 
         const rows = Array.isArray(result.data) ? (result.data as BackendStudentTest[]) : [];
-        const mapped = rows.map((row) => ({
-          id: row.id,
-          title: row.title,
-          description: row.description ?? "",
-          questionCount: normalizeNumber(row.question_count, 0),
-          timeLimitSec: normalizeNumber(row.time_limit_sec, 1800),
-          status: "open" as const,
-        }));
+        // Windows are in server time, so they are compared against the corrected clock like the timer is.
+        const nowMs = serverNowMs(queryApi.getState);
+        const mapped = rows.map((row) => {
+          const attemptsUsed = normalizeNumber(row.attempts_used, 0);
+          const attemptsAllowed = normalizeNumber(row.attempts_allowed, 1);
+          const mode = parseTestMode(row.mode);
+
+          return {
+            id: row.id,
+            title: row.title,
+            description: row.description ?? "",
+            questionCount: normalizeNumber(row.question_count, 0),
+            timeLimitSec: normalizeNumber(row.time_limit_sec, 1800),
+            mode,
+            status: mode === "exam" && attemptsUsed >= attemptsAllowed ? ("completed" as const) : ("open" as const),
+            attemptsUsed,
+            attemptsAllowed,
+            lastAttemptId: row.last_attempt_id ?? null,
+            availableFrom: row.start_date ?? null,
+            availableUntil: row.end_date ?? null,
+            availability: resolveAvailability(row.start_date ?? null, row.end_date ?? null, nowMs),
+          };
+        });
 
         return { data: mapped };
       },
@@ -609,7 +1215,9 @@ export const api = createApi({
     }),
 
     startStudentTest: builder.mutation<StartAttemptResponse, { testId: number }>({
-      queryFn: async ({ testId }, _api, _extraOptions, baseQuery) => {
+      queryFn: async ({ testId }, queryApi, _extraOptions, baseQuery) => {
+        const sentAt = Date.now();
+
         if (appEnv.useMockData) {
           const mockStart = await baseQuery({
             url: `/testapp/api/v1/student/tests/${testId}/start/`,
@@ -620,7 +1228,13 @@ export const api = createApi({
             return { error: mockStart.error };
           }
 
-          return { data: mockStart.data as StartAttemptResponse };
+          const mockData = mockStart.data as StartAttemptResponse;
+          const mockOffset = measureServerOffset(mockData.serverTime, sentAt, Date.now());
+          if (mockOffset !== null) {
+            queryApi.dispatch(setServerTimeOffset(mockOffset));
+          }
+
+          return { data: mockData };
         }
 
         const start = await baseQuery({
@@ -633,6 +1247,10 @@ export const api = createApi({
         }
 
         const startData = start.data as BackendStartAttempt;
+        const offset = measureServerOffset(startData.server_time, sentAt, Date.now());
+        if (offset !== null) {
+          queryApi.dispatch(setServerTimeOffset(offset));
+        }
 
         const tests = await baseQuery("/testapp/api/v1/student/tests/");
         const testList = Array.isArray(tests.data) ? (tests.data as BackendStudentTest[]) : [];
@@ -640,7 +1258,11 @@ export const api = createApi({
         const rawQuestions = Array.isArray(startData.test?.questions) ? startData.test?.questions : [];
         const mappedQuestions = rawQuestions.map(toStudentQuestionFromStart);
 
-        const startedAt = startData.started_at ?? new Date().toISOString();
+        const startedAt = startData.started_at ?? startData.server_time ?? serverNowIso(queryApi.getState);
+        const timeLimitSec = normalizeNumber(startData.test?.time_limit_sec ?? current?.time_limit_sec, 1800);
+        // The deadline is anchored to the server's start time, never to the device clock.
+        const expiresAt =
+          startData.expires_at ?? new Date(new Date(startedAt).getTime() + timeLimitSec * 1000).toISOString();
 
         return {
           data: {
@@ -649,29 +1271,84 @@ export const api = createApi({
               testId,
               status: "in_progress",
               startedAt,
-              expiresAt: new Date(new Date(startedAt).getTime() + 30 * 60 * 1000).toISOString(),
+              expiresAt,
               submittedAt: null,
+              // The backend sends questions and options already in this attempt's order.
+              seed: normalizeNumber(startData.seed, 0),
             },
             test: {
               id: testId,
               title: startData.test?.title ?? current?.title ?? `Test ${testId}`,
               description: startData.test?.description ?? current?.description ?? "",
-              timeLimitSec: normalizeNumber(startData.test?.time_limit_sec ?? current?.time_limit_sec, 1800),
+              timeLimitSec,
+              mode: parseTestMode(startData.test?.mode ?? current?.mode),
               questions: mappedQuestions,
             },
+            answers: (startData.answers ?? []).map((answer) => fromBackendAttemptAnswer(answer, mappedQuestions)),
+            ...(startData.server_time ? { serverTime: startData.server_time } : {}),
           },
         };
       },
       invalidatesTags: ["StudentTests", "Attempt"],
     }),
 
-    submitStudentAttempt: builder.mutation<AttemptResult, { attemptId: number; answers: AttemptAnswerInput[] }>({
-      queryFn: async ({ attemptId, answers }, _api, _extraOptions, baseQuery) => {
+    saveAttemptAnswer: builder.mutation<
+      SavedAttemptAnswer,
+      { attemptId: number; answer: AttemptAnswerInput; idempotencyKey?: string }
+    >({
+      queryFn: async ({ attemptId, answer, idempotencyKey }, _api, _extraOptions, baseQuery) => {
+        const headers = idempotencyHeaders(idempotencyKey);
+
+        if (appEnv.useMockData) {
+          const mockSave = await baseQuery({
+            url: `/testapp/api/v1/student/attempts/${attemptId}/answers/`,
+            method: "POST",
+            body: { answer },
+            headers,
+          });
+
+          if (mockSave.error) {
+            return { error: mockSave.error };
+          }
+
+          return { data: mockSave.data as SavedAttemptAnswer };
+        }
+
+        const result = await baseQuery({
+          url: `/testapp/api/v1/student/attempts/${attemptId}/answers/`,
+          method: "POST",
+          body: toBackendAttemptAnswer(answer),
+          headers,
+        });
+
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        const data = (result.data ?? {}) as BackendSavedAnswer;
+        return {
+          data: {
+            attemptId: normalizeNumber(data.attempt_id, attemptId),
+            questionId: normalizeNumber(data.question_id, answer.questionId),
+            savedAt: data.saved_at ?? new Date().toISOString(),
+          },
+        };
+      },
+    }),
+
+    submitStudentAttempt: builder.mutation<
+      AttemptResult,
+      { attemptId: number; answers: AttemptAnswerInput[]; idempotencyKey?: string }
+    >({
+      queryFn: async ({ attemptId, answers, idempotencyKey }, _api, _extraOptions, baseQuery) => {
+        const headers = idempotencyHeaders(idempotencyKey);
+
         if (appEnv.useMockData) {
           const mockSubmit = await baseQuery({
             url: `/testapp/api/v1/student/attempts/${attemptId}/submit/`,
             method: "POST",
             body: { answers },
+            headers,
           });
 
           if (mockSubmit.error) {
@@ -682,20 +1359,14 @@ export const api = createApi({
         }
 
         const payload = {
-          answers: answers.map((item) => ({
-            question_id: item.questionId,
-            selected_option_ids: item.selectedOptionIds ?? [],
-            written_answer:
-              typeof item.numericAnswer === "number"
-                ? String(item.numericAnswer)
-                : (item.textAnswer ?? ""),
-          })),
+          answers: answers.map(toBackendAttemptAnswer),
         };
 
         const result = await baseQuery({
           url: `/testapp/api/v1/student/attempts/${attemptId}/submit/`,
           method: "POST",
           body: payload,
+          headers,
         });
 
         if (result.error) {
@@ -724,73 +1395,187 @@ export const api = createApi({
       invalidatesTags: ["StudentTests", "Attempt"],
     }),
 
-    getStudentAttemptResult: builder.query<AttemptResult, number>({
-      queryFn: async (attemptId, _api, _extraOptions, baseQuery) => {
+    revealHint: builder.mutation<HintReveal, { attemptId: number; questionId: number }>({
+      queryFn: async ({ attemptId, questionId }, _api, _extraOptions, baseQuery) => {
+        const url = `/testapp/api/v1/student/attempts/${attemptId}/questions/${questionId}/hint/`;
+
         if (appEnv.useMockData) {
-          const mockResult = await baseQuery(`/testapp/api/v1/student/attempts/${attemptId}/result/`);
+          const mockResult = await baseQuery({ url, method: "POST" });
           if (mockResult.error) {
             return { error: mockResult.error };
           }
 
-          return { data: mockResult.data as AttemptResult };
+          return { data: mockResult.data as HintReveal };
         }
 
-        const result = await baseQuery(`/testapp/api/v1/student/attempts/${attemptId}/result/`);
+        const result = await baseQuery({ url, method: "POST" });
         if (result.error) {
           return { error: result.error };
         }
 
-        const data = result.data as BackendAttemptResult;
-        const percent = normalizeNumber(data.percentage, 0);
-        const score = normalizeNumber(data.score, 0);
-        const maxScore = percent > 0 ? (score * 100) / percent : score;
-
+        const data = (result.data ?? {}) as BackendHintReveal;
+        const hintsUsed = normalizeNumber(data.hints_used, 1);
         return {
           data: {
-            attemptId: data.attempt_id,
-            testId: normalizeNumber(data.test_id, 0),
-            testTitle: `Attempt ${data.attempt_id}`,
-            score,
-            maxScore: Number.isFinite(maxScore) ? Number(maxScore.toFixed(2)) : score,
-            percentage: percent,
-            passed: percent >= 60,
-            submittedAt: data.completed_at ?? new Date().toISOString(),
-            breakdown: [],
+            attemptId,
+            questionId,
+            hint: data.hint ?? "",
+            hintsUsed,
+            hintCount: normalizeNumber(data.hint_count, hintsUsed),
           },
         };
       },
-      providesTags: (_result, _error, attemptId) => [{ type: "Attempt", id: attemptId }],
     }),
 
-    getTeacherTests: builder.query<TeacherTest[], void>({
-      queryFn: async (_arg, _api, _extraOptions, baseQuery) => {
+    checkPracticeAnswer: builder.mutation<QuestionResult, PracticeCheckInput>({
+      queryFn: async ({ attemptId, answer }, _api, _extraOptions, baseQuery) => {
         if (appEnv.useMockData) {
-          const mockResult = await baseQuery("/testapp/teacher/tests/");
+          const mockResult = await baseQuery({
+            url: `/testapp/api/v1/student/attempts/${attemptId}/check/`,
+            method: "POST",
+            body: { answer },
+          });
+
           if (mockResult.error) {
             return { error: mockResult.error };
           }
 
-          return { data: mockResult.data as TeacherTest[] };
+          return { data: mockResult.data as QuestionResult };
         }
 
-        const result = await baseQuery("/testapp/teacher/tests/");
+        const result = await baseQuery({
+          url: `/testapp/api/v1/student/attempts/${attemptId}/check/`,
+          method: "POST",
+          body: toBackendAttemptAnswer(answer),
+        });
+
         if (result.error) {
           return { error: result.error };
         }
 
-        const rows = Array.isArray(result.data) ? (result.data as BackendTeacherTest[]) : [];
+        const data = result.data as BackendPracticeCheck;
+        const pointsMax = normalizeNumber(data.points_max, 1);
+        const correct = Boolean(data.correct);
+
         return {
-          data: rows.map((row) => toTeacherTestModel(row)),
+          data: {
+            questionId: normalizeNumber(data.question_id, answer.questionId),
+            prompt: data.prompt ?? "",
+            type: mapStudentQuestionType(data.question_type ?? "", []),
+            correct,
+            pointsEarned: normalizeNumber(data.points_earned, correct ? pointsMax : 0),
+            pointsMax,
+            explanation: data.explanation ?? "",
+            correctAnswerText: data.correct_answer ?? "",
+            userAnswerText: data.user_answer ?? "",
+          },
         };
       },
-      providesTags: ["TeacherTests"],
+      invalidatesTags: ["PracticeStats"],
     }),
 
-    getTeacherTest: builder.query<TeacherTest, number>({
-      queryFn: async (testId, _api, _extraOptions, baseQuery) => {
+    getStudentAttemptTiming: builder.query<AttemptTiming, number>({
+      queryFn: async (attemptId, queryApi, _extraOptions, baseQuery) => {
+        const sentAt = Date.now();
+        const result = await baseQuery(`/testapp/api/v1/student/attempts/${attemptId}/`);
+        if (result.error) {
+          return { error: result.error };
+        }
+
         if (appEnv.useMockData) {
-          const mockResult = await baseQuery(`/testapp/teacher/tests/${testId}/`);
-          if (mockResult.error) {
+          const mockData = result.data as AttemptTiming;
+          const mockOffset = measureServerOffset(mockData.serverTime, sentAt, Date.now());
+          if (mockOffset !== null) {
+            queryApi.dispatch(setServerTimeOffset(mockOffset));
+          }
+
+          return { data: mockData };
+        }
+
+        const data = result.data as BackendAttemptTiming;
+        const offset = measureServerOffset(data.server_time, sentAt, Date.now());
+        if (offset !== null) {
+          queryApi.dispatch(setServerTimeOffset(offset));
+        }
+
+        return {
+          data: {
+            attemptId: normalizeNumber(data.attempt_id, attemptId),
+            status: parseAttemptStatus(data.status),
+            expiresAt: data.expires_at ?? data.server_time ?? serverNowIso(queryApi.getState),
+          },
+        };
+      },
+      providesTags: (_result, _error, attemptId) => [{ type: "Attempt", id: attemptId }],
+    }),
+
+    getStudentAttemptResult: builder.query<AttemptResult, number>({
+      queryFn: async (attemptId, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery(`/testapp/api/v1/student/attempts/${attemptId}/result/`);
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as AttemptResult };
+        }
+
+        const result = await baseQuery(`/testapp/api/v1/student/attempts/${attemptId}/result/`);
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        const data = result.data as BackendAttemptResult;
+        const percent = normalizeNumber(data.percentage, 0);
+        const score = normalizeNumber(data.score, 0);
+        const maxScore = percent > 0 ? (score * 100) / percent : score;
+
+        return {
+          data: {
+            attemptId: data.attempt_id,
+            testId: normalizeNumber(data.test_id, 0),
+            testTitle: `Attempt ${data.attempt_id}`,
+            score,
+            maxScore: Number.isFinite(maxScore) ? Number(maxScore.toFixed(2)) : score,
+            percentage: percent,
+            passed: percent >= 60,
+            submittedAt: data.completed_at ?? new Date().toISOString(),
+            breakdown: [],
+          },
+        };
+      },
+      providesTags: (_result, _error, attemptId) => [{ type: "Attempt", id: attemptId }],
+    }),
+
+    getTeacherTests: builder.query<TeacherTest[], void>({
+      queryFn: async (_arg, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery("/testapp/teacher/tests/");
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as TeacherTest[] };
+        }
+
+        const result = await baseQuery("/testapp/teacher/tests/");
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        const rows = Array.isArray(result.data) ? (result.data as BackendTeacherTest[]) : [];
+        return {
+          data: rows.map((row) => toTeacherTestModel(row)),
+        };
+      },
+      providesTags: ["TeacherTests"],
+    }),
+
+    getTeacherTest: builder.query<TeacherTest, number>({
+      queryFn: async (testId, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery(`/testapp/teacher/tests/${testId}/`);
+          if (mockResult.error) {
             return { error: mockResult.error };
           }
 
@@ -851,8 +1636,12 @@ export const api = createApi({
             title: payload.title ?? "Untitled Test",
             description: payload.description ?? "",
             status: parseTestStatus(payload.status),
+            mode: parseTestMode(payload.mode),
             time_limit_sec: normalizeNumber(payload.timeLimitSec, 1800),
             passing_percent: normalizeNumber(payload.passingPercent, 60),
+            shuffle_questions: Boolean(payload.shuffleQuestions),
+            shuffle_options: Boolean(payload.shuffleOptions),
+            pools: toBackendPools(payload.pools ?? []),
           },
         });
 
@@ -885,13 +1674,7 @@ export const api = createApi({
         const result = await baseQuery({
           url: `/testapp/teacher/tests/${id}/`,
           method: "PATCH",
-          body: {
-            ...(typeof data.title === "string" ? { title: data.title } : {}),
-            ...(typeof data.description === "string" ? { description: data.description } : {}),
-            ...(typeof data.status === "string" ? { status: parseTestStatus(data.status) } : {}),
-            ...(typeof data.timeLimitSec === "number" ? { time_limit_sec: data.timeLimitSec } : {}),
-            ...(typeof data.passingPercent === "number" ? { passing_percent: data.passingPercent } : {}),
-          },
+          body: toBackendTestFields(data),
         });
 
         if (result.error) {
@@ -912,6 +1695,79 @@ export const api = createApi({
       invalidatesTags: ["TeacherTests"],
     }),
 
+    saveTeacherTest: builder.mutation<TestSaveResult, TestSaveRequest>({
+      queryFn: async (request, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery({
+            url: "/testapp/teacher/tests/save/",
+            method: "POST",
+            body: request,
+          });
+
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as TestSaveResult };
+        }
+
+        const result = await baseQuery({
+          url: "/testapp/api/v1/teacher/tests/save/",
+          method: "POST",
+          body: {
+            test_id: request.testId,
+            test: toBackendTestFields(request.test),
+            questions: request.questions.map((item) => ({
+              client_id: item.clientId,
+              ...(item.id !== undefined ? { id: item.id } : {}),
+              ...toBackendQuestionFields(item.question),
+              answers: buildAnswerPayloads(item.question),
+            })),
+            deleted_question_ids: request.deletedQuestionIds,
+          },
+        });
+
+        if (result.error) {
+          // Per-question failures are passed on in the model's shape so the builder can mark each draft.
+          const data = result.error.data as (BackendTestSave & { detail?: string }) | undefined;
+          if (Array.isArray(data?.results)) {
+            return {
+              error: {
+                status: result.error.status,
+                data: { detail: data.detail, results: data.results.map(toTestSaveQuestionResult) },
+              } as FetchBaseQueryError,
+            };
+          }
+          return { error: result.error };
+        }
+
+        const data = result.data as BackendTestSave;
+        // A backend may report a rejected save in a 200 body; it is still a failure the builder has to show.
+        if (data.saved === false) {
+          return {
+            error: {
+              status: 422,
+              data: {
+                detail: "Some questions could not be saved.",
+                results: (data.results ?? []).map(toTestSaveQuestionResult),
+              },
+            },
+          };
+        }
+
+        const test = data.test
+          ? toTeacherTestModel(
+              data.test,
+              (data.test.questions ?? []).map((question) => toTeacherQuestion(question, question.answers ?? []))
+            )
+          : null;
+        return {
+          data: { saved: true, test, results: (data.results ?? []).map(toTestSaveQuestionResult) },
+        };
+      },
+      invalidatesTags: ["TeacherTests", "BankQuestions"],
+    }),
+
     createTeacherQuestion: builder.mutation<TeacherQuestion, { testId: number; question: TeacherQuestionInput }>({
       queryFn: async ({ testId, question }, _api, _extraOptions, baseQuery) => {
         if (appEnv.useMockData) {
@@ -932,9 +1788,7 @@ export const api = createApi({
           url: "/testapp/teacher/questions/",
           method: "POST",
           body: {
-            text: question.prompt,
-            question_type: mapBackendQuestionType(question.type),
-            mark: question.points,
+            ...toBackendQuestionFields(question),
             test: testId,
           },
         });
@@ -955,6 +1809,8 @@ export const api = createApi({
               question: createdQuestion.id,
               text: payload.text,
               is_correct: payload.is_correct,
+              ...(payload.match_text ? { match_text: payload.match_text } : {}),
+              ...(payload.image_url ? { image_url: payload.image_url } : {}),
             },
           });
 
@@ -967,7 +1823,7 @@ export const api = createApi({
 
         return { data: toTeacherQuestion(createdQuestion, createdAnswers) };
       },
-      invalidatesTags: ["TeacherTests"],
+      invalidatesTags: ["TeacherTests", "BankQuestions"],
     }),
 
     updateTeacherQuestion: builder.mutation<TeacherQuestion, { questionId: number; testId: number; question: TeacherQuestionInput }>({
@@ -990,9 +1846,7 @@ export const api = createApi({
           url: `/testapp/teacher/questions/${questionId}/`,
           method: "PATCH",
           body: {
-            text: question.prompt,
-            question_type: mapBackendQuestionType(question.type),
-            mark: question.points,
+            ...toBackendQuestionFields(question),
             test: testId,
           },
         });
@@ -1032,6 +1886,8 @@ export const api = createApi({
               question: questionId,
               text: payload.text,
               is_correct: payload.is_correct,
+              ...(payload.match_text ? { match_text: payload.match_text } : {}),
+              ...(payload.image_url ? { image_url: payload.image_url } : {}),
             },
           });
 
@@ -1044,7 +1900,41 @@ export const api = createApi({
 
         return { data: toTeacherQuestion(updateQuestionResult.data as BackendQuestion, recreatedAnswers) };
       },
-      invalidatesTags: ["TeacherTests"],
+      invalidatesTags: ["TeacherTests", "BankQuestions"],
+    }),
+
+    // The builder compresses images before they get here; width and height travel alongside the file.
+    uploadImage: builder.mutation<UploadedImage, { file: Blob; fileName: string; width: number; height: number }>({
+      queryFn: async ({ file, fileName, width, height }, _api, _extraOptions, baseQuery) => {
+        const body = new FormData();
+        body.append("image", file, fileName);
+        body.append("width", String(width));
+        body.append("height", String(height));
+
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery({ url: "/testapp/teacher/uploads/images/", method: "POST", body });
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as UploadedImage };
+        }
+
+        const result = await baseQuery({ url: "/testapp/api/v1/teacher/uploads/images/", method: "POST", body });
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        const data = (result.data ?? {}) as BackendUploadedImage;
+        return {
+          data: {
+            url: data.url ?? "",
+            width: normalizeNumber(data.width, width),
+            height: normalizeNumber(data.height, height),
+            sizeBytes: normalizeNumber(data.size, file.size),
+          },
+        };
+      },
     }),
 
     deleteTeacherQuestion: builder.mutation<{ success: true }, number>({
@@ -1052,11 +1942,123 @@ export const api = createApi({
         url: `/testapp/teacher/questions/${questionId}/`,
         method: "DELETE",
       }),
-      invalidatesTags: ["TeacherTests"],
+      invalidatesTags: ["TeacherTests", "BankQuestions"],
+    }),
+
+    getBankQuestions: builder.query<BankQuestion[], BankQuestionFilter>({
+      queryFn: async ({ search, tag }, _api, _extraOptions, baseQuery) => {
+        const params = new URLSearchParams();
+        if (search.trim()) {
+          params.set("search", search.trim());
+        }
+        if (tag) {
+          params.set("tag", tag);
+        }
+        const query = params.toString() ? `?${params.toString()}` : "";
+
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery(`/testapp/teacher/bank/questions/${query}`);
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as BankQuestion[] };
+        }
+
+        const result = await baseQuery(`/testapp/api/v1/teacher/bank/questions/${query}`);
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        const rows = Array.isArray(result.data) ? (result.data as BackendBankQuestion[]) : [];
+        return { data: rows.map(toBankQuestion) };
+      },
+      providesTags: ["BankQuestions"],
+    }),
+
+    createBankQuestion: builder.mutation<BankQuestion, { question: TeacherQuestionInput; tags: string[] }>({
+      queryFn: async ({ question, tags }, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery({
+            url: "/testapp/teacher/bank/questions/",
+            method: "POST",
+            body: { question, tags },
+          });
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as BankQuestion };
+        }
+
+        const result = await baseQuery({
+          url: "/testapp/api/v1/teacher/bank/questions/",
+          method: "POST",
+          body: { ...toBackendQuestionFields(question), answers: buildAnswerPayloads(question), tags },
+        });
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        return { data: toBankQuestion(result.data as BackendBankQuestion) };
+      },
+      invalidatesTags: ["BankQuestions"],
+    }),
+
+    updateBankQuestion: builder.mutation<BankUpdateResult, BankQuestionUpdate>({
+      queryFn: async ({ id, question, tags, propagate }, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery({
+            url: `/testapp/teacher/bank/questions/${id}/`,
+            method: "PATCH",
+            body: { question, tags, propagate },
+          });
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as BankUpdateResult };
+        }
+
+        const result = await baseQuery({
+          url: `/testapp/api/v1/teacher/bank/questions/${id}/`,
+          method: "PATCH",
+          body: {
+            ...(question ? { ...toBackendQuestionFields(question), answers: buildAnswerPayloads(question) } : {}),
+            ...(tags ? { tags } : {}),
+            propagate: Boolean(propagate),
+          },
+        });
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        const data = result.data as BackendBankUpdate;
+        return {
+          data: {
+            item: toBankQuestion(data.item),
+            updatedQuestions: normalizeNumber(data.updated_questions, 0),
+            skippedTestIds: data.skipped_test_ids ?? [],
+          },
+        };
+      },
+      // Propagation rewrites questions inside tests as well.
+      invalidatesTags: (_result, _error, { propagate }) =>
+        propagate ? ["BankQuestions", "TeacherTests"] : ["BankQuestions"],
+    }),
+
+    deleteBankQuestion: builder.mutation<{ success: true }, number>({
+      query: (id) => ({
+        url: appEnv.useMockData
+          ? `/testapp/teacher/bank/questions/${id}/`
+          : `/testapp/api/v1/teacher/bank/questions/${id}/`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["BankQuestions", "TeacherTests"],
     }),
 
     getTeacherTestResults: builder.query<TeacherResultsSummary, number>({
-      queryFn: async (testId, _api, _extraOptions, baseQuery) => {
+      queryFn: async (testId, queryApi, _extraOptions, baseQuery) => {
         if (appEnv.useMockData) {
           const mockResult = await baseQuery(`/testapp/teacher/test/${testId}/results/`);
           if (mockResult.error) {
@@ -1090,9 +2092,33 @@ export const api = createApi({
             percentage,
             passed: percentage >= 60,
             submittedAt: row.completed_at ?? null,
+            attemptsUsed: normalizeNumber(row.attempts_used, 1),
+            gradePolicy: parseGradePolicy(row.grade_policy),
           };
         });
 
+        // Running attempts come from a separate endpoint; a backend without it just shows none.
+        const active = await baseQuery(`/testapp/api/v1/teacher/tests/${testId}/active-attempts/`);
+        const activeRaw = !active.error && Array.isArray(active.data) ? (active.data as BackendActiveAttempt[]) : [];
+        const activeAttempts: ActiveAttemptRow[] = activeRaw.map((row) => ({
+          attemptId: row.attempt_id,
+          studentName: row.student_name ?? "Unknown",
+          startedAt: row.started_at ?? serverNowIso(queryApi.getState),
+          expiresAt: row.expires_at ?? serverNowIso(queryApi.getState),
+        }));
+
+        const itemResult = await baseQuery(`/testapp/api/v1/teacher/tests/${testId}/item-analysis/`);
+        const itemRaw = !itemResult.error && Array.isArray(itemResult.data) ? (itemResult.data as BackendItemStat[]) : [];
+        const items: QuestionItemStat[] = itemRaw.map((row) => ({
+          questionId: row.question_id,
+          prompt: row.prompt ?? "",
+          poolTitle: row.pool_title ?? null,
+          seenBy: normalizeNumber(row.seen_by, 0),
+          correctCount: normalizeNumber(row.correct_count, 0),
+          averagePoints: normalizeNumber(row.average_points, 0),
+          maxPoints: normalizeNumber(row.max_points, 0),
+        }));
+
         const totalAttempts = rows.length;
         const averageScore =
           totalAttempts > 0
@@ -1110,6 +2136,9 @@ export const api = createApi({
             totalAttempts,
             averageScore,
             passRate,
+            pendingGrading: rowsRaw.reduce((sum, row) => sum + normalizeNumber(row.pending_grading, 0), 0),
+            activeAttempts,
+            items,
             rows,
           },
         };
@@ -1118,7 +2147,7 @@ export const api = createApi({
     }),
 
     getTeacherAttemptDetails: builder.query<TeacherAttemptDetail, number>({
-      queryFn: async (attemptId, _api, _extraOptions, baseQuery) => {
+      queryFn: async (attemptId, queryApi, _extraOptions, baseQuery) => {
         if (appEnv.useMockData) {
           const mockResult = await baseQuery(`/testapp/teacher/attempt/${attemptId}/details/`);
           if (mockResult.error) {
@@ -1146,7 +2175,9 @@ export const api = createApi({
             score: normalizeNumber(data.score, 0),
             maxScore: normalizeNumber(data.max_score, 0),
             percentage: normalizeNumber(data.percentage, 0),
-            startedAt: data.started_at ?? new Date().toISOString(),
+            status: parseAttemptStatus(data.status ?? (data.completed_at ? "submitted" : "in_progress")),
+            startedAt: data.started_at ?? serverNowIso(queryApi.getState),
+            expiresAt: data.expires_at ?? data.completed_at ?? serverNowIso(queryApi.getState),
             completedAt: data.completed_at ?? null,
             questions: questionsRaw.map((question) => ({
               questionId: normalizeNumber(question.question_id, 0),
@@ -1155,6 +2186,12 @@ export const api = createApi({
               score: normalizeNumber(question.score, 0),
               maxScore: normalizeNumber(question.max_score, 0),
               writtenAnswer: question.written_answer ?? "",
+              matchedRule: question.matched_rule ?? null,
+              manuallyGraded: Boolean(question.manually_graded),
+              feedback: question.feedback || null,
+              hintsUsed: normalizeNumber(question.hints_used, 0),
+              hintCount: normalizeNumber(question.hint_count, 0),
+              hintPenalty: normalizeNumber(question.hint_penalty, 0),
               selectedAnswers: Array.isArray(question.selected_answers)
                 ? question.selected_answers.map((answer) => ({
                     id: normalizeNumber(answer.id, 0),
@@ -1174,6 +2211,203 @@ export const api = createApi({
       providesTags: (_result, _error, attemptId) => [{ type: "Attempt", id: attemptId }],
     }),
 
+    getGradingQueue: builder.query<GradingQueueItem[], number>({
+      queryFn: async (testId, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery(`/testapp/teacher/test/${testId}/grading-queue/`);
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as GradingQueueItem[] };
+        }
+
+        const result = await baseQuery(`/testapp/api/v1/teacher/tests/${testId}/grading-queue/`);
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        const rows = Array.isArray(result.data) ? (result.data as BackendGradingQueueItem[]) : [];
+        return {
+          data: rows.map((row) => ({
+            attemptId: row.attempt_id,
+            questionId: row.question_id,
+            studentName: row.student_name ?? "Unknown",
+            prompt: row.prompt ?? "",
+            answerText: row.written_answer ?? "",
+            expectedText: row.expected_answer ?? "",
+            autoPoints: normalizeNumber(row.score, 0),
+            maxPoints: normalizeNumber(row.max_score, 1),
+            flagged: Boolean(row.flagged),
+            matchedRule: row.matched_rule ?? null,
+            submittedAt: row.completed_at ?? null,
+          })),
+        };
+      },
+      providesTags: (_result, _error, testId) => [{ type: "GradingQueue", id: testId }],
+    }),
+
+    getPracticeStats: builder.query<PracticeStatsSummary, number>({
+      queryFn: async (testId, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery(`/testapp/teacher/test/${testId}/practice-stats/`);
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as PracticeStatsSummary };
+        }
+
+        const result = await baseQuery(`/testapp/api/v1/teacher/tests/${testId}/practice-stats/`);
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        const data = (result.data ?? {}) as BackendPracticeStats;
+        return {
+          data: {
+            testId,
+            practiceAttempts: normalizeNumber(data.practice_attempts, 0),
+            questions: (data.questions ?? []).map((row) => ({
+              questionId: row.question_id,
+              prompt: row.prompt ?? "",
+              checks: normalizeNumber(row.checks, 0),
+              correctChecks: normalizeNumber(row.correct_checks, 0),
+              students: normalizeNumber(row.students, 0),
+            })),
+          },
+        };
+      },
+      providesTags: (_result, _error, testId) => [{ type: "PracticeStats", id: testId }],
+    }),
+
+    gradeAttemptQuestion: builder.mutation<{ success: true }, GradeQuestionInput & { testId: number }>({
+      queryFn: async ({ attemptId, questionId, points, feedback }, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery({
+            url: `/testapp/teacher/attempt/${attemptId}/questions/${questionId}/grade/`,
+            method: "POST",
+            body: { points, feedback },
+          });
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: { success: true } };
+        }
+
+        const result = await baseQuery({
+          url: `/testapp/api/v1/teacher/attempts/${attemptId}/questions/${questionId}/grade/`,
+          method: "POST",
+          body: { score: points, feedback },
+        });
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        return { data: { success: true } };
+      },
+      invalidatesTags: (_result, _error, { attemptId, testId }) => [
+        { type: "Attempt", id: attemptId },
+        { type: "TeacherResults", id: testId },
+        { type: "GradingQueue", id: testId },
+      ],
+    }),
+
+    extendAttempt: builder.mutation<{ success: true }, { attemptId: number; testId: number; minutes: number }>({
+      queryFn: async ({ attemptId, minutes }, _api, _extraOptions, baseQuery) => {
+        const result = await baseQuery({
+          url: appEnv.useMockData
+            ? `/testapp/teacher/attempt/${attemptId}/extend/`
+            : `/testapp/api/v1/teacher/attempts/${attemptId}/extend/`,
+          method: "POST",
+          body: { minutes },
+        });
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        return { data: { success: true } };
+      },
+      invalidatesTags: (_result, _error, { attemptId, testId }) => [
+        { type: "Attempt", id: attemptId },
+        { type: "TeacherResults", id: testId },
+      ],
+    }),
+
+    getTimeAccommodations: builder.query<TimeAccommodation[], void>({
+      queryFn: async (_arg, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery("/testapp/teacher/accommodations/");
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as TimeAccommodation[] };
+        }
+
+        const result = await baseQuery("/testapp/api/v1/teacher/accommodations/");
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        const rows = Array.isArray(result.data) ? (result.data as BackendTimeAccommodation[]) : [];
+        return { data: rows.map(mapTimeAccommodation) };
+      },
+      providesTags: ["Accommodations"],
+    }),
+
+    saveTimeAccommodation: builder.mutation<TimeAccommodation, TimeAccommodationInput>({
+      queryFn: async (input, _api, _extraOptions, baseQuery) => {
+        if (appEnv.useMockData) {
+          const mockResult = await baseQuery({
+            url: "/testapp/teacher/accommodations/",
+            method: "POST",
+            body: input,
+          });
+          if (mockResult.error) {
+            return { error: mockResult.error };
+          }
+
+          return { data: mockResult.data as TimeAccommodation };
+        }
+
+        const result = await baseQuery({
+          url: "/testapp/api/v1/teacher/accommodations/",
+          method: "POST",
+          body: {
+            student_id: input.studentId,
+            course_id: input.courseId,
+            assignment_id: input.assignmentId,
+            multiplier: input.multiplier,
+          },
+        });
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        return { data: mapTimeAccommodation(result.data as BackendTimeAccommodation) };
+      },
+      invalidatesTags: ["Accommodations"],
+    }),
+
+    deleteTimeAccommodation: builder.mutation<{ success: true }, number>({
+      queryFn: async (id, _api, _extraOptions, baseQuery) => {
+        const result = await baseQuery({
+          url: appEnv.useMockData
+            ? `/testapp/teacher/accommodations/${id}/`
+            : `/testapp/api/v1/teacher/accommodations/${id}/`,
+          method: "DELETE",
+        });
+        if (result.error) {
+          return { error: result.error };
+        }
+
+        return { data: { success: true } };
+      },
+      invalidatesTags: ["Accommodations"],
+    }),
+
     getCourses: builder.query<Course[], void>({
       queryFn: async (_arg, _api, _extraOptions, baseQuery) => {
         if (appEnv.useMockData) {
@@ -1357,9 +2591,21 @@ export const api = createApi({
 
     createEnrollmentTest: builder.mutation<
       EnrollmentTestAssignment,
-      { courseId: number; testId: number; attemptCount: number }
+      {
+        courseId: number;
+        testId: number;
+        attemptCount: number;
+        gradePolicy: GradePolicy;
+        startDate: string | null;
+        endDate: string | null;
+      }
     >({
-      queryFn: async ({ courseId, testId, attemptCount }, _api, _extraOptions, baseQuery) => {
+      queryFn: async (
+        { courseId, testId, attemptCount, gradePolicy, startDate, endDate },
+        _api,
+        _extraOptions,
+        baseQuery
+      ) => {
         const candidates = [
           "/testapp/teacher/enrollment-tests/",
           "/testapp/enrollment-tests/",
@@ -1368,6 +2614,9 @@ export const api = createApi({
           course_id: courseId,
           test_id: testId,
           attempt_count: attemptCount,
+          grade_policy: gradePolicy,
+          start_date: startDate,
+          end_date: endDate,
         };
 
         let lastError: FetchBaseQueryError | undefined;
@@ -1436,18 +2685,35 @@ export const {
   useLazyGetProfileQuery,
   useGetStudentTestsQuery,
   useStartStudentTestMutation,
+  useSaveAttemptAnswerMutation,
   useSubmitStudentAttemptMutation,
   useGetStudentAttemptResultQuery,
+  useGetStudentAttemptTimingQuery,
+  useCheckPracticeAnswerMutation,
+  useRevealHintMutation,
   useGetTeacherTestsQuery,
   useGetTeacherTestQuery,
   useCreateTeacherTestMutation,
   useUpdateTeacherTestMutation,
   useDeleteTeacherTestMutation,
+  useSaveTeacherTestMutation,
   useCreateTeacherQuestionMutation,
   useUpdateTeacherQuestionMutation,
   useDeleteTeacherQuestionMutation,
+  useGetBankQuestionsQuery,
+  useCreateBankQuestionMutation,
+  useUpdateBankQuestionMutation,
+  useDeleteBankQuestionMutation,
+  useUploadImageMutation,
   useGetTeacherTestResultsQuery,
   useGetTeacherAttemptDetailsQuery,
+  useGetGradingQueueQuery,
+  useGradeAttemptQuestionMutation,
+  useGetPracticeStatsQuery,
+  useExtendAttemptMutation,
+  useGetTimeAccommodationsQuery,
+  useSaveTimeAccommodationMutation,
+  useDeleteTimeAccommodationMutation,
   useGetCoursesQuery,
   useGetEnrollmentQuery,
   useGetStudentsQuery,
@@ -1,32 +1,55 @@
 import type { FetchArgs, FetchBaseQueryError } from "@reduxjs/toolkit/query";
 import {
+  createBankQuestion,
   createCourse,
   createEnrollment,
   createEnrollmentTest,
   getTeacherAttemptDetails,
   createTeacherQuestion,
+  checkPracticeAnswer,
   createTeacherTest,
+  deleteBankQuestion,
   deleteEnrollmentTest,
+  deleteTimeAccommodation,
+  extendAttempt,
   deleteTeacherQuestion,
   deleteTeacherTest,
+  getPracticeStats,
   getProfile,
   getStudentAttemptResult,
+  getStudentAttemptTiming,
   getTeacherResults,
   getTeacherTest,
+  gradeAttemptQuestion,
+  listBankQuestions,
   listEnrollmentTests,
+  listGradingQueue,
   listCourses,
   listEnrollment,
   listStudents,
   listStudentTests,
+  listTimeAccommodations,
   listTeacherTests,
   loginMockUser,
   logoutMockUser,
+  revealHint,
+  saveStudentAttemptAnswer,
+  saveTeacherTestWithQuestions,
   startStudentAttempt,
+  storeImage,
   submitStudentAttempt,
+  updateBankQuestion,
   updateTeacherQuestion,
   updateTeacherTest,
+  upsertTimeAccommodation,
 } from "@/store/api/mockDb";
-import type { TeacherQuestionInput } from "@/types/domain";
+import type {
+  AttemptAnswerInput,
+  BankQuestionUpdate,
+  TeacherQuestionInput,
+  TestSaveRequest,
+  TimeAccommodationInput,
+} from "@/types/domain";
 
 interface MockResult<T> {
   data?: T;
@@ -37,11 +60,12 @@ interface NormalizedRequest {
   url: string;
   method: string;
   body: unknown;
+  idempotencyKey?: string;
 }
 
-const toFetchError = (status: number, detail: string): FetchBaseQueryError => ({
+const toFetchError = (status: number, detail: string, code?: string): FetchBaseQueryError => ({
   status,
-  data: { detail },
+  data: code ? { detail, code } : { detail },
 });
 
 const mapDomainError = (error: unknown): FetchBaseQueryError => {
@@ -52,14 +76,38 @@ const mapDomainError = (error: unknown): FetchBaseQueryError => {
       return toFetchError(401, "Authentication required.");
     case "NOT_FOUND":
       return toFetchError(404, "Requested resource was not found.");
-    case "TEST_ALREADY_COMPLETED":
-      return toFetchError(409, "You already submitted this test.");
+    case "ATTEMPT_LIMIT_REACHED":
+      return toFetchError(409, "No attempts left for this test.", code);
+    case "NOT_YET_OPEN":
+      return toFetchError(403, "This test is not open yet.", code);
+    case "CLOSED":
+      return toFetchError(403, "This test is closed.", code);
+    case "INVALID_EXTENSION":
+      return toFetchError(400, "Extension must be between 1 and 240 minutes.", code);
+    case "INVALID_MULTIPLIER":
+      return toFetchError(400, "Time multiplier must be between 1 and 4.", code);
+    case "INVALID_WINDOW":
+      return toFetchError(400, "The end date must be after the start date.", code);
     case "ATTEMPT_ALREADY_SUBMITTED":
-      return toFetchError(409, "Attempt was already submitted.");
+      return toFetchError(409, "Attempt was already submitted.", code);
     case "ATTEMPT_EXPIRED":
-      return toFetchError(409, "Attempt timed out.");
+      return toFetchError(409, "Attempt timed out.", code);
     case "RESULT_NOT_READY":
       return toFetchError(409, "Result is not available yet.");
+    case "ATTEMPT_NOT_SUBMITTED":
+      return toFetchError(409, "Attempt has not been submitted yet.", code);
+    case "NO_MORE_HINTS":
+      return toFetchError(409, "All hints for this question are already shown.", code);
+    case "PRACTICE_ONLY":
+      return toFetchError(400, "Answers can only be checked in practice mode.", code);
+    case "INVALID_IMAGE":
+      return toFetchError(400, "Upload a PNG, JPEG, WebP or GIF image.", code);
+    case "IMAGE_TOO_LARGE":
+      return toFetchError(413, "Image is larger than 2 MB.", code);
+    case "INVALID_GRADE":
+      return toFetchError(400, "Points must be between 0 and the question maximum.", code);
+    case "TEST_HAS_ATTEMPTS":
+      return toFetchError(409, "Questions cannot be removed from a test that already has attempts.", code);
     default:
       return toFetchError(500, "Unexpected mock server error.");
   }
@@ -86,10 +134,13 @@ const normalizeArgs = (args: string | FetchArgs): NormalizedRequest => {
     };
   }
 
+  const headers = new Headers(args.headers as HeadersInit | undefined);
+
   return {
     url: args.url,
     method: (args.method ?? "GET").toUpperCase(),
     body: parseBody(args.body),
+    idempotencyKey: headers.get("Idempotency-Key") ?? undefined,
   };
 };
 
@@ -129,11 +180,46 @@ export const runMockRequest = async (
       return { data: startStudentAttempt(authToken, Number(startMatch[1])) };
     }
 
+    const answerMatch = isMatch(request.url, /^\/testapp\/api\/v1\/student\/attempts\/(\d+)\/answers\/?$/);
+    if (answerMatch && request.method === "POST") {
+      const body = (request.body ?? {}) as { answer?: AttemptAnswerInput };
+      if (!body.answer || typeof body.answer.questionId !== "number") {
+        return { error: toFetchError(400, "Answer payload is required.") };
+      }
+      return {
+        data: saveStudentAttemptAnswer(authToken, Number(answerMatch[1]), body.answer, request.idempotencyKey),
+      };
+    }
+
     const submitMatch = isMatch(request.url, /^\/testapp\/api\/v1\/student\/attempts\/(\d+)\/submit\/?$/);
     if (submitMatch && request.method === "POST") {
       const body = (request.body ?? {}) as { answers?: unknown };
       const answers = Array.isArray(body.answers) ? body.answers : [];
-      return { data: submitStudentAttempt(authToken, Number(submitMatch[1]), answers) };
+      return {
+        data: submitStudentAttempt(authToken, Number(submitMatch[1]), answers, request.idempotencyKey),
+      };
+    }
+
+    const checkMatch = isMatch(request.url, /^\/testapp\/api\/v1\/student\/attempts\/(\d+)\/check\/?$/);
+    if (checkMatch && request.method === "POST") {
+      const body = (request.body ?? {}) as { answer?: AttemptAnswerInput };
+      if (!body.answer || typeof body.answer.questionId !== "number") {
+        return { error: toFetchError(400, "Answer payload is required.") };
+      }
+      return { data: checkPracticeAnswer(authToken, Number(checkMatch[1]), body.answer) };
+    }
+
+    const hintMatch = isMatch(
+      request.url,
+      /^\/testapp\/api\/v1\/student\/attempts\/(\d+)\/questions\/(\d+)\/hint\/?$/
+    );
+    if (hintMatch && request.method === "POST") {
+      return { data: revealHint(authToken, Number(hintMatch[1]), Number(hintMatch[2])) };
+    }
+
+    const attemptTimingMatch = isMatch(request.url, /^\/testapp\/api\/v1\/student\/attempts\/(\d+)\/?$/);
+    if (attemptTimingMatch && request.method === "GET") {
+      return { data: getStudentAttemptTiming(authToken, Number(attemptTimingMatch[1])) };
     }
 
     const resultMatch = isMatch(request.url, /^\/testapp\/api\/v1\/student\/attempts\/(\d+)\/result\/?$/);
@@ -149,6 +235,19 @@ export const runMockRequest = async (
       return { data: createTeacherTest(authToken, (request.body ?? {}) as Record<string, unknown>) };
     }
 
+    if (request.url === "/testapp/teacher/tests/save/" && request.method === "POST") {
+      const result = saveTeacherTestWithQuestions(authToken, (request.body ?? {}) as TestSaveRequest);
+      if (!result.saved) {
+        return {
+          error: {
+            status: 422,
+            data: { detail: "Some questions could not be saved.", code: "QUESTIONS_INVALID", results: result.results },
+          },
+        };
+      }
+      return { data: result };
+    }
+
     const teacherTestMatch = isMatch(request.url, /^\/testapp\/teacher\/tests\/(\d+)\/?$/);
     if (teacherTestMatch && request.method === "GET") {
       return { data: getTeacherTest(authToken, Number(teacherTestMatch[1])) };
@@ -188,6 +287,45 @@ export const runMockRequest = async (
       return { data: deleteTeacherQuestion(authToken, Number(questionMatch[1])) };
     }
 
+    const bankListMatch = isMatch(request.url, /^\/testapp\/teacher\/bank\/questions\/?(?:\?(.*))?$/);
+    if (bankListMatch && request.method === "GET") {
+      const params = new URLSearchParams(bankListMatch[1] ?? "");
+      return {
+        data: listBankQuestions(authToken, { search: params.get("search") ?? "", tag: params.get("tag") ?? "" }),
+      };
+    }
+
+    if (bankListMatch && request.method === "POST") {
+      const body = (request.body ?? {}) as { question?: TeacherQuestionInput; tags?: string[] };
+      if (!body.question) {
+        return { error: toFetchError(400, "Question payload is required.") };
+      }
+      return { data: createBankQuestion(authToken, { question: body.question, tags: body.tags }) };
+    }
+
+    const bankItemMatch = isMatch(request.url, /^\/testapp\/teacher\/bank\/questions\/(\d+)\/?$/);
+    if (bankItemMatch && request.method === "PATCH") {
+      const body = (request.body ?? {}) as Omit<BankQuestionUpdate, "id">;
+      return { data: updateBankQuestion(authToken, { ...body, id: Number(bankItemMatch[1]) }) };
+    }
+
+    if (bankItemMatch && request.method === "DELETE") {
+      return { data: deleteBankQuestion(authToken, Number(bankItemMatch[1])) };
+    }
+
+    if (request.url === "/testapp/teacher/uploads/images/" && request.method === "POST") {
+      if (!(request.body instanceof FormData)) {
+        return { error: toFetchError(400, "Multipart image upload is required.") };
+      }
+      return {
+        data: storeImage(authToken, {
+          file: request.body.get("image"),
+          width: Number(request.body.get("width")),
+          height: Number(request.body.get("height")),
+        }),
+      };
+    }
+
     const teacherResultMatch = isMatch(request.url, /^\/testapp\/teacher\/test\/(\d+)\/results\/?$/);
     if (teacherResultMatch && request.method === "GET") {
       return { data: getTeacherResults(authToken, Number(teacherResultMatch[1])) };
@@ -198,6 +336,48 @@ export const runMockRequest = async (
       return { data: getTeacherAttemptDetails(authToken, Number(teacherAttemptDetailMatch[1])) };
     }
 
+    const extendMatch = isMatch(request.url, /^\/testapp\/teacher\/attempt\/(\d+)\/extend\/?$/);
+    if (extendMatch && request.method === "POST") {
+      const body = (request.body ?? {}) as { minutes?: unknown };
+      return { data: extendAttempt(authToken, Number(extendMatch[1]), Number(body.minutes)) };
+    }
+
+    if (request.url === "/testapp/teacher/accommodations/" && request.method === "GET") {
+      return { data: listTimeAccommodations(authToken) };
+    }
+
+    if (request.url === "/testapp/teacher/accommodations/" && request.method === "POST") {
+      return { data: upsertTimeAccommodation(authToken, (request.body ?? {}) as TimeAccommodationInput) };
+    }
+
+    const accommodationMatch = isMatch(request.url, /^\/testapp\/teacher\/accommodations\/(\d+)\/?$/);
+    if (accommodationMatch && request.method === "DELETE") {
+      return { data: deleteTimeAccommodation(authToken, Number(accommodationMatch[1])) };
+    }
+
+    const gradingQueueMatch = isMatch(request.url, /^\/testapp\/teacher\/test\/(\d+)\/grading-queue\/?$/);
+    if (gradingQueueMatch && request.method === "GET") {
+      return { data: listGradingQueue(authToken, Number(gradingQueueMatch[1])) };
+    }
+
+    const practiceStatsMatch = isMatch(request.url, /^\/testapp\/teacher\/test\/(\d+)\/practice-stats\/?$/);
+    if (practiceStatsMatch && request.method === "GET") {
+      return { data: getPracticeStats(authToken, Number(practiceStatsMatch[1])) };
+    }
+
+    const gradeMatch = isMatch(request.url, /^\/testapp\/teacher\/attempt\/(\d+)\/questions\/(\d+)\/grade\/?$/);
+    if (gradeMatch && request.method === "POST") {
+      const body = (request.body ?? {}) as { points?: unknown; feedback?: unknown };
+      return {
+        data: gradeAttemptQuestion(authToken, {
+          attemptId: Number(gradeMatch[1]),
+          questionId: Number(gradeMatch[2]),
+          points: Number(body.points),
+          feedback: typeof body.feedback === "string" ? body.feedback : "",
+        }),
+      };
+    }
+
     if (request.url === "/school/courses/" && request.method === "GET") {
       return { data: listCourses(authToken) };
     }
@@ -237,7 +417,14 @@ export const runMockRequest = async (
       return {
         data: createEnrollmentTest(
           authToken,
-          (request.body ?? {}) as { course_id?: number; test_id?: number; attempt_count?: number }
+          (request.body ?? {}) as {
+            course_id?: number;
+            test_id?: number;
+            attempt_count?: number;
+            grade_policy?: string;
+            start_date?: string | null;
+            end_date?: string | null;
+          }
         ),
       };
     }
@@ -0,0 +1,169 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createTeacherQuestion,
+  createTeacherTest,
+  loginMockUser,
+  scoreChoice,
+  scoreQuestion,
+} from "@/store/api/mockDb";
+import type { ScoringPolicy, TeacherQuestion, TeacherQuestionInput } from "@/types/domain";
+
+const { token } = loginMockUser({ roleHint: "teacher" });
+const testId = createTeacherTest(token, { title: "Scoring" }).id;
+
+const addQuestion = (input: Partial<TeacherQuestionInput>): TeacherQuestion =>
+  createTeacherQuestion(token, testId, { prompt: "Question", type: "single", points: 1, options: [], ...input });
+
+const optionIds = (question: TeacherQuestion): number[] => question.options.map((option) => option.id);
+
+// Four options, the first two correct.
+const multipleChoice = (scoringPolicy: ScoringPolicy): TeacherQuestion =>
+  addQuestion({
+    type: "multiple",
+    points: 4,
+    scoringPolicy,
+    options: [
+      { text: "A", isCorrect: true },
+      { text: "B", isCorrect: true },
+      { text: "C", isCorrect: false },
+      { text: "D", isCorrect: false },
+    ],
+  });
+
+const pick = (question: TeacherQuestion, ...indexes: number[]) => ({
+  questionId: question.id,
+  selectedOptionIds: indexes.map((index) => optionIds(question)[index]!),
+});
+
+describe("scoreChoice", () => {
+  test("single choice earns all or nothing, and negative marking takes a guessing penalty", () => {
+    const options = [
+      { text: "Right", isCorrect: true },
+      { text: "Wrong", isCorrect: false },
+      { text: "Also wrong", isCorrect: false },
+    ];
+    const plain = addQuestion({ options });
+    const negative = addQuestion({ options, scoringPolicy: "negative_marking" });
+
+    expect(scoreChoice(plain, pick(plain, 0))).toBe(1);
+    expect(scoreChoice(plain, pick(plain, 1))).toBe(0);
+    expect(scoreChoice(negative, pick(negative, 1))).toBe(-0.5);
+    expect(scoreChoice(negative, undefined)).toBe(0);
+  });
+
+  test("all or nothing needs exactly the correct options", () => {
+    const question = multipleChoice("all_or_nothing");
+
+    expect(scoreChoice(question, pick(question, 0, 1))).toBe(1);
+    expect(scoreChoice(question, pick(question, 0))).toBe(0);
+    expect(scoreChoice(question, pick(question, 0, 1, 2))).toBe(0);
+  });
+
+  test.each(["proportional", "right_minus_wrong"] as const)("%s subtracts wrong picks and stops at zero", (policy) => {
+    const question = multipleChoice(policy);
+
+    expect(scoreChoice(question, pick(question, 0, 1))).toBe(1);
+    expect(scoreChoice(question, pick(question, 0))).toBe(0.5);
+    expect(scoreChoice(question, pick(question, 0, 1, 2))).toBe(0.5);
+    expect(scoreChoice(question, pick(question, 0, 1, 2, 3))).toBe(0);
+    expect(scoreChoice(question, pick(question, 2, 3))).toBe(0);
+  });
+});
+
+describe("scoreQuestion", () => {
+  test("scales choice points by the earned share", () => {
+    const question = multipleChoice("right_minus_wrong");
+
+    expect(scoreQuestion(question, pick(question, 0))).toMatchObject({ correct: false, pointsEarned: 2, pointsMax: 4 });
+    expect(scoreQuestion(question, pick(question, 0, 1))).toMatchObject({ correct: true, pointsEarned: 4 });
+  });
+
+  test("gives ordering partial credit only when the question allows it", () => {
+    const options = ["First", "Second", "Third", "Fourth"].map((text) => ({ text, isCorrect: false }));
+    const strict = addQuestion({ type: "ordering", points: 4, options });
+    const partial = addQuestion({ type: "ordering", points: 4, options, partialCredit: true });
+    const answer = (question: TeacherQuestion) => {
+      const [first, second, third, fourth] = optionIds(question);
+      return { questionId: question.id, orderedOptionIds: [first!, second!, fourth!, third!] };
+    };
+
+    expect(scoreQuestion(strict, answer(strict)).pointsEarned).toBe(0);
+    expect(scoreQuestion(partial, answer(partial)).pointsEarned).toBe(2);
+    expect(scoreQuestion(partial, { questionId: partial.id, orderedOptionIds: optionIds(partial) }).correct).toBe(true);
+  });
+
+  test("counts each matched pair", () => {
+    const question = addQuestion({
+      type: "matching",
+      points: 3,
+      options: [
+        { text: "H", isCorrect: false, matchText: "Hydrogen" },
+        { text: "He", isCorrect: false, matchText: "Helium" },
+        { text: "Li", isCorrect: false, matchText: "Lithium" },
+      ],
+    });
+    const [hydrogen, helium] = question.correctPairs;
+
+    const result = scoreQuestion(question, {
+      questionId: question.id,
+      matchedPairs: [hydrogen!, { leftId: helium!.leftId, rightId: hydrogen!.rightId }],
+    });
+    expect(result).toMatchObject({ correct: false, pointsEarned: 1 });
+  });
+
+  test("reports the short answer rule that matched", () => {
+    const question = addQuestion({
+      type: "short",
+      correctText: "Paris",
+      shortAnswerRules: {
+        acceptedAnswers: ["Paris, France"],
+        caseSensitive: false,
+        whitespace: "collapse",
+        patterns: ["par[ie]s"],
+        typoTolerance: 1,
+      },
+    });
+    const answer = (textAnswer: string) => scoreQuestion(question, { questionId: question.id, textAnswer });
+
+    expect(answer(" paris ")).toMatchObject({ correct: true, matchedRule: "Exact answer" });
+    expect(answer("paris, france")).toMatchObject({ correct: true, matchedRule: 'Accepted answer "Paris, France"' });
+    expect(answer("Pares")).toMatchObject({ correct: true, matchedRule: "Pattern /par[ie]s/" });
+    expect(answer("Parris")).toMatchObject({ correct: true, matchedRule: 'Within 1 typo of "Paris"' });
+    expect(answer("London")).toMatchObject({ correct: false, matchedRule: null, pointsEarned: 0 });
+  });
+
+  test("converts numeric answers through accepted units within tolerance", () => {
+    const question = addQuestion({
+      type: "numeric",
+      points: 2,
+      correctNumber: 1.5,
+      tolerance: 0.01,
+      numericRules: {
+        relativeTolerancePercent: null,
+        significantFigures: null,
+        unit: "m",
+        acceptedUnits: [{ label: "cm", factor: 0.01 }],
+      },
+    });
+    const answer = (numericText: string, numericUnit: string) =>
+      scoreQuestion(question, { questionId: question.id, numericText, numericUnit }).pointsEarned;
+
+    expect(answer("1,5", "m")).toBe(2);
+    expect(answer("150", "cm")).toBe(2);
+    expect(answer("1.6", "m")).toBe(0);
+    expect(answer("1.5", "")).toBe(0);
+    expect(answer("1.5", "kg")).toBe(0);
+  });
+
+  test("lets a teacher's grade replace the automatic score", () => {
+    const question = multipleChoice("all_or_nothing");
+    const override = { points: 3, feedback: "Close enough.", gradedAt: "2026-01-01T00:00:00.000Z" };
+
+    expect(scoreQuestion(question, pick(question, 0), override)).toMatchObject({
+      correct: false,
+      pointsEarned: 3,
+      manuallyGraded: true,
+      feedback: "Close enough.",
+    });
+  });
+});
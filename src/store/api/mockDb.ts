@@ -1,12 +1,32 @@
 import type {
   AttemptAnswerInput,
   AttemptResult,
+  AttemptTiming,
   AuthSession,
+  BankQuestion,
+  BankQuestionFilter,
+  BankQuestionUpdate,
+  BankUpdateResult,
   Course,
   EnrollmentTestAssignment,
   Enrollment,
+  GradePolicy,
+  GradeQuestionInput,
+  GradingQueueItem,
+  HintReveal,
+  MatchPair,
+  NumericAnswerRules,
+  PracticeQuestionStat,
+  PracticeStatsSummary,
+  QuestionDifficulty,
+  QuestionItemStat,
   QuestionOption,
+  QuestionPool,
+  QuestionResult,
   Role,
+  ScoringPolicy,
+  ShortAnswerRules,
+  SavedAttemptAnswer,
   StartAttemptResponse,
   StudentDirectoryItem,
   StudentAttempt,
@@ -17,9 +37,18 @@ import type {
   TeacherAttemptDetail,
   TeacherResultsSummary,
   TeacherTest,
+  TestMode,
+  TestSaveQuestionResult,
+  TestSaveRequest,
+  TestSaveResult,
   TestStatus,
+  TimeAccommodation,
+  TimeAccommodationInput,
+  UploadedImage,
   UserProfile,
 } from "@/types/domain";
+import { isValidWindow, resolveAvailability } from "@/lib/availability";
+import { countSignificantFigures, normalizeUnit, parseNumericInput } from "@/lib/numeric";
 
 interface SessionRecord {
   token: string;
@@ -28,10 +57,50 @@ interface SessionRecord {
   expiresAt: string;
 }
 
+interface GradeOverride {
+  points: number;
+  feedback: string;
+  gradedAt: string;
+}
+
 interface StoredAttempt extends StudentAttempt {
   studentId: number;
+  // Drawn when the attempt starts, so later pool edits do not change what the student answers.
+  questionIds: number[];
   answers: AttemptAnswerInput[];
   result: AttemptResult | null;
+  gradeOverrides: Record<number, GradeOverride>;
+  // Hint steps revealed per question id.
+  hintsUsed: Record<number, number>;
+  // Fixed at start, so switching a test's mode later does not move finished attempts in or out of results.
+  practice: boolean;
+}
+
+interface StoredBankQuestion {
+  question: TeacherQuestion;
+  tags: string[];
+  createdBy: number;
+  updatedAt: string;
+}
+
+// Uploaded files stay in memory as blobs; the object URL is what questions reference.
+interface StoredImage {
+  id: number;
+  ownerId: number;
+  blob: Blob;
+  url: string;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+interface PracticeCheckRecord {
+  attemptId: number;
+  studentId: number;
+  testId: number;
+  questionId: number;
+  correct: boolean;
+  checkedAt: string;
 }
 
 const clone = <T>(value: T): T => {
@@ -43,6 +112,11 @@ const clone = <T>(value: T): T => {
 
 const nowIso = (): string => new Date().toISOString();
 
+const SUBMIT_GRACE_MS = 5000;
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const GRADE_POLICIES: GradePolicy[] = ["best", "latest", "average", "first"];
+const DIFFICULTIES: QuestionDifficulty[] = ["easy", "medium", "hard"];
+
 const users: UserProfile[] = [
   {
     id: 101,
@@ -93,37 +167,89 @@ let attemptSequence = 1200;
 let courseSequence = 2;
 let enrollmentSequence = 2;
 let enrollmentTestSequence = 3;
+let accommodationSequence = 0;
+let imageSequence = 0;
+let bankSequence = 300;
+
+// Matches the original behaviour: whitespace and case are ignored, only the exact answer counts.
+const DEFAULT_SHORT_ANSWER_RULES: ShortAnswerRules = {
+  acceptedAnswers: [],
+  caseSensitive: false,
+  whitespace: "ignore",
+  patterns: [],
+  typoTolerance: 0,
+};
+
+const DEFAULT_NUMERIC_RULES: NumericAnswerRules = {
+  relativeTolerancePercent: null,
+  significantFigures: null,
+  unit: null,
+  acceptedUnits: [],
+};
 
 const buildQuestion = (input: {
   prompt: string;
   type: TeacherQuestion["type"];
   points: number;
-  options?: Array<{ text: string; isCorrect: boolean }>;
+  options?: Array<{ text: string; isCorrect: boolean; matchText?: string; imageUrl?: string | null }>;
   correctText?: string;
   correctNumber?: number;
   tolerance?: number;
+  partialCredit?: boolean;
+  scoringPolicy?: ScoringPolicy;
+  shortAnswerRules?: ShortAnswerRules;
+  numericRules?: NumericAnswerRules;
+  poolId?: string | null;
+  difficulty?: QuestionDifficulty;
+  hints?: string[];
+  hintPenaltyPercent?: number;
+  imageUrl?: string | null;
+  bankQuestionId?: number | null;
   explanation?: string;
 }): TeacherQuestion => {
   const id = ++questionSequence;
+  const choice = input.type === "single" || input.type === "multiple";
   const options: QuestionOption[] = (input.options ?? []).map((option) => ({
     id: ++optionSequence,
     text: option.text,
+    ...(choice && option.imageUrl ? { imageUrl: option.imageUrl } : {}),
   }));
 
   const correctOptionIds = (input.options ?? [])
     .map((option, index) => (option.isCorrect ? options[index]?.id : undefined))
     .filter((value): value is number => typeof value === "number");
 
+  const matchOptions: QuestionOption[] =
+    input.type === "matching"
+      ? (input.options ?? []).map((option) => ({ id: ++optionSequence, text: option.matchText ?? "" }))
+      : [];
+  const correctPairs: MatchPair[] = matchOptions.map((right, index) => ({
+    leftId: options[index]!.id,
+    rightId: right.id,
+  }));
+
   return {
     id,
     prompt: input.prompt,
     type: input.type,
     points: input.points,
     options,
+    matchOptions,
     correctOptionIds,
+    correctPairs,
     correctText: input.correctText ?? null,
     correctNumber: input.correctNumber ?? null,
     tolerance: input.tolerance ?? null,
+    partialCredit: input.partialCredit ?? false,
+    scoringPolicy: input.scoringPolicy ?? "all_or_nothing",
+    shortAnswerRules: clone(input.shortAnswerRules ?? DEFAULT_SHORT_ANSWER_RULES),
+    numericRules: clone(input.numericRules ?? DEFAULT_NUMERIC_RULES),
+    poolId: input.poolId ?? null,
+    difficulty: DIFFICULTIES.includes(input.difficulty as QuestionDifficulty) ? input.difficulty! : "medium",
+    hints: (input.hints ?? []).map((hint) => String(hint).trim()).filter((hint) => hint.length > 0),
+    hintPenaltyPercent: Math.min(100, Math.max(0, Number(input.hintPenaltyPercent) || 0)),
+    imageUrl: input.imageUrl || null,
+    bankQuestionId: input.bankQuestionId ?? null,
     explanation: input.explanation ?? "",
   };
 };
@@ -134,8 +260,12 @@ const initialTests: TeacherTest[] = [
     title: "Physics Core Quiz",
     description: "Motion, force, and units",
     status: "published",
+    mode: "exam",
     timeLimitSec: 900,
     passingPercent: 60,
+    shuffleQuestions: false,
+    shuffleOptions: false,
+    pools: [],
     courseId: 1,
     createdAt: nowIso(),
     updatedAt: nowIso(),
@@ -144,6 +274,8 @@ const initialTests: TeacherTest[] = [
         prompt: "Which unit is used for force?",
         type: "single",
         points: 5,
+        hints: ["It is named after a physicist.", "Think of F = m * a and who wrote down the laws of motion."],
+        hintPenaltyPercent: 20,
         options: [
           { text: "Joule", isCorrect: false },
           { text: "Newton", isCorrect: true },
@@ -162,6 +294,7 @@ const initialTests: TeacherTest[] = [
           { text: "Velocity", isCorrect: false },
           { text: "Time", isCorrect: true },
         ],
+        scoringPolicy: "right_minus_wrong",
         explanation: "Length, mass, and time are SI base quantities.",
       }),
       buildQuestion({
@@ -169,6 +302,7 @@ const initialTests: TeacherTest[] = [
         type: "short",
         points: 4,
         correctText: "F=ma",
+        shortAnswerRules: { ...DEFAULT_SHORT_ANSWER_RULES, acceptedAnswers: ["F=m*a"] },
         explanation: "Newton's second law is commonly written as F=ma.",
       }),
       buildQuestion({
@@ -179,6 +313,33 @@ const initialTests: TeacherTest[] = [
         tolerance: 0.01,
         explanation: "a = F/m = 20 / 4 = 5.",
       }),
+      buildQuestion({
+        prompt: "A cyclist covers 100 m in 8 s. What is the average speed? Include the unit.",
+        type: "numeric",
+        points: 4,
+        correctNumber: 12.5,
+        tolerance: 0,
+        numericRules: {
+          relativeTolerancePercent: 1,
+          significantFigures: null,
+          unit: "m/s",
+          acceptedUnits: [{ label: "km/h", factor: 1 / 3.6 }],
+        },
+        explanation: "v = 100 / 8 = 12.5 m/s = 45 km/h.",
+      }),
+      buildQuestion({
+        prompt: "Order the units of length from smallest to largest.",
+        type: "ordering",
+        points: 4,
+        options: [
+          { text: "Millimetre", isCorrect: true },
+          { text: "Centimetre", isCorrect: true },
+          { text: "Metre", isCorrect: true },
+          { text: "Kilometre", isCorrect: true },
+        ],
+        partialCredit: true,
+        explanation: "1 mm < 1 cm < 1 m < 1 km.",
+      }),
     ],
   },
   {
@@ -186,8 +347,12 @@ const initialTests: TeacherTest[] = [
     title: "Algebra Speed Test",
     description: "Linear equations and simplification",
     status: "published",
+    mode: "exam",
     timeLimitSec: 600,
     passingPercent: 70,
+    shuffleQuestions: false,
+    shuffleOptions: false,
+    pools: [],
     courseId: 2,
     createdAt: nowIso(),
     updatedAt: nowIso(),
@@ -211,6 +376,17 @@ const initialTests: TeacherTest[] = [
         ],
         explanation: "Distribute 3 to both terms.",
       }),
+      buildQuestion({
+        prompt: "Match each equation with its solution.",
+        type: "matching",
+        points: 6,
+        options: [
+          { text: "x + 3 = 5", isCorrect: true, matchText: "x = 2" },
+          { text: "2x = 10", isCorrect: true, matchText: "x = 5" },
+          { text: "x / 3 = 3", isCorrect: true, matchText: "x = 9" },
+        ],
+        explanation: "Isolate x on one side of each equation.",
+      }),
     ],
   },
   {
@@ -218,8 +394,12 @@ const initialTests: TeacherTest[] = [
     title: "Draft Geometry Test",
     description: "Teacher only draft",
     status: "draft",
+    mode: "exam",
     timeLimitSec: 1200,
     passingPercent: 60,
+    shuffleQuestions: false,
+    shuffleOptions: false,
+    pools: [],
     courseId: 2,
     createdAt: nowIso(),
     updatedAt: nowIso(),
@@ -228,6 +408,56 @@ const initialTests: TeacherTest[] = [
 ];
 
 const tests: TeacherTest[] = clone(initialTests);
+
+const normalizeTags = (tags: unknown): string[] => {
+  const unique = new Map<string, string>();
+  for (const tag of Array.isArray(tags) ? tags : []) {
+    const text = String(tag).trim();
+    if (text && !unique.has(text.toLowerCase())) {
+      unique.set(text.toLowerCase(), text);
+    }
+  }
+  return [...unique.values()];
+};
+
+const toStoredBankQuestion = (question: TeacherQuestion, tags: unknown, createdBy: number): StoredBankQuestion => ({
+  question: { ...question, id: ++bankSequence, poolId: null, bankQuestionId: null },
+  tags: normalizeTags(tags),
+  createdBy,
+  updatedAt: nowIso(),
+});
+
+const bankQuestions: StoredBankQuestion[] = [
+  toStoredBankQuestion(
+    buildQuestion({
+      prompt: "Which of these quantities is a vector?",
+      type: "single",
+      points: 1,
+      options: [
+        { text: "Velocity", isCorrect: true },
+        { text: "Speed", isCorrect: false },
+        { text: "Mass", isCorrect: false },
+        { text: "Time", isCorrect: false },
+      ],
+      difficulty: "easy",
+      explanation: "Velocity has both magnitude and direction.",
+    }),
+    ["physics", "vectors"],
+    101
+  ),
+  toStoredBankQuestion(
+    buildQuestion({
+      prompt: "Free-fall acceleration near the Earth's surface, in $m/s^2$?",
+      type: "numeric",
+      points: 1,
+      correctNumber: 9.81,
+      tolerance: 0.05,
+      explanation: "Standard gravity is $g \\approx 9.81\\,m/s^2$.",
+    }),
+    ["physics", "constants"],
+    101
+  ),
+];
 const enrollmentTests: EnrollmentTestAssignment[] = tests
   .filter((test) => test.courseId !== null)
   .map((test) => ({
@@ -237,13 +467,100 @@ const enrollmentTests: EnrollmentTestAssignment[] = tests
     testId: test.id,
     testTitle: test.title,
     attemptCount: 3,
+    gradePolicy: "best" as GradePolicy,
     startDate: null,
     endDate: null,
   }));
 const attempts: StoredAttempt[] = [];
+const practiceChecks: PracticeCheckRecord[] = [];
+const images: StoredImage[] = [];
+const accommodations: TimeAccommodation[] = [];
 const sessions = new Map<string, SessionRecord>();
+const idempotentResponses = new Map<string, unknown>();
+
+const normalizeText = (value: string, rules: ShortAnswerRules): string => {
+  const spaced =
+    rules.whitespace === "ignore"
+      ? value.replace(/\s+/g, "")
+      : rules.whitespace === "collapse"
+        ? value.trim().replace(/\s+/g, " ")
+        : value;
+
+  return rules.caseSensitive ? spaced : spaced.toLowerCase();
+};
+
+const levenshtein = (left: string, right: string): number => {
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+
+  for (let row = 1; row <= left.length; row += 1) {
+    const current = [row];
+    for (let column = 1; column <= right.length; column += 1) {
+      const substitution = previous[column - 1]! + (left[row - 1] === right[column - 1] ? 0 : 1);
+      current.push(Math.min(previous[column]! + 1, current[column - 1]! + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[right.length]!;
+};
+
+interface ShortAnswerMatch {
+  correct: boolean;
+  rule: string | null;
+}
+
+// Tries the accepted answers, then the patterns, then typo tolerance, and reports the rule that matched.
+const matchShortAnswer = (question: TeacherQuestion, raw: string): ShortAnswerMatch => {
+  const rules = question.shortAnswerRules;
+  if (!raw.trim()) {
+    return { correct: false, rule: null };
+  }
+
+  const received = normalizeText(raw, rules);
+  const accepted = [question.correctText ?? "", ...rules.acceptedAnswers].filter((text) => text.trim().length > 0);
+
+  const exact = accepted.find((text) => normalizeText(text, rules) === received);
+  if (exact !== undefined) {
+    return { correct: true, rule: exact === question.correctText ? "Exact answer" : `Accepted answer "${exact}"` };
+  }
+
+  for (const pattern of rules.patterns) {
+    try {
+      if (new RegExp(`^(?:${pattern})$`, rules.caseSensitive ? "" : "i").test(raw.trim())) {
+        return { correct: true, rule: `Pattern /${pattern}/` };
+      }
+    } catch {
+      // The builder rejects invalid patterns; anything that slipped through never matches.
+    }
+  }
+
+  if (rules.typoTolerance > 0) {
+    for (const text of accepted) {
+      const distance = levenshtein(normalizeText(text, rules), received);
+      if (distance <= rules.typoTolerance) {
+        return { correct: true, rule: `Within ${distance} typo${distance === 1 ? "" : "s"} of "${text}"` };
+      }
+    }
+  }
+
+  return { correct: false, rule: null };
+};
+
+// Replays of a request carrying an already-seen Idempotency-Key get the first response back.
+const withIdempotency = <T>(userId: number, key: string | undefined, run: () => T): T => {
+  if (!key) {
+    return run();
+  }
+
+  const cacheKey = `${userId}:${key}`;
+  if (idempotentResponses.has(cacheKey)) {
+    return clone(idempotentResponses.get(cacheKey) as T);
+  }
 
-const normalizeText = (value: string): string => value.replace(/\s+/g, "").toLowerCase();
+  const result = run();
+  idempotentResponses.set(cacheKey, clone(result));
+  return result;
+};
 
 const getUserById = (id: number): UserProfile | undefined => users.find((user) => user.id === id);
 const getUserByRole = (role: Role): UserProfile => users.find((user) => user.role === role)!;
@@ -317,14 +634,182 @@ export const getProfile = (token: string | null): UserProfile => {
   return clone(user);
 };
 
-const asStudentQuestion = (question: TeacherQuestion): StudentQuestion => ({
+// Deterministic per attempt, so a resumed attempt shows the items in the same starting order.
+const seededShuffle = <T>(items: T[], seed: number): T[] => {
+  const result = items.slice();
+  let state = seed >>> 0;
+  const next = (): number => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(next() * (index + 1));
+    [result[index], result[swap]] = [result[swap]!, result[index]!];
+  }
+
+  return result;
+};
+
+const shuffleForAttempt = <T>(items: T[], seed: number): T[] => {
+  const result = seededShuffle(items, seed);
+
+  // Never hand out the items already in the correct sequence (or lined up with their pairs).
+  if (result.length > 1 && result.every((item, index) => item === items[index])) {
+    result.push(result.shift()!);
+  }
+
+  return result;
+};
+
+const questionSeed = (attempt: StoredAttempt, questionId: number): number => attempt.seed * 7919 + questionId;
+
+// The test as this attempt sees it: question order and choice option order follow the attempt seed.
+// Ordering and matching options keep their canonical order here, since that order is the answer key.
+const getPresentedQuestions = (attempt: StoredAttempt, test: TeacherTest): TeacherQuestion[] => {
+  const drawn = test.questions.filter((question) => attempt.questionIds.includes(question.id));
+  const questions = test.shuffleQuestions ? seededShuffle(drawn, attempt.seed) : drawn;
+
+  return questions.map((question) =>
+    test.shuffleOptions && (question.type === "single" || question.type === "multiple")
+      ? { ...question, options: seededShuffle(question.options, questionSeed(attempt, question.id)) }
+      : question
+  );
+};
+
+const normalizePools = (pools: QuestionPool[] | undefined): QuestionPool[] =>
+  (pools ?? []).map((pool, index) => ({
+    id: String(pool.id || `pool-${index + 1}`),
+    title: String(pool.title ?? "").trim() || `Pool ${index + 1}`,
+    drawCount: Math.max(0, Math.floor(Number(pool.drawCount) || 0)),
+    quotas: {
+      easy: Math.max(0, Math.floor(Number(pool.quotas?.easy) || 0)),
+      medium: Math.max(0, Math.floor(Number(pool.quotas?.medium) || 0)),
+      hard: Math.max(0, Math.floor(Number(pool.quotas?.hard) || 0)),
+    },
+  }));
+
+// Quotas are filled first, then the rest of the draw comes from whatever the pool has left.
+// A pool smaller than its draw count (or a quota it cannot meet) simply hands out what it has.
+const drawQuestions = (test: TeacherTest, seed: number): number[] => {
+  const poolIds = new Set(test.pools.map((pool) => pool.id));
+  const drawn = new Set(
+    test.questions.filter((question) => !question.poolId || !poolIds.has(question.poolId)).map((question) => question.id)
+  );
+
+  test.pools.forEach((pool, poolIndex) => {
+    const candidates = seededShuffle(
+      test.questions.filter((question) => question.poolId === pool.id),
+      seed + poolIndex * 104729
+    );
+    const picked = DIFFICULTIES.flatMap((difficulty) =>
+      candidates.filter((question) => question.difficulty === difficulty).slice(0, pool.quotas[difficulty])
+    );
+    const rest = candidates.filter((question) => !picked.includes(question));
+
+    [...picked, ...rest].slice(0, pool.drawCount).forEach((question) => drawn.add(question.id));
+  });
+
+  return test.questions.filter((question) => drawn.has(question.id)).map((question) => question.id);
+};
+
+const asStudentQuestion = (question: TeacherQuestion, attempt: StoredAttempt): StudentQuestion => ({
   id: question.id,
   prompt: question.prompt,
   type: question.type,
   points: question.points,
-  options: clone(question.options),
+  options:
+    question.type === "ordering"
+      ? shuffleForAttempt(clone(question.options), questionSeed(attempt, question.id))
+      : clone(question.options),
+  ...(question.imageUrl ? { imageUrl: question.imageUrl } : {}),
+  ...(question.type === "numeric" && question.numericRules.unit ? { expectsUnit: true } : {}),
+  ...(question.type === "matching"
+    ? { matchOptions: shuffleForAttempt(clone(question.matchOptions), questionSeed(attempt, question.id)) }
+    : {}),
+  ...(question.hints.length > 0
+    ? {
+        hintCount: question.hints.length,
+        hintPenaltyPercent: question.hintPenaltyPercent,
+        revealedHints: question.hints.slice(0, attempt.hintsUsed[question.id] ?? 0),
+      }
+    : {}),
 });
 
+const toStartAttemptResponse = (attempt: StoredAttempt, test: TeacherTest): StartAttemptResponse => {
+  const {
+    studentId: _studentId,
+    questionIds: _questionIds,
+    answers,
+    result: _result,
+    gradeOverrides: _gradeOverrides,
+    hintsUsed: _hintsUsed,
+    practice: _practice,
+    ...publicAttempt
+  } = attempt;
+
+  return {
+    attempt: clone(publicAttempt),
+    test: {
+      id: test.id,
+      title: test.title,
+      description: test.description,
+      timeLimitSec: test.timeLimitSec,
+      mode: attempt.practice ? "practice" : "exam",
+      questions: getPresentedQuestions(attempt, test).map((question) => asStudentQuestion(question, attempt)),
+    },
+    answers: clone(answers),
+    serverTime: nowIso(),
+  };
+};
+
+const isFinishedAttempt = (attempt: StoredAttempt): boolean =>
+  attempt.status === "submitted" || attempt.status === "graded";
+
+// Still accepting answers, including the grace period an auto-submit may need.
+const isRunningAttempt = (attempt: StoredAttempt): boolean =>
+  attempt.status === "in_progress" && Date.now() <= new Date(attempt.expiresAt).getTime() + SUBMIT_GRACE_MS;
+
+const getAssignmentAvailability = (assignment: EnrollmentTestAssignment | undefined) =>
+  resolveAvailability(assignment?.startDate ?? null, assignment?.endDate ?? null, Date.now());
+
+// A student may sit in several courses with the same test; an open assignment wins, then the most generous one.
+const findStudentAssignment = (studentId: number, testId: number): EnrollmentTestAssignment | undefined => {
+  const courseIds = enrollment.filter((item) => item.studentId === studentId).map((item) => item.courseId);
+  const isOpen = (item: EnrollmentTestAssignment): number => Number(getAssignmentAvailability(item) === "open");
+
+  return enrollmentTests
+    .filter((item) => item.testId === testId && courseIds.includes(item.courseId))
+    .sort((left, right) => isOpen(right) - isOpen(left) || right.attemptCount - left.attemptCount)[0];
+};
+
+const getAllowedAttempts = (studentId: number, testId: number): number =>
+  findStudentAssignment(studentId, testId)?.attemptCount ?? 1;
+
+// An assignment-level accommodation is more specific than a course-level one.
+const getTimeMultiplier = (studentId: number, testId: number): number => {
+  const assignment = findStudentAssignment(studentId, testId);
+  if (!assignment) {
+    return 1;
+  }
+
+  const forStudent = accommodations.filter((item) => item.studentId === studentId);
+  const match =
+    forStudent.find((item) => item.assignmentId === assignment.id) ??
+    forStudent.find((item) => item.courseId === assignment.courseId);
+  return match?.multiplier ?? 1;
+};
+
+// Graded attempts that no longer run, oldest first. Expired attempts use up a try as well.
+const getUsedAttempts = (studentId: number, testId: number, practice = false): StoredAttempt[] =>
+  attempts.filter(
+    (attempt) =>
+      attempt.studentId === studentId &&
+      attempt.testId === testId &&
+      attempt.practice === practice &&
+      attempt.status !== "in_progress"
+  );
+
 const getPublishedTests = (): TeacherTest[] => tests.filter((test) => test.status === "published");
 
 export const listStudentTests = (token: string | null): StudentTestSummary[] => {
@@ -345,20 +830,26 @@ export const listStudentTests = (token: string | null): StudentTestSummary[] =>
   return getPublishedTests()
     .filter((test) => assignedTestIds.has(test.id))
     .map((test) => {
-    const hasSubmitted = attempts.some(
-      (attempt) =>
-        attempt.studentId === session.userId &&
-        attempt.testId === test.id &&
-        attempt.status === "submitted"
-    );
+    const practice = test.mode === "practice";
+    const used = getUsedAttempts(session.userId, test.id, practice);
+    const assignment = findStudentAssignment(session.userId, test.id);
+    const attemptsAllowed = assignment?.attemptCount ?? 1;
+    const lastFinished = used.filter(isFinishedAttempt).at(-1);
 
     return {
       id: test.id,
       title: test.title,
       description: test.description,
-      questionCount: test.questions.length,
+      questionCount: drawQuestions(test, 0).length,
       timeLimitSec: test.timeLimitSec,
-      status: hasSubmitted ? "completed" : "open",
+      mode: test.mode,
+      status: !practice && used.length >= attemptsAllowed ? "completed" : "open",
+      attemptsUsed: used.length,
+      attemptsAllowed,
+      lastAttemptId: lastFinished?.id ?? null,
+      availableFrom: assignment?.startDate ?? null,
+      availableUntil: assignment?.endDate ?? null,
+      availability: getAssignmentAvailability(assignment),
     };
   });
 };
@@ -374,15 +865,6 @@ export const startStudentAttempt = (token: string | null, testId: number): Start
     throw new Error("NOT_FOUND");
   }
 
-  const submittedAttempt = attempts.find(
-    (attempt) =>
-      attempt.studentId === session.userId && attempt.testId === testId && attempt.status === "submitted"
-  );
-
-  if (submittedAttempt) {
-    throw new Error("TEST_ALREADY_COMPLETED");
-  }
-
   const activeAttempt = attempts.find(
     (attempt) =>
       attempt.studentId === session.userId && attempt.testId === testId && attempt.status === "in_progress"
@@ -393,64 +875,204 @@ export const startStudentAttempt = (token: string | null, testId: number): Start
     if (isExpired) {
       activeAttempt.status = "expired";
     } else {
-      return {
-        attempt: clone(activeAttempt),
-        test: {
-          id: test.id,
-          title: test.title,
-          description: test.description,
-          timeLimitSec: test.timeLimitSec,
-          questions: test.questions.map(asStudentQuestion),
-        },
-      };
+      return toStartAttemptResponse(activeAttempt, test);
     }
   }
 
+  // A running attempt may be resumed above even after the window closes; new ones must start inside it.
+  const availability = getAssignmentAvailability(findStudentAssignment(session.userId, testId));
+  if (availability === "upcoming") {
+    throw new Error("NOT_YET_OPEN");
+  }
+  if (availability === "closed") {
+    throw new Error("CLOSED");
+  }
+
+  const practice = test.mode === "practice";
+  if (!practice && getUsedAttempts(session.userId, testId).length >= getAllowedAttempts(session.userId, testId)) {
+    throw new Error("ATTEMPT_LIMIT_REACHED");
+  }
+
   const startedAt = new Date();
+  const seed = Math.floor(Math.random() * 0x7fffffff);
   const attempt: StoredAttempt = {
     id: ++attemptSequence,
     testId: test.id,
     studentId: session.userId,
     status: "in_progress",
     startedAt: startedAt.toISOString(),
-    expiresAt: new Date(startedAt.getTime() + test.timeLimitSec * 1000).toISOString(),
+    expiresAt: new Date(
+      startedAt.getTime() + Math.round(test.timeLimitSec * 1000 * getTimeMultiplier(session.userId, test.id))
+    ).toISOString(),
     submittedAt: null,
+    seed,
+    questionIds: drawQuestions(test, seed),
     answers: [],
     result: null,
+    gradeOverrides: {},
+    hintsUsed: {},
+    practice,
   };
 
   attempts.push(attempt);
 
+  return toStartAttemptResponse(attempt, test);
+};
+
+export const saveStudentAttemptAnswer = (
+  token: string | null,
+  attemptId: number,
+  answer: AttemptAnswerInput,
+  idempotencyKey?: string
+): SavedAttemptAnswer => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "student") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  return withIdempotency(session.userId, idempotencyKey, () => applyStudentAttemptAnswer(session, attemptId, answer));
+};
+
+const applyStudentAttemptAnswer = (
+  session: SessionRecord,
+  attemptId: number,
+  answer: AttemptAnswerInput
+): SavedAttemptAnswer => {
+  const attempt = attempts.find((item) => item.id === attemptId && item.studentId === session.userId);
+  if (!attempt) {
+    throw new Error("NOT_FOUND");
+  }
+
+  if (isFinishedAttempt(attempt)) {
+    throw new Error("ATTEMPT_ALREADY_SUBMITTED");
+  }
+
+  if (attempt.status === "expired" || Date.now() > new Date(attempt.expiresAt).getTime()) {
+    attempt.status = "expired";
+    throw new Error("ATTEMPT_EXPIRED");
+  }
+
+  const test = tests.find((item) => item.id === attempt.testId);
+  if (!test?.questions.some((question) => question.id === answer.questionId)) {
+    throw new Error("NOT_FOUND");
+  }
+
+  const index = attempt.answers.findIndex((item) => item.questionId === answer.questionId);
+  if (index === -1) {
+    attempt.answers.push(clone(answer));
+  } else {
+    attempt.answers[index] = clone(answer);
+  }
+
   return {
-    attempt: clone(attempt),
-    test: {
-      id: test.id,
-      title: test.title,
-      description: test.description,
-      timeLimitSec: test.timeLimitSec,
-      questions: test.questions.map(asStudentQuestion),
-    },
+    attemptId: attempt.id,
+    questionId: answer.questionId,
+    savedAt: nowIso(),
   };
 };
 
-const compareNumber = (expected: number, received: number, tolerance: number): boolean => {
-  return Math.abs(expected - received) <= tolerance;
+const compareNumber = (
+  expected: number,
+  received: number,
+  tolerance: number,
+  relativeTolerancePercent: number | null
+): boolean => {
+  const difference = Math.abs(expected - received);
+  // Unit conversion introduces floating-point noise, so allow a hair over the configured tolerance.
+  const slack = Math.abs(expected) * 1e-9;
+  if (difference <= tolerance + slack) {
+    return true;
+  }
+
+  return relativeTolerancePercent !== null && difference <= (Math.abs(expected) * relativeTolerancePercent) / 100 + slack;
+};
+
+// Factor converting the student's unit to the question's base unit, or null when the unit is missing or unknown.
+const resolveUnitFactor = (rules: NumericAnswerRules, unit: string): number | null => {
+  if (!rules.unit) {
+    return 1;
+  }
+
+  const given = normalizeUnit(unit);
+  if (given === normalizeUnit(rules.unit)) {
+    return 1;
+  }
+
+  return rules.acceptedUnits.find((item) => normalizeUnit(item.label) === given)?.factor ?? null;
+};
+
+const numericAnswerText = (answer: AttemptAnswerInput | undefined): string =>
+  answer?.numericText ?? (typeof answer?.numericAnswer === "number" ? String(answer.numericAnswer) : "");
+
+const formatNumericAnswer = (answer: AttemptAnswerInput | undefined): string => {
+  const text = numericAnswerText(answer).trim();
+  return text ? [text, answer?.numericUnit?.trim() ?? ""].join(" ").trim() : "";
+};
+
+const scoreNumeric = (question: TeacherQuestion, answer: AttemptAnswerInput | undefined): boolean => {
+  const raw = numericAnswerText(answer);
+  const value = parseNumericInput(raw);
+  if (value === null || typeof question.correctNumber !== "number") {
+    return false;
+  }
+
+  const rules = question.numericRules;
+  const factor = resolveUnitFactor(rules, answer?.numericUnit ?? "");
+  if (factor === null) {
+    return false;
+  }
+
+  if (rules.significantFigures !== null && countSignificantFigures(raw) !== rules.significantFigures) {
+    return false;
+  }
+
+  return compareNumber(question.correctNumber, value * factor, question.tolerance ?? 0, rules.relativeTolerancePercent);
+};
+
+const describePairs = (question: TeacherQuestion, pairs: MatchPair[]): QuestionOption[] => {
+  const left = new Map(question.options.map((option) => [option.id, option.text]));
+  const right = new Map(question.matchOptions.map((option) => [option.id, option.text]));
+
+  return pairs
+    .filter((pair) => left.has(pair.leftId) && right.has(pair.rightId))
+    .map((pair) => ({ id: pair.leftId, text: `${left.get(pair.leftId)} = ${right.get(pair.rightId)}` }));
 };
 
+const formatPairs = (question: TeacherQuestion, pairs: MatchPair[]): string =>
+  describePairs(question, pairs)
+    .map((pair) => pair.text)
+    .join("; ");
+
+// Image-only options have no text, so reviews name them by position instead.
+const optionLabel = (question: TeacherQuestion, option: QuestionOption): string =>
+  option.text.trim() || `Image option ${question.options.indexOf(option) + 1}`;
+
 const formatCorrectAnswer = (question: TeacherQuestion): string => {
   if (question.type === "short") {
-    return question.correctText ?? "";
+    return [question.correctText ?? "", ...question.shortAnswerRules.acceptedAnswers]
+      .filter((text) => text.trim().length > 0)
+      .join(" / ");
   }
 
   if (question.type === "numeric") {
-    return question.correctNumber === null ? "" : String(question.correctNumber);
+    return question.correctNumber === null
+      ? ""
+      : [String(question.correctNumber), question.numericRules.unit ?? ""].join(" ").trim();
   }
 
   if (question.type === "single" || question.type === "multiple") {
-    const map = new Map(question.options.map((option) => [option.id, option.text]));
+    const map = new Map(question.options.map((option) => [option.id, optionLabel(question, option)]));
     return question.correctOptionIds.map((id) => map.get(id) ?? "").filter(Boolean).join(", ");
   }
 
+  if (question.type === "ordering") {
+    return question.options.map((option) => option.text).join(" → ");
+  }
+
+  if (question.type === "matching") {
+    return formatPairs(question, question.correctPairs);
+  }
+
   return "";
 };
 
@@ -464,64 +1086,149 @@ const formatUserAnswer = (question: TeacherQuestion, answer: AttemptAnswerInput
   }
 
   if (question.type === "numeric") {
-    return typeof answer.numericAnswer === "number" ? String(answer.numericAnswer) : "No answer";
+    return formatNumericAnswer(answer) || "No answer";
+  }
+
+  if (question.type === "matching") {
+    return formatPairs(question, answer.matchedPairs ?? []) || "No answer";
+  }
+
+  const map = new Map(question.options.map((option) => [option.id, optionLabel(question, option)]));
+  if (question.type === "ordering") {
+    return (answer.orderedOptionIds ?? []).map((id) => map.get(id) ?? "").filter(Boolean).join(" → ") || "No answer";
   }
 
-  const map = new Map(question.options.map((option) => [option.id, option.text]));
   return (answer.selectedOptionIds ?? []).map((id) => map.get(id) ?? "").filter(Boolean).join(", ") || "No answer";
 };
 
-const scoreAttempt = (attempt: StoredAttempt, test: TeacherTest): AttemptResult => {
-  let score = 0;
-  let maxScore = 0;
-
-  const breakdown = test.questions.map((question) => {
-    maxScore += question.points;
+const roundPoints = (value: number): number => Math.round(value * 100) / 100;
 
-    const answer = attempt.answers.find((item) => item.questionId === question.id);
-    let correct = false;
+// Share of the question's points earned under its scoring policy. Only negative marking goes below zero.
+export const scoreChoice = (question: TeacherQuestion, answer: AttemptAnswerInput | undefined): number => {
+  const selected = new Set(answer?.selectedOptionIds ?? []);
+  const expected = new Set(question.correctOptionIds);
+  if (selected.size === 0) {
+    return 0;
+  }
 
-    if (question.type === "single") {
-      const selected = answer?.selectedOptionIds ?? [];
-      correct = selected.length === 1 && selected[0] === question.correctOptionIds[0];
+  if (question.type === "single") {
+    const [choice] = [...selected];
+    if (selected.size === 1 && choice !== undefined && expected.has(choice)) {
+      return 1;
     }
 
-    if (question.type === "multiple") {
-      const selected = [...(answer?.selectedOptionIds ?? [])].sort((a, b) => a - b);
-      const expected = [...question.correctOptionIds].sort((a, b) => a - b);
-      correct = selected.length === expected.length && selected.every((value, index) => value === expected[index]);
-    }
+    // Classic guessing correction: a blind guess is worth zero on average.
+    return question.scoringPolicy === "negative_marking" ? -1 / Math.max(1, question.options.length - 1) : 0;
+  }
 
-    if (question.type === "short") {
-      correct = normalizeText(answer?.textAnswer ?? "") === normalizeText(question.correctText ?? "");
-    }
+  const hits = [...selected].filter((id) => expected.has(id)).length;
+  const misses = selected.size - hits;
 
-    if (question.type === "numeric") {
-      if (typeof answer?.numericAnswer === "number" && typeof question.correctNumber === "number") {
-        correct = compareNumber(
-          question.correctNumber,
-          answer.numericAnswer,
-          question.tolerance ?? 0
-        );
-      }
-    }
+  // Options correctly left blank earn nothing, so every wrong pick has to cost a correct one.
+  if (question.scoringPolicy === "proportional" || question.scoringPolicy === "right_minus_wrong") {
+    return expected.size > 0 ? Math.max(0, (hits - misses) / expected.size) : 0;
+  }
 
-    const pointsEarned = correct ? question.points : 0;
-    score += pointsEarned;
+  return hits === expected.size && misses === 0 ? 1 : 0;
+};
 
-    return {
-      questionId: question.id,
-      prompt: question.prompt,
-      type: question.type,
-      correct,
-      pointsEarned,
-      pointsMax: question.points,
-      explanation: question.explanation,
-      correctAnswerText: formatCorrectAnswer(question),
-      userAnswerText: formatUserAnswer(question, answer),
-    };
-  });
+// Share of items the student put in their correct position.
+const scoreOrdering = (question: TeacherQuestion, answer: AttemptAnswerInput | undefined): number => {
+  const expected = question.options.map((option) => option.id);
+  const received = answer?.orderedOptionIds ?? [];
+  if (expected.length === 0) {
+    return 0;
+  }
+
+  const placed = expected.filter((id, index) => received[index] === id).length;
+  return placed / expected.length;
+};
+
+// Share of the expected pairs the student matched; each left item counts once.
+const scoreMatching = (question: TeacherQuestion, answer: AttemptAnswerInput | undefined): number => {
+  if (question.correctPairs.length === 0) {
+    return 0;
+  }
+
+  const chosen = new Map((answer?.matchedPairs ?? []).map((pair) => [pair.leftId, pair.rightId]));
+  const matched = question.correctPairs.filter((pair) => chosen.get(pair.leftId) === pair.rightId).length;
+  return matched / question.correctPairs.length;
+};
+
+export const scoreQuestion = (
+  question: TeacherQuestion,
+  answer: AttemptAnswerInput | undefined,
+  override?: GradeOverride,
+  hintsUsed = 0
+): QuestionResult => {
+  let correct = false;
+  let fraction: number | null = null;
+  let matchedRule: string | null = null;
+
+  if (question.type === "single" || question.type === "multiple") {
+    fraction = scoreChoice(question, answer);
+    correct = fraction === 1;
+  }
+
+  if (question.type === "short") {
+    const match = matchShortAnswer(question, answer?.textAnswer ?? "");
+    correct = match.correct;
+    matchedRule = match.rule;
+  }
+
+  if (question.type === "numeric") {
+    correct = scoreNumeric(question, answer);
+  }
+
+  if (question.type === "ordering") {
+    const placed = scoreOrdering(question, answer);
+    correct = placed === 1;
+    fraction = question.partialCredit ? placed : null;
+  }
+
+  if (question.type === "matching") {
+    fraction = scoreMatching(question, answer);
+    correct = fraction === 1;
+  }
+
+  let pointsEarned = fraction === null ? (correct ? question.points : 0) : roundPoints(question.points * fraction);
+
+  // Hints only eat into points that were earned; they never push a question below zero on their own.
+  let hintPenalty = 0;
+  if (hintsUsed > 0 && pointsEarned > 0) {
+    const penalty = (question.points * question.hintPenaltyPercent * hintsUsed) / 100;
+    const reduced = Math.max(0, roundPoints(pointsEarned - penalty));
+    hintPenalty = roundPoints(pointsEarned - reduced);
+    pointsEarned = reduced;
+  }
+
+  // A teacher's grade replaces the automatic score.
+  if (override) {
+    pointsEarned = override.points;
+    correct = override.points >= question.points;
+  }
+
+  return {
+    questionId: question.id,
+    prompt: question.prompt,
+    type: question.type,
+    correct,
+    pointsEarned,
+    pointsMax: question.points,
+    explanation: question.explanation,
+    correctAnswerText: formatCorrectAnswer(question),
+    userAnswerText: formatUserAnswer(question, answer),
+    matchedRule,
+    manuallyGraded: Boolean(override),
+    feedback: override?.feedback || null,
+    ...(hintsUsed > 0 ? { hintsUsed, hintPenalty: override ? 0 : hintPenalty } : {}),
+  };
+};
 
+const summarizeAttempt = (attempt: StoredAttempt, test: TeacherTest, breakdown: QuestionResult[]): AttemptResult => {
+  const maxScore = breakdown.reduce((sum, row) => sum + row.pointsMax, 0);
+  // Negative marking can take single questions below zero, never the attempt as a whole.
+  const score = Math.max(0, roundPoints(breakdown.reduce((sum, row) => sum + row.pointsEarned, 0)));
   const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0;
 
   return {
@@ -537,26 +1244,52 @@ const scoreAttempt = (attempt: StoredAttempt, test: TeacherTest): AttemptResult
   };
 };
 
-export const submitStudentAttempt = (
+const scoreAttempt = (attempt: StoredAttempt, test: TeacherTest): AttemptResult =>
+  summarizeAttempt(
+    attempt,
+    test,
+    getPresentedQuestions(attempt, test).map((question) =>
+      scoreQuestion(
+        question,
+        attempt.answers.find((item) => item.questionId === question.id),
+        attempt.gradeOverrides[question.id],
+        attempt.hintsUsed[question.id] ?? 0
+      )
+    )
+  );
+
+export const submitStudentAttempt = (
   token: string | null,
   attemptId: number,
-  incomingAnswers: AttemptAnswerInput[]
+  incomingAnswers: AttemptAnswerInput[],
+  idempotencyKey?: string
 ): AttemptResult => {
   const session = resolveSession(token);
   if (!session || session.role !== "student") {
     throw new Error("UNAUTHORIZED");
   }
 
+  return withIdempotency(session.userId, idempotencyKey, () =>
+    applyStudentAttemptSubmit(session, attemptId, incomingAnswers)
+  );
+};
+
+const applyStudentAttemptSubmit = (
+  session: SessionRecord,
+  attemptId: number,
+  incomingAnswers: AttemptAnswerInput[]
+): AttemptResult => {
   const attempt = attempts.find((item) => item.id === attemptId && item.studentId === session.userId);
   if (!attempt) {
     throw new Error("NOT_FOUND");
   }
 
-  if (attempt.status === "submitted") {
+  if (isFinishedAttempt(attempt)) {
     throw new Error("ATTEMPT_ALREADY_SUBMITTED");
   }
 
-  const expired = Date.now() > new Date(attempt.expiresAt).getTime();
+  // Auto-submits fire at the deadline, so allow for the request still being in flight.
+  const expired = Date.now() > new Date(attempt.expiresAt).getTime() + SUBMIT_GRACE_MS;
   if (expired) {
     attempt.status = "expired";
     throw new Error("ATTEMPT_EXPIRED");
@@ -574,6 +1307,110 @@ export const submitStudentAttempt = (
   return clone(attempt.result);
 };
 
+// Checks one answer of a running practice attempt; the student may check again as often as they like.
+export const checkPracticeAnswer = (
+  token: string | null,
+  attemptId: number,
+  answer: AttemptAnswerInput
+): QuestionResult => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "student") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const attempt = attempts.find((item) => item.id === attemptId && item.studentId === session.userId);
+  if (!attempt) {
+    throw new Error("NOT_FOUND");
+  }
+
+  if (!attempt.practice) {
+    throw new Error("PRACTICE_ONLY");
+  }
+
+  const test = tests.find((item) => item.id === attempt.testId);
+  const question = test?.questions.find((item) => item.id === answer.questionId);
+  if (!question || !attempt.questionIds.includes(question.id)) {
+    throw new Error("NOT_FOUND");
+  }
+
+  // The checked answer is saved too, so a later resume shows it.
+  applyStudentAttemptAnswer(session, attemptId, answer);
+
+  const result = scoreQuestion(question, answer, undefined, attempt.hintsUsed[question.id] ?? 0);
+  practiceChecks.push({
+    attemptId: attempt.id,
+    studentId: session.userId,
+    testId: attempt.testId,
+    questionId: question.id,
+    correct: result.correct,
+    checkedAt: nowIso(),
+  });
+
+  return result;
+};
+
+// Each call reveals the next hint step; the count is what the penalty in `scoreQuestion` is based on.
+export const revealHint = (token: string | null, attemptId: number, questionId: number): HintReveal => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "student") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const attempt = attempts.find((item) => item.id === attemptId && item.studentId === session.userId);
+  if (!attempt) {
+    throw new Error("NOT_FOUND");
+  }
+
+  if (isFinishedAttempt(attempt)) {
+    throw new Error("ATTEMPT_ALREADY_SUBMITTED");
+  }
+
+  if (attempt.status === "expired" || Date.now() > new Date(attempt.expiresAt).getTime()) {
+    attempt.status = "expired";
+    throw new Error("ATTEMPT_EXPIRED");
+  }
+
+  const test = tests.find((item) => item.id === attempt.testId);
+  const question = test?.questions.find((item) => item.id === questionId);
+  if (!question || !attempt.questionIds.includes(question.id)) {
+    throw new Error("NOT_FOUND");
+  }
+
+  const used = attempt.hintsUsed[question.id] ?? 0;
+  if (used >= question.hints.length) {
+    throw new Error("NO_MORE_HINTS");
+  }
+
+  attempt.hintsUsed[question.id] = used + 1;
+
+  return {
+    attemptId: attempt.id,
+    questionId: question.id,
+    hint: question.hints[used]!,
+    hintsUsed: used + 1,
+    hintCount: question.hints.length,
+  };
+};
+
+export const getStudentAttemptTiming = (token: string | null, attemptId: number): AttemptTiming => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "student") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const attempt = attempts.find((item) => item.id === attemptId && item.studentId === session.userId);
+  if (!attempt) {
+    throw new Error("NOT_FOUND");
+  }
+
+  return {
+    attemptId: attempt.id,
+    status: attempt.status,
+    expiresAt: attempt.expiresAt,
+    serverTime: nowIso(),
+  };
+};
+
 export const getStudentAttemptResult = (token: string | null, attemptId: number): AttemptResult => {
   const session = resolveSession(token);
   if (!session || session.role !== "student") {
@@ -585,7 +1422,7 @@ export const getStudentAttemptResult = (token: string | null, attemptId: number)
     throw new Error("NOT_FOUND");
   }
 
-  if (!attempt.result || attempt.status !== "submitted") {
+  if (!attempt.result || !isFinishedAttempt(attempt)) {
     throw new Error("RESULT_NOT_READY");
   }
 
@@ -623,6 +1460,8 @@ const normalizeStatus = (status: unknown): TestStatus => {
   return "draft";
 };
 
+const normalizeMode = (mode: unknown): TestMode => (mode === "practice" ? "practice" : "exam");
+
 export const createTeacherTest = (token: string | null, payload: Partial<TeacherTest>): TeacherTest => {
   const session = resolveSession(token);
   if (!session || session.role !== "teacher") {
@@ -635,8 +1474,12 @@ export const createTeacherTest = (token: string | null, payload: Partial<Teacher
     title: payload.title ?? "Untitled Test",
     description: payload.description ?? "",
     status: normalizeStatus(payload.status),
+    mode: normalizeMode(payload.mode),
     timeLimitSec: payload.timeLimitSec ?? 900,
     passingPercent: payload.passingPercent ?? 60,
+    shuffleQuestions: payload.shuffleQuestions ?? false,
+    shuffleOptions: payload.shuffleOptions ?? false,
+    pools: normalizePools(payload.pools),
     courseId: payload.courseId ?? null,
     questions: [],
     createdAt: timestamp,
@@ -665,8 +1508,12 @@ export const updateTeacherTest = (
   test.title = payload.title ?? test.title;
   test.description = payload.description ?? test.description;
   test.status = payload.status ? normalizeStatus(payload.status) : test.status;
+  test.mode = payload.mode ? normalizeMode(payload.mode) : test.mode;
   test.timeLimitSec = payload.timeLimitSec ?? test.timeLimitSec;
   test.passingPercent = payload.passingPercent ?? test.passingPercent;
+  test.shuffleQuestions = payload.shuffleQuestions ?? test.shuffleQuestions;
+  test.shuffleOptions = payload.shuffleOptions ?? test.shuffleOptions;
+  test.pools = payload.pools ? normalizePools(payload.pools) : test.pools;
   test.courseId = payload.courseId ?? test.courseId;
   test.updatedAt = nowIso();
 
@@ -704,6 +1551,18 @@ const buildTeacherQuestionFromInput = (input: TeacherQuestionInput): TeacherQues
     correctText: input.correctText ?? undefined,
     correctNumber: input.correctNumber ?? undefined,
     tolerance: input.tolerance ?? undefined,
+    partialCredit: input.partialCredit,
+    scoringPolicy: input.scoringPolicy,
+    shortAnswerRules: input.shortAnswerRules,
+    numericRules: input.numericRules,
+    poolId: input.poolId,
+    difficulty: input.difficulty,
+    hints: input.hints,
+    hintPenaltyPercent: input.hintPenaltyPercent,
+    imageUrl: input.imageUrl,
+    bankQuestionId: bankQuestions.some((item) => item.question.id === input.bankQuestionId)
+      ? input.bankQuestionId
+      : null,
     explanation: input.explanation,
   });
 };
@@ -776,6 +1635,325 @@ export const deleteTeacherQuestion = (token: string | null, questionId: number):
   throw new Error("NOT_FOUND");
 };
 
+// Draft tests may hold unfinished questions; the answer key is only enforced once the test is published.
+const findQuestionSaveError = (question: TeacherQuestionInput, published: boolean): string | null => {
+  if (!Number.isFinite(question.points) || question.points < 0) {
+    return "Points must be 0 or more.";
+  }
+  if (!published) {
+    return null;
+  }
+
+  if (!question.prompt?.trim()) {
+    return "Prompt is required.";
+  }
+
+  if (question.type === "single" || question.type === "multiple") {
+    const filled = question.options.filter((option) => option.text.trim() || option.imageUrl);
+    if (filled.length < 2) {
+      return "Add at least 2 non-empty options.";
+    }
+    if (!filled.some((option) => option.isCorrect)) {
+      return "Mark at least 1 correct option.";
+    }
+  }
+  if (question.type === "short" && !question.correctText?.trim()) {
+    return "Correct text is required.";
+  }
+  if (question.type === "numeric" && !Number.isFinite(question.correctNumber)) {
+    return "Correct number is required.";
+  }
+
+  return null;
+};
+
+// Edited options keep their ids: same text first, then the remaining ids in order. Saved answers
+// refer to option ids, so fresh ids would orphan them.
+const reuseOptionIds = (next: QuestionOption[], previous: QuestionOption[], remap: Map<number, number>): void => {
+  const free = [...previous];
+  for (const option of next) {
+    const index = free.findIndex((candidate) => candidate.text === option.text);
+    if (index !== -1) {
+      remap.set(option.id, free.splice(index, 1)[0]!.id);
+    }
+  }
+  for (const option of next) {
+    if (!remap.has(option.id) && free.length > 0) {
+      remap.set(option.id, free.shift()!.id);
+    }
+  }
+};
+
+const keepQuestionIds = (question: TeacherQuestion, previous: TeacherQuestion): TeacherQuestion => {
+  const remap = new Map<number, number>();
+  if (question.type === previous.type) {
+    reuseOptionIds(question.options, previous.options, remap);
+    reuseOptionIds(question.matchOptions, previous.matchOptions, remap);
+  }
+  const keep = (optionId: number): number => remap.get(optionId) ?? optionId;
+
+  return {
+    ...question,
+    id: previous.id,
+    options: question.options.map((option) => ({ ...option, id: keep(option.id) })),
+    matchOptions: question.matchOptions.map((option) => ({ ...option, id: keep(option.id) })),
+    correctOptionIds: question.correctOptionIds.map(keep),
+    correctPairs: question.correctPairs.map((pair) => ({ leftId: keep(pair.leftId), rightId: keep(pair.rightId) })),
+  };
+};
+
+// Once a test has attempts, its questions and their options are fixed; texts, points and keys may still change.
+const findStructuralChange = (input: TeacherQuestionInput, previous: TeacherQuestion | undefined): string | null => {
+  if (!previous) {
+    return "Questions cannot be added to a test that already has attempts.";
+  }
+  if (input.type !== previous.type) {
+    return "The question type cannot change once the test has attempts.";
+  }
+  if (input.options.length !== previous.options.length) {
+    return "Options cannot be added or removed once the test has attempts.";
+  }
+  return null;
+};
+
+export const saveTeacherTestWithQuestions = (token: string | null, request: TestSaveRequest): TestSaveResult => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const existing = request.testId === null ? null : tests.find((item) => item.id === request.testId);
+  if (existing === undefined) {
+    throw new Error("NOT_FOUND");
+  }
+
+  const locked = existing !== null && attempts.some((attempt) => attempt.testId === existing.id);
+  if (locked && existing.questions.some((question) => request.deletedQuestionIds.includes(question.id))) {
+    throw new Error("TEST_HAS_ATTEMPTS");
+  }
+
+  // Every question is checked before anything is written, so a failed save leaves the stored test untouched.
+  const published = normalizeStatus(request.test.status ?? existing?.status) === "published";
+  const failures = new Map<string, string>();
+  for (const item of request.questions) {
+    const previous = existing?.questions.find((question) => question.id === item.id);
+    const error =
+      item.id !== undefined && !previous
+        ? "This question no longer exists in the test."
+        : ((locked ? findStructuralChange(item.question, previous) : null) ??
+          findQuestionSaveError(item.question, published));
+    if (error !== null) {
+      failures.set(item.clientId, error);
+    }
+  }
+
+  if (failures.size > 0) {
+    return {
+      saved: false,
+      test: null,
+      results: request.questions.map((item) => ({
+        clientId: item.clientId,
+        status: failures.has(item.clientId) ? "failed" : "skipped",
+        questionId: item.id ?? null,
+        error: failures.get(item.clientId) ?? null,
+      })),
+    };
+  }
+
+  const saved = existing
+    ? updateTeacherTest(token, existing.id, request.test)
+    : createTeacherTest(token, request.test);
+  const test = tests.find((item) => item.id === saved.id)!;
+
+  const results: TestSaveQuestionResult[] = [];
+  const questions: TeacherQuestion[] = [];
+  for (const item of request.questions) {
+    const built = buildTeacherQuestionFromInput(item.question);
+    const previous = test.questions.find((question) => question.id === item.id);
+    const question = previous ? keepQuestionIds(built, previous) : built;
+    questions.push(question);
+    results.push({
+      clientId: item.clientId,
+      status: item.id === undefined ? "created" : "updated",
+      questionId: question.id,
+      error: null,
+    });
+  }
+
+  // Questions the request leaves out stay after the sent ones; removed ids that are already gone are skipped.
+  const sentIds = new Set(questions.map((question) => question.id));
+  test.questions = [
+    ...questions,
+    ...test.questions.filter(
+      (question) => !sentIds.has(question.id) && !request.deletedQuestionIds.includes(question.id)
+    ),
+  ];
+  test.updatedAt = nowIso();
+
+  return { saved: true, test: clone(test), results };
+};
+
+const toBankQuestion = (item: StoredBankQuestion): BankQuestion => ({
+  ...clone(item.question),
+  tags: [...item.tags],
+  usage: tests.flatMap((test) =>
+    test.questions
+      .filter((question) => question.bankQuestionId === item.question.id)
+      .map((question) => ({ testId: test.id, testTitle: test.title, questionId: question.id }))
+  ),
+  updatedAt: item.updatedAt,
+});
+
+// The bank is shared by all teachers. Search looks at the prompt, option texts and tags.
+export const listBankQuestions = (token: string | null, filter: BankQuestionFilter): BankQuestion[] => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const search = filter.search.trim().toLowerCase();
+  const tag = filter.tag.trim().toLowerCase();
+
+  return bankQuestions
+    .filter((item) => !tag || item.tags.some((candidate) => candidate.toLowerCase() === tag))
+    .filter((item) => {
+      if (!search) {
+        return true;
+      }
+      const haystack = [item.question.prompt, ...item.question.options.map((option) => option.text), ...item.tags];
+      return haystack.some((text) => text.toLowerCase().includes(search));
+    })
+    .map(toBankQuestion);
+};
+
+export const createBankQuestion = (
+  token: string | null,
+  payload: { question: TeacherQuestionInput; tags?: string[] }
+): BankQuestion => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const item = toStoredBankQuestion(buildTeacherQuestionFromInput(payload.question), payload.tags, session.userId);
+  bankQuestions.push(item);
+  return toBankQuestion(item);
+};
+
+// Tests that already have attempts keep their copy, so answers given there are still graded against what was asked.
+export const updateBankQuestion = (token: string | null, update: BankQuestionUpdate): BankUpdateResult => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const item = bankQuestions.find((candidate) => candidate.question.id === update.id);
+  if (!item) {
+    throw new Error("NOT_FOUND");
+  }
+
+  if (update.question) {
+    item.question = {
+      ...buildTeacherQuestionFromInput(update.question),
+      id: item.question.id,
+      poolId: null,
+      bankQuestionId: null,
+    };
+  }
+  if (update.tags) {
+    item.tags = normalizeTags(update.tags);
+  }
+  item.updatedAt = nowIso();
+
+  let updatedQuestions = 0;
+  const skippedTestIds: number[] = [];
+  if (update.question && update.propagate) {
+    for (const test of tests) {
+      const linked = test.questions.filter((question) => question.bankQuestionId === item.question.id);
+      if (linked.length === 0) {
+        continue;
+      }
+
+      if (attempts.some((attempt) => attempt.testId === test.id)) {
+        skippedTestIds.push(test.id);
+        continue;
+      }
+
+      test.questions = test.questions.map((question) =>
+        question.bankQuestionId === item.question.id
+          ? {
+              ...buildTeacherQuestionFromInput(update.question!),
+              id: question.id,
+              poolId: question.poolId,
+              bankQuestionId: item.question.id,
+            }
+          : question
+      );
+      updatedQuestions += linked.length;
+      test.updatedAt = nowIso();
+    }
+  }
+
+  return { item: toBankQuestion(item), updatedQuestions, skippedTestIds };
+};
+
+// Copies already placed in tests stay as they are; they only lose the link.
+export const deleteBankQuestion = (token: string | null, bankQuestionId: number): { success: true } => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const index = bankQuestions.findIndex((item) => item.question.id === bankQuestionId);
+  if (index === -1) {
+    throw new Error("NOT_FOUND");
+  }
+
+  bankQuestions.splice(index, 1);
+  for (const test of tests) {
+    for (const question of test.questions) {
+      if (question.bankQuestionId === bankQuestionId) {
+        question.bankQuestionId = null;
+      }
+    }
+  }
+
+  return { success: true };
+};
+
+// SVG is refused: it can carry script, and the builder only produces raster images anyway.
+export const storeImage = (
+  token: string | null,
+  input: { file: unknown; width: number; height: number }
+): UploadedImage => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const { file } = input;
+  if (!(file instanceof Blob) || !/^image\/(png|jpeg|webp|gif)$/.test(file.type)) {
+    throw new Error("INVALID_IMAGE");
+  }
+
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error("IMAGE_TOO_LARGE");
+  }
+
+  const image: StoredImage = {
+    id: ++imageSequence,
+    ownerId: session.userId,
+    blob: file,
+    url: URL.createObjectURL(file),
+    width: Math.max(0, Math.floor(Number(input.width) || 0)),
+    height: Math.max(0, Math.floor(Number(input.height) || 0)),
+    createdAt: nowIso(),
+  };
+  images.push(image);
+
+  return { url: image.url, width: image.width, height: image.height, sizeBytes: image.blob.size };
+};
+
 export const getTeacherResults = (token: string | null, testId: number): TeacherResultsSummary => {
   const session = resolveSession(token);
   if (!session || session.role !== "teacher") {
@@ -787,37 +1965,318 @@ export const getTeacherResults = (token: string | null, testId: number): Teacher
     throw new Error("NOT_FOUND");
   }
 
-  const submitted = attempts.filter((attempt) => attempt.testId === testId && attempt.status === "submitted" && attempt.result);
+  const submitted = attempts.filter(
+    (attempt) => attempt.testId === testId && !attempt.practice && isFinishedAttempt(attempt) && attempt.result
+  );
+  const byStudent = new Map<number, StoredAttempt[]>();
+  submitted.forEach((attempt) => {
+    byStudent.set(attempt.studentId, [...(byStudent.get(attempt.studentId) ?? []), attempt]);
+  });
 
-  const rows = submitted.map((attempt) => {
-    const student = getUserById(attempt.studentId);
-    const result = attempt.result!;
+  const rows = [...byStudent.entries()].map(([studentId, studentAttempts]) => {
+    const gradePolicy = findStudentAssignment(studentId, testId)?.gradePolicy ?? "best";
 
     return {
-      attemptId: attempt.id,
-      studentName: student ? `${student.firstName} ${student.lastName}` : "Unknown Student",
-      score: result.score,
-      maxScore: result.maxScore,
-      percentage: result.percentage,
-      passed: result.passed,
-      submittedAt: result.submittedAt,
+      ...applyGradePolicy(studentAttempts, gradePolicy, test),
+      studentName: getStudentName(studentId),
+      attemptsUsed: studentAttempts.length,
+      gradePolicy,
     };
   });
 
-  const totalAttempts = rows.length;
+  const studentCount = rows.length;
   const totalScore = rows.reduce((sum, row) => sum + row.percentage, 0);
   const passedCount = rows.filter((row) => row.passed).length;
 
   return {
     testId: test.id,
     testTitle: test.title,
-    totalAttempts,
-    averageScore: totalAttempts > 0 ? totalScore / totalAttempts : 0,
-    passRate: totalAttempts > 0 ? (passedCount / totalAttempts) * 100 : 0,
+    totalAttempts: submitted.length,
+    averageScore: studentCount > 0 ? totalScore / studentCount : 0,
+    passRate: studentCount > 0 ? (passedCount / studentCount) * 100 : 0,
+    pendingGrading: collectGradingQueue(test).length,
+    activeAttempts: attempts
+      .filter((attempt) => attempt.testId === testId && !attempt.practice && isRunningAttempt(attempt))
+      .map((attempt) => ({
+        attemptId: attempt.id,
+        studentName: getStudentName(attempt.studentId),
+        startedAt: attempt.startedAt,
+        expiresAt: attempt.expiresAt,
+      })),
+    items: collectItemStats(test, submitted),
     rows,
   };
 };
 
+// Averages are over the attempts that were actually shown the question, not over every attempt.
+const collectItemStats = (test: TeacherTest, finished: StoredAttempt[]): QuestionItemStat[] =>
+  test.questions.map((question) => {
+    const rows = finished
+      .map((attempt) => attempt.result!.breakdown.find((item) => item.questionId === question.id))
+      .filter((row): row is QuestionResult => Boolean(row));
+    const totalPoints = rows.reduce((sum, row) => sum + row.pointsEarned, 0);
+
+    return {
+      questionId: question.id,
+      prompt: question.prompt,
+      poolTitle: test.pools.find((pool) => pool.id === question.poolId)?.title ?? null,
+      seenBy: rows.length,
+      correctCount: rows.filter((row) => row.correct).length,
+      averagePoints: rows.length > 0 ? roundPoints(totalPoints / rows.length) : 0,
+      maxPoints: question.points,
+    };
+  });
+
+const submittedTime = (attempt: StoredAttempt): number => new Date(attempt.submittedAt ?? attempt.startedAt).getTime();
+
+// Picks the score that counts for a student; `average` links to the latest attempt for details.
+const applyGradePolicy = (studentAttempts: StoredAttempt[], policy: GradePolicy, test: TeacherTest) => {
+  const ordered = [...studentAttempts].sort((left, right) => submittedTime(left) - submittedTime(right));
+  const latest = ordered.at(-1)!;
+
+  // Pool quotas can give each attempt a different maximum, so percentages are averaged rather than points.
+  if (policy === "average") {
+    const percentage = ordered.reduce((sum, attempt) => sum + attempt.result!.percentage, 0) / ordered.length;
+    const maxScore = latest.result!.maxScore;
+    const score = roundPoints((percentage / 100) * maxScore);
+
+    return {
+      attemptId: latest.id,
+      score,
+      maxScore,
+      percentage,
+      passed: percentage >= test.passingPercent,
+      submittedAt: latest.result!.submittedAt,
+    };
+  }
+
+  let counted = latest;
+  if (policy === "first") {
+    counted = ordered[0]!;
+  } else if (policy === "best") {
+    counted = ordered.reduce((best, attempt) => (attempt.result!.percentage > best.result!.percentage ? attempt : best));
+  }
+
+  const result = counted.result!;
+  return {
+    attemptId: counted.id,
+    score: result.score,
+    maxScore: result.maxScore,
+    percentage: result.percentage,
+    passed: result.passed,
+    submittedAt: result.submittedAt,
+  };
+};
+
+const getStudentName = (studentId: number): string => {
+  const student = getUserById(studentId);
+  return student ? `${student.firstName} ${student.lastName}` : "Unknown Student";
+};
+
+// Written answers of finished attempts that no teacher has graded yet, flagged ones first.
+const collectGradingQueue = (test: TeacherTest): GradingQueueItem[] => {
+  const items: GradingQueueItem[] = [];
+
+  attempts
+    .filter((attempt) => attempt.testId === test.id && !attempt.practice && isFinishedAttempt(attempt) && attempt.result)
+    .forEach((attempt) => {
+      getPresentedQuestions(attempt, test)
+        .filter((question) => question.type === "short" && !attempt.gradeOverrides[question.id])
+        .forEach((question) => {
+          const row = attempt.result!.breakdown.find((item) => item.questionId === question.id);
+          const answerText = attempt.answers.find((item) => item.questionId === question.id)?.textAnswer?.trim() ?? "";
+
+          items.push({
+            attemptId: attempt.id,
+            questionId: question.id,
+            studentName: getStudentName(attempt.studentId),
+            prompt: question.prompt,
+            answerText,
+            expectedText: formatCorrectAnswer(question),
+            autoPoints: row?.pointsEarned ?? 0,
+            maxPoints: question.points,
+            flagged: answerText.length > 0 && !row?.correct,
+            matchedRule: row?.matchedRule ?? null,
+            submittedAt: attempt.submittedAt,
+          });
+        });
+    });
+
+  return items.sort((left, right) => Number(right.flagged) - Number(left.flagged));
+};
+
+export const getPracticeStats = (token: string | null, testId: number): PracticeStatsSummary => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const test = tests.find((item) => item.id === testId);
+  if (!test) {
+    throw new Error("NOT_FOUND");
+  }
+
+  const checks = practiceChecks.filter((item) => item.testId === testId);
+  const questions: PracticeQuestionStat[] = test.questions.map((question) => {
+    const forQuestion = checks.filter((item) => item.questionId === question.id);
+
+    return {
+      questionId: question.id,
+      prompt: question.prompt,
+      checks: forQuestion.length,
+      correctChecks: forQuestion.filter((item) => item.correct).length,
+      students: new Set(forQuestion.map((item) => item.studentId)).size,
+    };
+  });
+
+  return {
+    testId: test.id,
+    practiceAttempts: attempts.filter((attempt) => attempt.testId === testId && attempt.practice).length,
+    questions,
+  };
+};
+
+export const listGradingQueue = (token: string | null, testId: number): GradingQueueItem[] => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const test = tests.find((item) => item.id === testId);
+  if (!test) {
+    throw new Error("NOT_FOUND");
+  }
+
+  return collectGradingQueue(test);
+};
+
+export const gradeAttemptQuestion = (token: string | null, input: GradeQuestionInput): TeacherAttemptDetail => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const attempt = attempts.find((item) => item.id === input.attemptId);
+  const test = attempt ? tests.find((item) => item.id === attempt.testId) : undefined;
+  if (!attempt || !test) {
+    throw new Error("NOT_FOUND");
+  }
+
+  // With pools an attempt holds only the questions it drew; the rest of the test was never shown.
+  if (!attempt.questionIds.includes(input.questionId)) {
+    throw new Error("NOT_FOUND");
+  }
+
+  if (!isFinishedAttempt(attempt) || !attempt.result) {
+    throw new Error("ATTEMPT_NOT_SUBMITTED");
+  }
+
+  // The stored breakdown is what the student was scored on; the test may have been edited since.
+  const graded = attempt.result.breakdown.find((row) => row.questionId === input.questionId);
+  if (!graded) {
+    throw new Error("NOT_FOUND");
+  }
+
+  const points = Number(input.points);
+  if (!Number.isFinite(points) || points < 0 || points > graded.pointsMax) {
+    throw new Error("INVALID_GRADE");
+  }
+
+  const override: GradeOverride = {
+    points: roundPoints(points),
+    feedback: String(input.feedback ?? "").trim(),
+    gradedAt: nowIso(),
+  };
+  attempt.gradeOverrides[graded.questionId] = override;
+  attempt.result = summarizeAttempt(
+    attempt,
+    test,
+    attempt.result.breakdown.map((row) =>
+      row === graded
+        ? {
+            ...row,
+            correct: override.points >= row.pointsMax,
+            pointsEarned: override.points,
+            manuallyGraded: true,
+            feedback: override.feedback || null,
+            ...(row.hintsUsed ? { hintPenalty: 0 } : {}),
+          }
+        : row
+    )
+  );
+
+  const pending = getPresentedQuestions(attempt, test).some(
+    (item) => item.type === "short" && !attempt.gradeOverrides[item.id]
+  );
+  attempt.status = pending ? "submitted" : "graded";
+
+  return getTeacherAttemptDetails(token, attempt.id);
+};
+
+export const extendAttempt = (token: string | null, attemptId: number, minutes: number): TeacherAttemptDetail => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const attempt = attempts.find((item) => item.id === attemptId);
+  if (!attempt) {
+    throw new Error("NOT_FOUND");
+  }
+
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > 240) {
+    throw new Error("INVALID_EXTENSION");
+  }
+
+  if (isFinishedAttempt(attempt)) {
+    throw new Error("ATTEMPT_ALREADY_SUBMITTED");
+  }
+
+  if (!isRunningAttempt(attempt)) {
+    attempt.status = "expired";
+    throw new Error("ATTEMPT_EXPIRED");
+  }
+
+  attempt.expiresAt = new Date(new Date(attempt.expiresAt).getTime() + minutes * 60_000).toISOString();
+  return getTeacherAttemptDetails(token, attempt.id);
+};
+
+const getSelectedAnswers = (question: TeacherQuestion, answer: AttemptAnswerInput | undefined): QuestionOption[] => {
+  if (question.type === "ordering") {
+    const optionsById = new Map(question.options.map((option) => [option.id, option]));
+    return (answer?.orderedOptionIds ?? [])
+      .map((id) => optionsById.get(id))
+      .filter((option): option is QuestionOption => Boolean(option));
+  }
+
+  if (question.type === "matching") {
+    return describePairs(question, answer?.matchedPairs ?? []);
+  }
+
+  const selectedOptionIds = answer?.selectedOptionIds ?? [];
+  return question.options
+    .filter((option) => selectedOptionIds.includes(option.id))
+    .map((option) => ({ ...option, text: optionLabel(question, option) }));
+};
+
+const getCorrectAnswers = (question: TeacherQuestion): QuestionOption[] => {
+  if (question.type === "single" || question.type === "multiple") {
+    return question.options
+      .filter((option) => question.correctOptionIds.includes(option.id))
+      .map((option) => ({ ...option, text: optionLabel(question, option) }));
+  }
+
+  if (question.type === "ordering") {
+    return clone(question.options);
+  }
+
+  if (question.type === "matching") {
+    return describePairs(question, question.correctPairs);
+  }
+
+  return [];
+};
+
 export const getTeacherAttemptDetails = (token: string | null, attemptId: number): TeacherAttemptDetail => {
   const session = resolveSession(token);
   if (!session || session.role !== "teacher") {
@@ -844,37 +2303,37 @@ export const getTeacherAttemptDetails = (token: string | null, attemptId: number
     studentId: attempt.studentId,
     studentName: student ? `${student.firstName} ${student.lastName}` : "Unknown Student",
     score: attempt.result?.score ?? 0,
-    maxScore: attempt.result?.maxScore ?? test.questions.reduce((sum, question) => sum + question.points, 0),
+    maxScore:
+      attempt.result?.maxScore ??
+      getPresentedQuestions(attempt, test).reduce((sum, question) => sum + question.points, 0),
     percentage: attempt.result?.percentage ?? 0,
+    status: attempt.status,
     startedAt: attempt.startedAt,
+    expiresAt: attempt.expiresAt,
     completedAt: attempt.submittedAt,
-    questions: test.questions.map((question) => {
+    questions: getPresentedQuestions(attempt, test).map((question) => {
       const answer = answersByQuestionId.get(question.id);
-      const selectedOptionIds = answer?.selectedOptionIds ?? [];
-      const selectedAnswers = question.options.filter((option) => selectedOptionIds.includes(option.id));
-      const correctAnswers =
-        question.type === "single" || question.type === "multiple"
-          ? question.options.filter((option) => question.correctOptionIds.includes(option.id))
-          : [];
-      const writtenAnswer =
-        question.type === "numeric"
-          ? typeof answer?.numericAnswer === "number"
-            ? String(answer.numericAnswer)
-            : ""
-          : answer?.textAnswer ?? "";
-
-      const scoredMark =
-        attempt.result?.breakdown.find((row) => row.questionId === question.id)?.pointsEarned ?? 0;
+      const selectedAnswers = getSelectedAnswers(question, answer);
+      const correctAnswers = getCorrectAnswers(question);
+      const writtenAnswer = question.type === "numeric" ? formatNumericAnswer(answer) : answer?.textAnswer ?? "";
+
+      const scoredRow = attempt.result?.breakdown.find((row) => row.questionId === question.id);
 
       return {
         questionId: question.id,
         prompt: question.prompt,
         questionType: question.type,
-        score: scoredMark,
+        score: scoredRow?.pointsEarned ?? 0,
         maxScore: question.points,
         writtenAnswer,
         selectedAnswers,
         correctAnswers,
+        matchedRule: scoredRow?.matchedRule ?? null,
+        manuallyGraded: scoredRow?.manuallyGraded ?? false,
+        feedback: scoredRow?.feedback ?? null,
+        hintsUsed: attempt.hintsUsed[question.id] ?? 0,
+        hintCount: question.hints.length,
+        hintPenalty: scoredRow?.hintPenalty ?? 0,
       };
     }),
   };
@@ -975,7 +2434,14 @@ export const listEnrollmentTests = (token: string | null): EnrollmentTestAssignm
 
 export const createEnrollmentTest = (
   token: string | null,
-  payload: { course_id?: number; test_id?: number; attempt_count?: number }
+  payload: {
+    course_id?: number;
+    test_id?: number;
+    attempt_count?: number;
+    grade_policy?: string;
+    start_date?: string | null;
+    end_date?: string | null;
+  }
 ): EnrollmentTestAssignment => {
   const session = resolveSession(token);
   if (!session || session.role !== "teacher") {
@@ -985,6 +2451,11 @@ export const createEnrollmentTest = (
   const courseId = Number(payload.course_id);
   const testId = Number(payload.test_id);
   const attemptCount = Number(payload.attempt_count ?? 3);
+  const startDate = payload.start_date || null;
+  const endDate = payload.end_date || null;
+  if (!isValidWindow(startDate, endDate)) {
+    throw new Error("INVALID_WINDOW");
+  }
 
   const course = courses.find((item) => item.id === courseId);
   const test = tests.find((item) => item.id === testId);
@@ -1004,8 +2475,11 @@ export const createEnrollmentTest = (
     testId,
     testTitle: test.title,
     attemptCount: Number.isFinite(attemptCount) && attemptCount > 0 ? attemptCount : 3,
-    startDate: null,
-    endDate: null,
+    gradePolicy: GRADE_POLICIES.includes(payload.grade_policy as GradePolicy)
+      ? (payload.grade_policy as GradePolicy)
+      : "best",
+    startDate,
+    endDate,
   };
   enrollmentTests.push(assignment);
   return clone(assignment);
@@ -1025,3 +2499,70 @@ export const deleteEnrollmentTest = (token: string | null, assignmentId: number)
   enrollmentTests.splice(index, 1);
   return { success: true };
 };
+
+export const listTimeAccommodations = (token: string | null): TimeAccommodation[] => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  return clone(accommodations);
+};
+
+export const upsertTimeAccommodation = (token: string | null, input: TimeAccommodationInput): TimeAccommodation => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const student = getUserById(input.studentId);
+  const course = input.courseId !== null ? courses.find((item) => item.id === input.courseId) : undefined;
+  const assignment =
+    input.assignmentId !== null ? enrollmentTests.find((item) => item.id === input.assignmentId) : undefined;
+  if (!student || student.role !== "student" || (!course && !assignment)) {
+    throw new Error("NOT_FOUND");
+  }
+
+  const multiplier = Number(input.multiplier);
+  if (!Number.isFinite(multiplier) || multiplier < 1 || multiplier > 4) {
+    throw new Error("INVALID_MULTIPLIER");
+  }
+
+  const scope = assignment
+    ? { courseId: null, assignmentId: assignment.id, scopeLabel: `${assignment.testTitle} (${assignment.courseName})` }
+    : { courseId: course!.id, assignmentId: null, scopeLabel: course!.name };
+
+  const existing = accommodations.find(
+    (item) =>
+      item.studentId === student.id && item.courseId === scope.courseId && item.assignmentId === scope.assignmentId
+  );
+  if (existing) {
+    existing.multiplier = multiplier;
+    return clone(existing);
+  }
+
+  const accommodation: TimeAccommodation = {
+    id: ++accommodationSequence,
+    studentId: student.id,
+    studentName: getStudentName(student.id),
+    multiplier,
+    ...scope,
+  };
+  accommodations.push(accommodation);
+  return clone(accommodation);
+};
+
+export const deleteTimeAccommodation = (token: string | null, accommodationId: number): { success: true } => {
+  const session = resolveSession(token);
+  if (!session || session.role !== "teacher") {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const index = accommodations.findIndex((item) => item.id === accommodationId);
+  if (index === -1) {
+    throw new Error("NOT_FOUND");
+  }
+
+  accommodations.splice(index, 1);
+  return { success: true };
+};
@@ -4,11 +4,25 @@ import { authReducer, clearSession } from "@/store/slices/authSlice";
 import { userReducer, clearProfile } from "@/store/slices/userSlice";
 import { testReducer } from "@/store/slices/testSlice";
 import { attemptReducer, clearAttempt } from "@/store/slices/attemptSlice";
+import { outboxReducer } from "@/store/slices/outboxSlice";
 import { uiReducer, pushToast, setGlobalError } from "@/store/slices/uiSlice";
-import { savePersistedAuth, savePersistedTheme, savePersistedUser } from "@/store/persistence";
+import {
+  savePersistedAttempt,
+  savePersistedAuth,
+  savePersistedOutbox,
+  savePersistedTheme,
+  savePersistedUser,
+} from "@/store/persistence";
+
+// Background requests report failures through their own UI instead of a toast per request.
+const SILENT_ENDPOINTS = new Set(["saveAttemptAnswer"]);
+
+// Network failures of these requests are queued in the outbox rather than reported as errors.
+const OUTBOX_ENDPOINTS = new Set(["saveAttemptAnswer", "submitStudentAttempt"]);
 
 const rtkQueryErrorMiddleware: Middleware = (storeApi) => (next) => (action) => {
   if (isRejectedWithValue(action)) {
+    const endpointName = (action.meta as { arg?: { endpointName?: string } } | undefined)?.arg?.endpointName;
     const payload = action.payload as {
       data?: { detail?: string; error?: string } | string;
       status?: number | string;
@@ -39,6 +53,14 @@ const rtkQueryErrorMiddleware: Middleware = (storeApi) => (next) => (action) =>
       storeApi.dispatch(clearAttempt());
     }
 
+    if (endpointName && SILENT_ENDPOINTS.has(endpointName)) {
+      return next(action);
+    }
+
+    if (endpointName && OUTBOX_ENDPOINTS.has(endpointName) && payload?.status === "FETCH_ERROR") {
+      return next(action);
+    }
+
     storeApi.dispatch(setGlobalError(detail));
     storeApi.dispatch(
       pushToast({
@@ -57,6 +79,7 @@ export const store = configureStore({
     user: userReducer,
     test: testReducer,
     attempt: attemptReducer,
+    outbox: outboxReducer,
     ui: uiReducer,
     [api.reducerPath]: api.reducer,
   },
@@ -68,11 +91,36 @@ export const store = configureStore({
     }).concat(api.middleware, rtkQueryErrorMiddleware),
 });
 
+let lastPersistedAttempt: ReturnType<typeof store.getState>["attempt"] | null = null;
+let lastPersistedOutbox: ReturnType<typeof store.getState>["outbox"]["entries"] | null = null;
+
 store.subscribe(() => {
   const state = store.getState();
   savePersistedAuth({ token: state.auth.token, expiresAt: state.auth.expiresAt });
   savePersistedUser(state.user.profile);
   savePersistedTheme(state.ui.theme);
+
+  // Attempt drafts are written to localStorage, so skip the write unless the slice changed.
+  if (state.attempt !== lastPersistedAttempt) {
+    lastPersistedAttempt = state.attempt;
+    if (state.attempt.current) {
+      savePersistedAttempt({
+        studentId: state.user.profile?.id ?? null,
+        current: state.attempt.current,
+        answersByQuestionId: state.attempt.answersByQuestionId,
+        syncByQuestionId: state.attempt.syncByQuestionId,
+        flaggedQuestionIds: state.attempt.flaggedQuestionIds,
+        questionIndex: state.attempt.questionIndex,
+        serverTimeOffsetMs: state.ui.serverTimeOffsetMs,
+        savedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  if (state.outbox.entries !== lastPersistedOutbox) {
+    lastPersistedOutbox = state.outbox.entries;
+    savePersistedOutbox(state.outbox.entries);
+  }
 });
 
 export type RootState = ReturnType<typeof store.getState>;
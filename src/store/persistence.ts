@@ -1,18 +1,25 @@
-import type { Role, UserProfile } from "@/types/domain";
+import type { AnswerSyncStatus, AttemptAnswerInput, Role, StartAttemptResponse, UserProfile } from "@/types/domain";
 
 const STORAGE_KEYS = {
   auth: "tma.auth",
   user: "tma.user",
   theme: "tma.theme",
+  attemptPrefix: "tma.attempt.",
+  outbox: "tma.outbox",
 };
 
-const safeRead = <T>(key: string): T | null => {
+// Attempts go to localStorage: sessionStorage does not survive a Telegram WebView restart.
+type StorageKind = "session" | "local";
+
+const getStorage = (kind: StorageKind): Storage => (kind === "local" ? window.localStorage : window.sessionStorage);
+
+const safeRead = <T>(key: string, kind: StorageKind = "session"): T | null => {
   if (typeof window === "undefined") {
     return null;
   }
 
   try {
-    const raw = window.sessionStorage.getItem(key);
+    const raw = getStorage(kind).getItem(key);
     if (!raw) {
       return null;
     }
@@ -23,25 +30,25 @@ const safeRead = <T>(key: string): T | null => {
   }
 };
 
-const safeWrite = (key: string, value: unknown): void => {
+const safeWrite = (key: string, value: unknown, kind: StorageKind = "session"): void => {
   if (typeof window === "undefined") {
     return;
   }
 
   try {
-    window.sessionStorage.setItem(key, JSON.stringify(value));
+    getStorage(kind).setItem(key, JSON.stringify(value));
   } catch {
     // Ignore storage failures.
   }
 };
 
-const safeRemove = (key: string): void => {
+const safeRemove = (key: string, kind: StorageKind = "session"): void => {
   if (typeof window === "undefined") {
     return;
   }
 
   try {
-    window.sessionStorage.removeItem(key);
+    getStorage(kind).removeItem(key);
   } catch {
     // Ignore storage failures.
   }
@@ -88,3 +95,95 @@ export const loadPersistedTheme = (): "light" | "dark" => {
 export const savePersistedTheme = (theme: "light" | "dark"): void => {
   safeWrite(STORAGE_KEYS.theme, theme);
 };
+
+export interface PersistedAttemptState {
+  studentId: number | null;
+  current: StartAttemptResponse;
+  answersByQuestionId: Record<number, AttemptAnswerInput>;
+  syncByQuestionId?: Record<number, AnswerSyncStatus>;
+  flaggedQuestionIds?: number[];
+  questionIndex: number;
+  serverTimeOffsetMs?: number;
+  savedAt: string;
+}
+
+const attemptKey = (attemptId: number): string => `${STORAGE_KEYS.attemptPrefix}${attemptId}`;
+
+const listPersistedAttemptKeys = (): string[] => {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const storage = getStorage("local");
+    const keys: string[] = [];
+    for (let index = 0; index < storage.length; index += 1) {
+      const key = storage.key(index);
+      if (key?.startsWith(STORAGE_KEYS.attemptPrefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  } catch {
+    return [];
+  }
+};
+
+const isPersistedAttemptLive = (data: PersistedAttemptState): boolean => {
+  const attempt = data.current?.attempt;
+  if (!attempt || attempt.status !== "in_progress") {
+    return false;
+  }
+
+  return Date.now() + (data.serverTimeOffsetMs ?? 0) < new Date(attempt.expiresAt).getTime();
+};
+
+export const savePersistedAttempt = (state: PersistedAttemptState): void => {
+  if (!isPersistedAttemptLive(state)) {
+    safeRemove(attemptKey(state.current.attempt.id), "local");
+    return;
+  }
+
+  safeWrite(attemptKey(state.current.attempt.id), state, "local");
+};
+
+export const removePersistedAttempt = (attemptId: number): void => {
+  safeRemove(attemptKey(attemptId), "local");
+};
+
+/**
+ * Finds the in-progress attempt saved for a test by this student. Expired or finished
+ * records found along the way are dropped so storage does not grow across terms.
+ */
+export const loadPersistedAttemptForTest = (testId: number, studentId: number | null): PersistedAttemptState | null => {
+  let match: PersistedAttemptState | null = null;
+
+  for (const key of listPersistedAttemptKeys()) {
+    const data = safeRead<PersistedAttemptState>(key, "local");
+    if (!data || !isPersistedAttemptLive(data)) {
+      safeRemove(key, "local");
+      continue;
+    }
+
+    if (data.current.test.id === testId && data.studentId === studentId) {
+      match = data;
+    }
+  }
+
+  return match;
+};
+
+// Entries are typed by the outbox slice; storage only needs to round-trip the array.
+export const loadPersistedOutbox = <T>(): T[] => {
+  const data = safeRead<T[]>(STORAGE_KEYS.outbox, "local");
+  return Array.isArray(data) ? data : [];
+};
+
+export const savePersistedOutbox = (entries: unknown[]): void => {
+  if (entries.length === 0) {
+    safeRemove(STORAGE_KEYS.outbox, "local");
+    return;
+  }
+
+  safeWrite(STORAGE_KEYS.outbox, entries, "local");
+};
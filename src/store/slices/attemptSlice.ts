@@ -1,9 +1,20 @@
 import { createSlice, type PayloadAction } from "@reduxjs/toolkit";
-import type { AttemptAnswerInput, StartAttemptResponse } from "@/types/domain";
+import type {
+  AnswerSyncStatus,
+  AttemptAnswerInput,
+  HintReveal,
+  StartAttemptResponse,
+  StudentQuestion,
+} from "@/types/domain";
+import type { PersistedAttemptState } from "@/store/persistence";
 
 export interface AttemptState {
   current: StartAttemptResponse | null;
   answersByQuestionId: Record<number, AttemptAnswerInput>;
+  syncByQuestionId: Record<number, AnswerSyncStatus>;
+  // Marked for review by the student; local only, never sent to the server.
+  flaggedQuestionIds: number[];
+  questionIndex: number;
   submitInFlight: boolean;
   error: string | null;
 }
@@ -11,23 +22,75 @@ export interface AttemptState {
 const initialState: AttemptState = {
   current: null,
   answersByQuestionId: {},
+  syncByQuestionId: {},
+  flaggedQuestionIds: [],
+  questionIndex: 0,
   submitInFlight: false,
   error: null,
 };
 
+const clampIndex = (index: number, total: number): number => Math.min(Math.max(0, index), Math.max(0, total - 1));
+
+const sameAnswer = (left: AttemptAnswerInput | undefined, right: AttemptAnswerInput): boolean =>
+  JSON.stringify(left ?? null) === JSON.stringify(right);
+
+// An untouched ordering question is answered with the sequence it was presented in.
+const emptyAnswer = (question: StudentQuestion): AttemptAnswerInput =>
+  question.type === "ordering"
+    ? { questionId: question.id, orderedOptionIds: question.options.map((option) => option.id) }
+    : { questionId: question.id, selectedOptionIds: [] };
+
 const attemptSlice = createSlice({
   name: "attempt",
   initialState,
   reducers: {
     setCurrentAttempt: (state, action: PayloadAction<StartAttemptResponse>) => {
+      // Same attempt coming back from the server (resume): local drafts that have not reached the
+      // server yet win, everything else is taken from the answers the server already saved.
+      const sameAttempt = state.current?.attempt.id === action.payload.attempt.id;
+      const previous = sameAttempt ? state.answersByQuestionId : {};
+      const previousSync = sameAttempt ? state.syncByQuestionId : {};
+      const serverAnswers = new Map(action.payload.answers.map((answer) => [answer.questionId, answer]));
+
       state.current = action.payload;
       state.error = null;
 
       const defaults: Record<number, AttemptAnswerInput> = {};
+      const sync: Record<number, AnswerSyncStatus> = {};
       action.payload.test.questions.forEach((question) => {
-        defaults[question.id] = { questionId: question.id, selectedOptionIds: [] };
+        const local = previous[question.id];
+        const localSync = previousSync[question.id];
+        const saved = serverAnswers.get(question.id);
+
+        if (local && localSync && localSync !== "saved") {
+          defaults[question.id] = local;
+          sync[question.id] = localSync;
+        } else if (saved) {
+          defaults[question.id] = saved;
+          sync[question.id] = "saved";
+        } else {
+          defaults[question.id] = local ?? emptyAnswer(question);
+        }
       });
       state.answersByQuestionId = defaults;
+      state.syncByQuestionId = sync;
+      state.flaggedQuestionIds = sameAttempt
+        ? state.flaggedQuestionIds.filter((questionId) => questionId in defaults)
+        : [];
+      state.questionIndex = sameAttempt ? clampIndex(state.questionIndex, action.payload.test.questions.length) : 0;
+    },
+    restoreAttempt: (state, action: PayloadAction<PersistedAttemptState>) => {
+      state.current = action.payload.current;
+      state.answersByQuestionId = action.payload.answersByQuestionId;
+      state.syncByQuestionId = {};
+      Object.entries(action.payload.syncByQuestionId ?? {}).forEach(([questionId, status]) => {
+        // A save that was in flight when the app closed never got confirmed.
+        state.syncByQuestionId[Number(questionId)] = status === "saving" ? "unsynced" : status;
+      });
+      state.flaggedQuestionIds = action.payload.flaggedQuestionIds ?? [];
+      state.questionIndex = clampIndex(action.payload.questionIndex, action.payload.current.test.questions.length);
+      state.submitInFlight = false;
+      state.error = null;
     },
     setAnswer: (state, action: PayloadAction<AttemptAnswerInput>) => {
       const current = state.answersByQuestionId[action.payload.questionId] ?? { questionId: action.payload.questionId };
@@ -35,6 +98,50 @@ const attemptSlice = createSlice({
         ...current,
         ...action.payload,
       };
+      state.syncByQuestionId[action.payload.questionId] = "unsynced";
+    },
+    setAnswerSyncStatus: (state, action: PayloadAction<{ questionId: number; status: AnswerSyncStatus }>) => {
+      state.syncByQuestionId[action.payload.questionId] = action.payload.status;
+    },
+    markAnswerSaved: (state, action: PayloadAction<{ attemptId: number; answer: AttemptAnswerInput }>) => {
+      if (state.current?.attempt.id !== action.payload.attemptId) {
+        return;
+      }
+
+      // Only a save of the latest draft counts; a newer edit keeps the question unsynced.
+      const { answer } = action.payload;
+      state.syncByQuestionId[answer.questionId] = sameAnswer(state.answersByQuestionId[answer.questionId], answer)
+        ? "saved"
+        : "unsynced";
+    },
+    // A teacher extension moves the deadline of the attempt that is already running.
+    setAttemptExpiry: (state, action: PayloadAction<{ attemptId: number; expiresAt: string }>) => {
+      if (state.current?.attempt.id === action.payload.attemptId) {
+        state.current.attempt.expiresAt = action.payload.expiresAt;
+      }
+    },
+    // Revealed hints live on the question so a restored draft shows them again.
+    recordHintReveal: (state, action: PayloadAction<HintReveal>) => {
+      if (state.current?.attempt.id !== action.payload.attemptId) {
+        return;
+      }
+
+      const question = state.current.test.questions.find((item) => item.id === action.payload.questionId);
+      if (question) {
+        question.revealedHints = [...(question.revealedHints ?? []), action.payload.hint].slice(
+          0,
+          action.payload.hintsUsed
+        );
+        question.hintCount = action.payload.hintCount;
+      }
+    },
+    toggleQuestionFlag: (state, action: PayloadAction<number>) => {
+      state.flaggedQuestionIds = state.flaggedQuestionIds.includes(action.payload)
+        ? state.flaggedQuestionIds.filter((questionId) => questionId !== action.payload)
+        : [...state.flaggedQuestionIds, action.payload];
+    },
+    setQuestionIndex: (state, action: PayloadAction<number>) => {
+      state.questionIndex = clampIndex(action.payload, state.current?.test.questions.length ?? 0);
     },
     setAttemptError: (state, action: PayloadAction<string | null>) => {
       state.error = action.payload;
@@ -46,5 +153,18 @@ const attemptSlice = createSlice({
   },
 });
 
-export const { setCurrentAttempt, setAnswer, clearAttempt, setSubmitInFlight, setAttemptError } = attemptSlice.actions;
+export const {
+  setCurrentAttempt,
+  restoreAttempt,
+  setAnswer,
+  setAnswerSyncStatus,
+  markAnswerSaved,
+  setAttemptExpiry,
+  recordHintReveal,
+  toggleQuestionFlag,
+  setQuestionIndex,
+  clearAttempt,
+  setSubmitInFlight,
+  setAttemptError,
+} = attemptSlice.actions;
 export const attemptReducer = attemptSlice.reducer;
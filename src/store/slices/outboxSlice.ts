@@ -0,0 +1,114 @@
+import { createSlice, type PayloadAction } from "@reduxjs/toolkit";
+import type { AttemptAnswerInput } from "@/types/domain";
+import { loadPersistedOutbox } from "@/store/persistence";
+
+interface OutboxEntryBase {
+  id: string;
+  attemptId: number;
+  testId: number;
+  // The queue is kept per device; entries replay only for the student who queued them.
+  studentId: number | null;
+  idempotencyKey: string;
+  createdAt: string;
+}
+
+export type OutboxEntry =
+  | (OutboxEntryBase & { kind: "saveAnswer"; answer: AttemptAnswerInput })
+  | (OutboxEntryBase & { kind: "submitAttempt"; answers: AttemptAnswerInput[] });
+
+export interface OutboxState {
+  entries: OutboxEntry[];
+  replaying: boolean;
+  deliveredSubmit: { attemptId: number; testId: number } | null;
+}
+
+const initialState: OutboxState = {
+  entries: loadPersistedOutbox<OutboxEntry>(),
+  replaying: false,
+  deliveredSubmit: null,
+};
+
+const outboxSlice = createSlice({
+  name: "outbox",
+  initialState,
+  reducers: {
+    enqueueOutboxEntry: (state, action: PayloadAction<OutboxEntry>) => {
+      const entry = action.payload;
+
+      if (entry.kind === "saveAnswer") {
+        // Only the latest draft of a question matters; drop older queued saves for it.
+        state.entries = state.entries.filter(
+          (item) =>
+            !(item.kind === "saveAnswer" && item.attemptId === entry.attemptId && item.answer.questionId === entry.answer.questionId)
+        );
+      }
+
+      if (entry.kind === "submitAttempt") {
+        state.entries = state.entries.filter(
+          (item) => !(item.kind === "submitAttempt" && item.attemptId === entry.attemptId)
+        );
+      }
+
+      state.entries.push(entry);
+    },
+    removeOutboxEntry: (state, action: PayloadAction<string>) => {
+      state.entries = state.entries.filter((entry) => entry.id !== action.payload);
+    },
+    dropOutboxAttempt: (state, action: PayloadAction<number>) => {
+      state.entries = state.entries.filter((entry) => entry.attemptId !== action.payload);
+    },
+    setOutboxReplaying: (state, action: PayloadAction<boolean>) => {
+      state.replaying = action.payload;
+    },
+    setDeliveredSubmit: (state, action: PayloadAction<OutboxState["deliveredSubmit"]>) => {
+      state.deliveredSubmit = action.payload;
+    },
+  },
+});
+
+export const { enqueueOutboxEntry, removeOutboxEntry, dropOutboxAttempt, setOutboxReplaying, setDeliveredSubmit } =
+  outboxSlice.actions;
+export const outboxReducer = outboxSlice.reducer;
+
+const randomKey = (): string =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createAnswerOutboxEntry = (
+  attemptId: number,
+  testId: number,
+  studentId: number | null,
+  answer: AttemptAnswerInput
+): OutboxEntry => {
+  const key = `answer-${attemptId}-${answer.questionId}-${randomKey()}`;
+  return {
+    id: key,
+    kind: "saveAnswer",
+    attemptId,
+    testId,
+    studentId,
+    idempotencyKey: key,
+    createdAt: new Date().toISOString(),
+    answer,
+  };
+};
+
+// An attempt can only be submitted once, so its key is stable across retries, reloads and devices.
+export const submitIdempotencyKey = (attemptId: number): string => `submit-${attemptId}`;
+
+export const createSubmitOutboxEntry = (
+  attemptId: number,
+  testId: number,
+  studentId: number | null,
+  answers: AttemptAnswerInput[]
+): OutboxEntry => ({
+  id: `${submitIdempotencyKey(attemptId)}-${randomKey()}`,
+  kind: "submitAttempt",
+  attemptId,
+  testId,
+  studentId,
+  idempotencyKey: submitIdempotencyKey(attemptId),
+  createdAt: new Date().toISOString(),
+  answers,
+});
@@ -5,13 +5,17 @@ import { loadPersistedTheme } from "@/store/persistence";
 export interface UiState {
   theme: "light" | "dark";
   online: boolean;
+  serverTimeOffsetMs: number;
   globalError: string | null;
   toasts: AppToast[];
 }
 
+const SERVER_OFFSET_JITTER_MS = 1000;
+
 const initialState: UiState = {
   theme: loadPersistedTheme(),
-  online: true,
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+  serverTimeOffsetMs: 0,
   globalError: null,
   toasts: [],
 };
@@ -26,6 +30,13 @@ const uiSlice = createSlice({
     setOnline: (state, action: PayloadAction<boolean>) => {
       state.online = action.payload;
     },
+    setServerTimeOffset: (state, action: PayloadAction<number>) => {
+      // Samples carry about a second of jitter; ignore changes smaller than that.
+      if (Math.abs(state.serverTimeOffsetMs - action.payload) < SERVER_OFFSET_JITTER_MS) {
+        return;
+      }
+      state.serverTimeOffsetMs = Math.round(action.payload);
+    },
     setGlobalError: (state, action: PayloadAction<string | null>) => {
       state.globalError = action.payload;
     },
@@ -44,5 +55,7 @@ const uiSlice = createSlice({
   },
 });
 
-export const { setTheme, setOnline, setGlobalError, pushToast, dismissToast, clearToasts } = uiSlice.actions;
+export const { setTheme, setOnline, setServerTimeOffset, setGlobalError, pushToast, dismissToast, clearToasts } = uiSlice.actions;
 export const uiReducer = uiSlice.reducer;
+
+export const getServerNow = (serverTimeOffsetMs: number): number => Date.now() + serverTimeOffsetMs;
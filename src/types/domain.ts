@@ -16,11 +16,68 @@ export interface AuthSession {
   user: UserProfile;
 }
 
-export type QuestionType = "single" | "multiple" | "short" | "numeric";
+export type QuestionType = "single" | "multiple" | "short" | "numeric" | "ordering" | "matching";
+
+// How choice questions earn points: `proportional` and `right_minus_wrong` apply to `multiple`,
+// `negative_marking` to `single`.
+export type ScoringPolicy = "all_or_nothing" | "proportional" | "right_minus_wrong" | "negative_marking";
+
+// `ignore` drops all whitespace, `collapse` trims and folds runs into one space, `exact` keeps it as typed.
+export type WhitespacePolicy = "ignore" | "collapse" | "exact";
+
+export interface ShortAnswerRules {
+  // Accepted besides `correctText`.
+  acceptedAnswers: string[];
+  caseSensitive: boolean;
+  whitespace: WhitespacePolicy;
+  // Regular expression sources tested against the whole trimmed answer.
+  patterns: string[];
+  // Maximum Levenshtein distance to an accepted answer; 0 disables typo tolerance.
+  typoTolerance: number;
+}
+
+export interface NumericUnit {
+  label: string;
+  // Multiply a value given in this unit by `factor` to get the question's base unit.
+  factor: number;
+}
+
+export interface NumericAnswerRules {
+  // Accepted relative error in percent of the correct value, on top of the absolute `tolerance`.
+  relativeTolerancePercent: number | null;
+  significantFigures: number | null;
+  // Base unit of `correctNumber`; when set, answers must name it or one of `acceptedUnits`.
+  unit: string | null;
+  acceptedUnits: NumericUnit[];
+}
 
 export interface QuestionOption {
   id: number;
+  // Empty for image-only options of `single`/`multiple` questions.
   text: string;
+  imageUrl?: string | null;
+}
+
+export interface UploadedImage {
+  url: string;
+  width: number;
+  height: number;
+  sizeBytes: number;
+}
+
+export interface MatchPair {
+  leftId: number;
+  rightId: number;
+}
+
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+// Each attempt draws `drawCount` of the pool's questions; `quotas` reserve some of those draws per difficulty.
+export interface QuestionPool {
+  id: string;
+  title: string;
+  drawCount: number;
+  quotas: Record<QuestionDifficulty, number>;
 }
 
 export interface TeacherQuestion {
@@ -28,64 +85,188 @@ export interface TeacherQuestion {
   prompt: string;
   type: QuestionType;
   points: number;
+  // For `ordering` questions the options are stored in the correct sequence.
+  // For `matching` questions the options are the left-hand items and `matchOptions` the right-hand ones.
   options: QuestionOption[];
+  matchOptions: QuestionOption[];
   correctOptionIds: number[];
+  correctPairs: MatchPair[];
   correctText: string | null;
   correctNumber: number | null;
   tolerance: number | null;
+  partialCredit: boolean;
+  scoringPolicy: ScoringPolicy;
+  shortAnswerRules: ShortAnswerRules;
+  numericRules: NumericAnswerRules;
+  // Questions outside any pool are asked in every attempt.
+  poolId: string | null;
+  difficulty: QuestionDifficulty;
+  // Revealed one step at a time; each revealed step costs `hintPenaltyPercent` of the question's points.
+  hints: string[];
+  hintPenaltyPercent: number;
+  imageUrl: string | null;
+  // Set when the question was copied from the question bank; the copy stays editable on its own.
+  bankQuestionId: number | null;
   explanation: string;
 }
 
+export interface BankQuestionUsage {
+  testId: number;
+  testTitle: string;
+  questionId: number;
+}
+
+// A bank item carries the same content as a test question; its `id` is the bank id.
+export interface BankQuestion extends TeacherQuestion {
+  tags: string[];
+  usage: BankQuestionUsage[];
+  updatedAt: string;
+}
+
+export interface BankQuestionFilter {
+  search: string;
+  tag: string;
+}
+
+export interface BankQuestionUpdate {
+  id: number;
+  question?: TeacherQuestionInput;
+  tags?: string[];
+  // Rewrites linked test copies too, except in tests that already have attempts.
+  propagate?: boolean;
+}
+
+export interface BankUpdateResult {
+  item: BankQuestion;
+  updatedQuestions: number;
+  skippedTestIds: number[];
+}
+
 export interface TeacherQuestionInput {
   prompt: string;
   type: QuestionType;
   points: number;
-  options: Array<{ text: string; isCorrect: boolean }>;
+  // `matchText` is the right-hand item paired with `text` in `matching` questions.
+  // `imageUrl` is only kept on `single`/`multiple` options.
+  options: Array<{ text: string; isCorrect: boolean; matchText?: string; imageUrl?: string | null }>;
   correctText?: string | null;
   correctNumber?: number | null;
   tolerance?: number | null;
+  partialCredit?: boolean;
+  scoringPolicy?: ScoringPolicy;
+  shortAnswerRules?: ShortAnswerRules;
+  numericRules?: NumericAnswerRules;
+  poolId?: string | null;
+  difficulty?: QuestionDifficulty;
+  hints?: string[];
+  hintPenaltyPercent?: number;
+  imageUrl?: string | null;
+  bankQuestionId?: number | null;
   explanation?: string;
 }
 
 export type TestStatus = "draft" | "published" | "archived";
 
+// Practice tests check each answer on request, allow unlimited attempts and stay out of graded results.
+export type TestMode = "exam" | "practice";
+
 export interface TeacherTest {
   id: number;
   title: string;
   description: string;
   status: TestStatus;
+  mode: TestMode;
   timeLimitSec: number;
   passingPercent: number;
+  // Presentation order is fixed per attempt by `StudentAttempt.seed`.
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  pools: QuestionPool[];
   courseId: number | null;
   questions: TeacherQuestion[];
   createdAt: string;
   updatedAt: string;
 }
 
+// One request saves the test settings and every question change; if any question fails, nothing is stored.
+export interface TestSaveRequest {
+  // `null` creates a new test.
+  testId: number | null;
+  test: Partial<TeacherTest>;
+  // `clientId` is the builder's draft key, echoed back in the per-question results.
+  questions: Array<{ clientId: string; id?: number; question: TeacherQuestionInput }>;
+  deletedQuestionIds: number[];
+}
+
+export interface TestSaveQuestionResult {
+  clientId: string;
+  // `skipped` questions were valid but not stored because another question failed.
+  status: "created" | "updated" | "skipped" | "failed";
+  questionId: number | null;
+  error: string | null;
+}
+
+export interface TestSaveResult {
+  saved: boolean;
+  test: TeacherTest | null;
+  results: TestSaveQuestionResult[];
+}
+
 export interface StudentQuestion {
   id: number;
   prompt: string;
   type: QuestionType;
   points: number;
   options: QuestionOption[];
+  matchOptions?: QuestionOption[];
+  imageUrl?: string | null;
+  expectsUnit?: boolean;
+  // Hint texts stay on the server until the student asks for them.
+  hintCount?: number;
+  hintPenaltyPercent?: number;
+  revealedHints?: string[];
+}
+
+export interface HintReveal {
+  attemptId: number;
+  questionId: number;
+  hint: string;
+  hintsUsed: number;
+  hintCount: number;
 }
 
+export type TestAvailability = "upcoming" | "open" | "closed";
+
 export interface StudentTestSummary {
   id: number;
   title: string;
   description: string;
   questionCount: number;
   timeLimitSec: number;
+  mode: TestMode;
+  // `completed` once the assignment's attempt budget is used up.
   status: "open" | "completed";
+  attemptsUsed: number;
+  attemptsAllowed: number;
+  lastAttemptId: number | null;
+  availableFrom: string | null;
+  availableUntil: string | null;
+  availability: TestAvailability;
 }
 
-export type AttemptStatus = "in_progress" | "submitted" | "expired";
+// `graded` is a submitted attempt whose written answers a teacher has reviewed.
+export type AttemptStatus = "in_progress" | "submitted" | "graded" | "expired";
 
 export interface AttemptAnswerInput {
   questionId: number;
   selectedOptionIds?: number[];
   textAnswer?: string;
   numericAnswer?: number;
+  // The number as typed, kept for significant-figure checks.
+  numericText?: string;
+  numericUnit?: string;
+  orderedOptionIds?: number[];
+  matchedPairs?: MatchPair[];
 }
 
 export interface StudentAttempt {
@@ -95,6 +276,7 @@ export interface StudentAttempt {
   startedAt: string;
   expiresAt: string;
   submittedAt: string | null;
+  seed: number;
 }
 
 export interface StartAttemptResponse {
@@ -104,10 +286,29 @@ export interface StartAttemptResponse {
     title: string;
     description: string;
     timeLimitSec: number;
+    mode: TestMode;
     questions: StudentQuestion[];
   };
+  answers: AttemptAnswerInput[];
+  serverTime?: string;
 }
 
+// Lets a running attempt pick up deadline changes, such as a teacher's extension.
+export interface AttemptTiming {
+  attemptId: number;
+  status: AttemptStatus;
+  expiresAt: string;
+  serverTime?: string;
+}
+
+export interface SavedAttemptAnswer {
+  attemptId: number;
+  questionId: number;
+  savedAt: string;
+}
+
+export type AnswerSyncStatus = "saved" | "saving" | "unsynced";
+
 export interface QuestionResult {
   questionId: number;
   prompt: string;
@@ -118,6 +319,31 @@ export interface QuestionResult {
   explanation: string;
   correctAnswerText: string;
   userAnswerText: string;
+  matchedRule?: string | null;
+  manuallyGraded?: boolean;
+  feedback?: string | null;
+  hintsUsed?: number;
+  hintPenalty?: number;
+}
+
+export interface PracticeCheckInput {
+  attemptId: number;
+  answer: AttemptAnswerInput;
+}
+
+// Practice checks per question, counted across every student and practice attempt.
+export interface PracticeQuestionStat {
+  questionId: number;
+  prompt: string;
+  checks: number;
+  correctChecks: number;
+  students: number;
+}
+
+export interface PracticeStatsSummary {
+  testId: number;
+  practiceAttempts: number;
+  questions: PracticeQuestionStat[];
 }
 
 export interface AttemptResult {
@@ -132,6 +358,10 @@ export interface AttemptResult {
   breakdown: QuestionResult[];
 }
 
+// Which of a student's finished attempts counts when an assignment allows retakes.
+export type GradePolicy = "best" | "latest" | "average" | "first";
+
+// One row per student, scored by the assignment's grade policy.
 export interface TeacherResultRow {
   attemptId: number;
   studentName: string;
@@ -140,6 +370,26 @@ export interface TeacherResultRow {
   percentage: number;
   passed: boolean;
   submittedAt: string | null;
+  attemptsUsed: number;
+  gradePolicy: GradePolicy;
+}
+
+export interface ActiveAttemptRow {
+  attemptId: number;
+  studentName: string;
+  startedAt: string;
+  expiresAt: string;
+}
+
+// Per-question statistics; with pools a question may be seen by only some students.
+export interface QuestionItemStat {
+  questionId: number;
+  prompt: string;
+  poolTitle: string | null;
+  seenBy: number;
+  correctCount: number;
+  averagePoints: number;
+  maxPoints: number;
 }
 
 export interface TeacherResultsSummary {
@@ -148,9 +398,34 @@ export interface TeacherResultsSummary {
   totalAttempts: number;
   averageScore: number;
   passRate: number;
+  pendingGrading: number;
+  activeAttempts: ActiveAttemptRow[];
+  items: QuestionItemStat[];
   rows: TeacherResultRow[];
 }
 
+export interface GradingQueueItem {
+  attemptId: number;
+  questionId: number;
+  studentName: string;
+  prompt: string;
+  answerText: string;
+  expectedText: string;
+  autoPoints: number;
+  maxPoints: number;
+  // Auto-scoring rejected a non-empty answer, so a human should look first.
+  flagged: boolean;
+  matchedRule: string | null;
+  submittedAt: string | null;
+}
+
+export interface GradeQuestionInput {
+  attemptId: number;
+  questionId: number;
+  points: number;
+  feedback: string;
+}
+
 export interface TeacherAttemptQuestionDetail {
   questionId: number;
   prompt: string;
@@ -160,6 +435,12 @@ export interface TeacherAttemptQuestionDetail {
   writtenAnswer: string;
   selectedAnswers: QuestionOption[];
   correctAnswers: QuestionOption[];
+  matchedRule: string | null;
+  manuallyGraded: boolean;
+  feedback: string | null;
+  hintsUsed: number;
+  hintCount: number;
+  hintPenalty: number;
 }
 
 export interface TeacherAttemptDetail {
@@ -171,7 +452,9 @@ export interface TeacherAttemptDetail {
   score: number;
   maxScore: number;
   percentage: number;
+  status: AttemptStatus;
   startedAt: string;
+  expiresAt: string;
   completedAt: string | null;
   questions: TeacherAttemptQuestionDetail[];
 }
@@ -201,10 +484,29 @@ export interface EnrollmentTestAssignment {
   testId: number;
   testTitle: string;
   attemptCount: number;
+  gradePolicy: GradePolicy;
   startDate: string | null;
   endDate: string | null;
 }
 
+// Extra-time multiplier for one student, scoped to a whole course or to a single assignment.
+export interface TimeAccommodation {
+  id: number;
+  studentId: number;
+  studentName: string;
+  courseId: number | null;
+  assignmentId: number | null;
+  scopeLabel: string;
+  multiplier: number;
+}
+
+export interface TimeAccommodationInput {
+  studentId: number;
+  courseId: number | null;
+  assignmentId: number | null;
+  multiplier: number;
+}
+
 export interface ApiErrorPayload {
   detail: string;
 }
@@ -0,0 +1,6 @@
+import { JSDOM } from "jsdom";
+
+// Bun has no DOM; the Moodle XML and QTI readers need the browser's XML parser and serializer.
+const { window } = new JSDOM();
+globalThis.DOMParser = window.DOMParser;
+globalThis.XMLSerializer = window.XMLSerializer;